@@ -1,95 +1,347 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import { ConfigManager } from './core/config-manager.js';
 import { SyncDaemon } from './core/daemon.js';
+import { DaemonProcess } from './core/daemon-process.js';
+import { SystemdService } from './core/systemd-service.js';
+import { ControlServer } from './core/control-server.js';
+import { Logger } from './core/logger.js';
 import { updateGitignore, removeFromGitignore, getRecommendedGitignoreEntries } from './utils/git.js';
 import { ProjectDetector } from './core/project-detector.js';
-import { writeFile, readFile, unlink } from 'node:fs/promises';
+import { StorageManager } from './core/storage-manager.js';
+import { KeyManager } from './core/key-manager.js';
+import { HistoryPruner } from './core/history-pruner.js';
+import { SearchIndex } from './core/search-index.js';
+import { ConversationSearcher } from './core/conversation-searcher.js';
+import { restrictDirection } from './utils/project-config.js';
+import {
+  filterConversations,
+  getDisplayTitle,
+  sortConversations,
+} from './utils/conversation-filter.js';
+import { formatTranscript } from './utils/transcript.js';
+import { renderExport } from './utils/export.js';
+import { readBundle, writeBundle } from './utils/bundle.js';
+import { callDaemon } from './utils/control.js';
+import {
+  DEFAULT_SCAN_DEPTH,
+  DEFAULT_SCAN_EXCLUDE,
+  isWithin,
+  readDaemonConfig,
+  writeDaemonConfig,
+} from './utils/daemon-config.js';
+import {
+  DEFAULT_LOG_FILES,
+  LOG_LEVELS,
+  followLog,
+  formatLogRecord,
+  parseLogRecords,
+  readLogRecords,
+} from './utils/logs.js';
+import {
+  getDaemonConfigPath,
+  getDaemonLogPath,
+  getExportsPath,
+  pathExists,
+  resolvePath,
+} from './utils/paths.js';
+import { formatSize, formatTimestamp, truncate } from './utils/format.js';
+import { mkdir, writeFile, readFile } from 'node:fs/promises';
 import { homedir } from 'node:os';
-import { join } from 'node:path';
+import { basename, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
 import { existsSync } from 'node:fs';
+import type {
+  ConversationEntry,
+  ConversationListing,
+  ConversationSortField,
+  DaemonConfig,
+  DaemonStatus,
+  ExportFormat,
+  KeySource,
+  LogFilter,
+  LogLevel,
+  LogRecord,
+  RetentionPolicy,
+  SearchMatch,
+  SearchQuery,
+  SearchRole,
+  ServiceStatus,
+  SessionDiff,
+  SessionLine,
+  SyncDirection,
+  SyncPlan,
+  SyncResult,
+} from './types/index.js';
 
 const program = new Command();
 const configManager = new ConfigManager();
 const projectDetector = new ProjectDetector();
 
+/**
+ * Print the actions of a sync plan, leaving out skipped files
+ */
+function printSyncPlan(plan: SyncPlan): void {
+  const arrows: Record<SyncDirection, string> = {
+    'to-local': '→ local ',
+    'to-global': '→ global',
+    both: '↔ both  ',
+  };
+  const colors = {
+    copy: chalk.green,
+    merge: chalk.cyan,
+    delete: chalk.red,
+    conflict: chalk.yellow,
+    skip: chalk.gray,
+  };
+
+  const pending = plan.actions.filter((action) => action.action !== 'skip');
+  for (const action of pending) {
+    const label = colors[action.action](action.action.padEnd(8));
+    console.log(
+      `  ${label} ${arrows[action.direction]}  ${action.file} ${chalk.gray(`(${action.reason})`)}`
+    );
+  }
+
+  const skipped = plan.actions.length - pending.length;
+  if (pending.length === 0) {
+    console.log(chalk.gray('  Nothing to do'));
+  }
+  if (skipped > 0) {
+    console.log(chalk.gray(`  ${skipped} file(s) unchanged or skipped`));
+  }
+}
+
+/**
+ * Parse a date option, such as 2024-01-31 or 2024-01-31T14:00
+ */
+function parseDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new InvalidArgumentError('Not a valid date.');
+  }
+  return date;
+}
+
+/**
+ * Parse a size option given in kilobytes into bytes
+ */
+function parseKilobytes(value: string): number {
+  const size = parseFloat(value);
+  if (isNaN(size) || size < 0) {
+    throw new InvalidArgumentError('Not a valid size.');
+  }
+  return size * 1024;
+}
+
+/**
+ * Parse a count option, a whole number that is zero or more
+ */
+function parseCount(value: string): number {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new InvalidArgumentError('Not a valid count.');
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Parse an amount option, such as days or megabytes, that is zero or more
+ */
+function parseAmount(value: string): number {
+  const amount = Number(value);
+  if (value.trim() === '' || !Number.isFinite(amount) || amount < 0) {
+    throw new InvalidArgumentError('Not a valid amount.');
+  }
+  return amount;
+}
+
+/**
+ * Parse the field the list command sorts by
+ */
+function parseSortField(value: string): ConversationSortField {
+  const fields: ConversationSortField[] = ['updated', 'created', 'size', 'messages', 'title'];
+  if (!fields.includes(value as ConversationSortField)) {
+    throw new InvalidArgumentError(`Allowed fields are ${fields.join(', ')}.`);
+  }
+  return value as ConversationSortField;
+}
+
+/**
+ * Parse the format the export command writes
+ */
+function parseExportFormat(value: string): ExportFormat {
+  const formats: ExportFormat[] = ['md', 'html', 'json'];
+  if (!formats.includes(value as ExportFormat)) {
+    throw new InvalidArgumentError(`Allowed formats are ${formats.join(', ')}.`);
+  }
+  return value as ExportFormat;
+}
+
+/**
+ * Parse a log level option
+ */
+function parseLogLevel(value: string): LogLevel {
+  if (!LOG_LEVELS.includes(value as LogLevel)) {
+    throw new InvalidArgumentError(`Allowed levels are ${LOG_LEVELS.join(', ')}.`);
+  }
+  return value as LogLevel;
+}
+
+/**
+ * Parse the roles the search command is limited to
+ */
+function parseRole(value: string, previous: SearchRole[] = []): SearchRole[] {
+  const roles: SearchRole[] = ['user', 'assistant', 'tool'];
+  if (!roles.includes(value as SearchRole)) {
+    throw new InvalidArgumentError(`Allowed roles are ${roles.join(', ')}.`);
+  }
+  return [...previous, value as SearchRole];
+}
+
+/**
+ * Highlight the parts of a line that match a search
+ */
+function highlightMatch(line: string, query: SearchQuery): string {
+  const source = query.regex ? query.pattern : query.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(source, query.caseSensitive ? 'g' : 'gi');
+  return line.replace(pattern, (match) => chalk.bold.yellow(match));
+}
+
+/**
+ * Print a search match with the lines around it
+ */
+function printSearchMatch(match: SearchMatch, query: SearchQuery, showProject: boolean): void {
+  const details = [
+    match.timestamp ? formatTimestamp(match.timestamp) : null,
+    match.role,
+    showProject ? match.cwd : null,
+  ].filter(Boolean);
+  console.log(`${chalk.yellow(match.sessionId.slice(0, 8))}  ${chalk.gray(details.join('  '))}`);
+  match.before.forEach((line) => console.log(chalk.gray(`    ${truncate(line, 160)}`)));
+  console.log(`  ${chalk.cyan('>')} ${highlightMatch(truncate(match.text, 160), query)}`);
+  match.after.forEach((line) => console.log(chalk.gray(`    ${truncate(line, 160)}`)));
+}
+
+/**
+ * Print a row of the conversation list
+ */
+function printConversation(conversation: ConversationListing): void {
+  const sides =
+    conversation.sides.length === 2
+      ? chalk.green('both  ')
+      : conversation.sides[0] === 'local'
+        ? chalk.cyan('local ')
+        : chalk.gray('global');
+  console.log(
+    `  ${chalk.yellow(conversation.id.slice(0, 8))}  ` +
+      `${formatTimestamp(conversation.updatedAt)}  ` +
+      `${String(conversation.messageCount).padStart(4)} msgs  ` +
+      `${formatSize(conversation.size).padStart(8)}  ${sides}  ` +
+      `${chalk.gray((conversation.gitBranch || '-').padEnd(12))}  ` +
+      truncate(getDisplayTitle(conversation) || chalk.gray('(untitled)'), 60)
+  );
+}
+
 program
   .name('claude-sync')
   .description('Automatic conversation sync for Claude Code')
   .version('0.1.0');
 
+/**
+ * Get the directories monitored when none are given
+ */
+function getDefaultSearchPaths(): string[] {
+  return [join(homedir(), 'Projects'), join(homedir(), 'code'), join(homedir(), 'src')];
+}
+
+/**
+ * Read the search paths saved in the daemon's config
+ */
+async function readSearchPaths(): Promise<string[] | undefined> {
+  const config = await readDaemonConfig().catch(() => null);
+  return config?.searchPaths;
+}
+
 /**
  * Enable automatic syncing
  */
 program
   .command('enable')
   .description('Enable automatic conversation syncing')
-  .option('--paths <paths...>', 'Custom paths to monitor (default: ~/Projects, ~/code, ~/src)')
+  .option('--paths <paths...>', 'Custom paths to monitor (default: the saved paths, or ~/Projects, ~/code, ~/src)')
   .action(async (options) => {
     try {
-      const pidFile = join(homedir(), '.claude-sync-daemon.pid');
-      const configFile = join(homedir(), '.claude-sync-config.json');
+      const daemonProcess = new DaemonProcess();
 
       // Check if already running
-      if (existsSync(pidFile)) {
-        try {
-          const pid = await readFile(pidFile, 'utf-8');
-          // Check if process is actually running
-          try {
-            process.kill(parseInt(pid), 0);
-            console.log(chalk.yellow('✓ Auto-sync is already enabled'));
-            return;
-          } catch {
-            // Process not running, clean up stale PID file
-            await unlink(pidFile).catch(() => {});
-          }
-        } catch {
-          // PID file unreadable, continue
-        }
+      const runningPid = await daemonProcess.getPid();
+      if (runningPid) {
+        console.log(chalk.yellow(`✓ Auto-sync is already enabled (PID ${runningPid})`));
+        return;
       }
 
-      const searchPaths = options.paths || [
-        join(homedir(), 'Projects'),
-        join(homedir(), 'code'),
-        join(homedir(), 'src'),
-      ];
+      const config = await readDaemonConfig();
+      const searchPaths = options.paths || config?.searchPaths || getDefaultSearchPaths();
 
       // Save config
-      await writeFile(configFile, JSON.stringify({ searchPaths, enabled: true }, null, 2));
+      await writeDaemonConfig({ ...config, searchPaths, enabled: true });
 
       console.log(chalk.blue('Starting automatic sync...'));
       console.log(chalk.gray('Monitoring:'));
       searchPaths.forEach((p: string) => console.log(chalk.gray(`  • ${p}`)));
 
-      const daemon = new SyncDaemon(searchPaths);
-      await daemon.start();
-
-      // Save PID
-      await writeFile(pidFile, process.pid.toString());
+      const pid = await daemonProcess.start([fileURLToPath(import.meta.url), 'daemon']);
 
-      console.log(chalk.green('✓ Auto-sync enabled'));
+      console.log(chalk.green(`✓ Auto-sync enabled (PID ${pid})`));
       console.log(chalk.gray('\nConversations will now sync automatically between projects'));
+      console.log(chalk.gray(`Log: ${getDaemonLogPath()} (see \`claude-sync logs\`)`));
       console.log(chalk.gray('Use `claude-sync disable` to stop'));
+    } catch (error) {
+      console.error(
+        chalk.red('Error enabling auto-sync:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
 
-      // Keep process running
-      process.on('SIGINT', async () => {
-        console.log(chalk.yellow('\nDisabling auto-sync...'));
-        await daemon.stop();
-        await unlink(pidFile).catch(() => {});
-        await unlink(configFile).catch(() => {});
-        process.exit(0);
-      });
+/**
+ * Run the daemon in this process
+ */
+program
+  .command('daemon')
+  .description('Run the sync daemon in the foreground (enable starts it in the background)')
+  .option('--paths <paths...>', 'Paths to monitor instead of the saved ones, which are then not reloaded')
+  .option('--log-level <level>', 'Least severe level to log (debug, info, warn, error)', parseLogLevel)
+  .action(async (options) => {
+    try {
+      const daemonProcess = new DaemonProcess();
+      const runningPid = await daemonProcess.getPid();
+      if (runningPid) {
+        throw new Error(`A daemon is already running (PID ${runningPid})`);
+      }
 
-      process.on('SIGTERM', async () => {
-        await daemon.stop();
-        await unlink(pidFile).catch(() => {});
-        process.exit(0);
+      const config = await readDaemonConfig();
+      const searchPaths = options.paths || config?.searchPaths || getDefaultSearchPaths();
+      const logger = new Logger({
+        file: getDaemonLogPath(),
+        level: options.logLevel || config?.logLevel,
+        // Started by enable, the console only goes to the output file
+        echo: !process.send,
       });
+      // Paths given on the command line win over the config, so don't reload it
+      const daemon = new SyncDaemon(
+        searchPaths,
+        logger,
+        options.paths ? undefined : getDaemonConfigPath(),
+        config ?? {}
+      );
+      await daemonProcess.serve(daemon, new ControlServer(daemon), logger);
     } catch (error) {
       console.error(
-        chalk.red('Error enabling auto-sync:'),
+        chalk.red('Error running daemon:'),
         error instanceof Error ? error.message : error
       );
       process.exit(1);
@@ -104,33 +356,30 @@ program
   .description('Disable automatic conversation syncing')
   .action(async () => {
     try {
-      const pidFile = join(homedir(), '.claude-sync-daemon.pid');
-      const configFile = join(homedir(), '.claude-sync-config.json');
+      const daemonProcess = new DaemonProcess();
+
+      // Keep the search paths for the next enable
+      const config = await readDaemonConfig().catch(() => null);
+      if (config?.enabled) {
+        await writeDaemonConfig({ ...config, enabled: false });
+      }
 
-      if (!existsSync(pidFile)) {
+      if (!(await daemonProcess.getPid())) {
         console.log(chalk.yellow('Auto-sync is not enabled'));
         return;
       }
 
-      try {
-        const pid = await readFile(pidFile, 'utf-8');
-        console.log(chalk.blue('Stopping auto-sync...'));
-
-        // Send SIGTERM to daemon
-        try {
-          process.kill(parseInt(pid), 'SIGTERM');
-          console.log(chalk.green('✓ Auto-sync disabled'));
-        } catch {
-          console.log(chalk.yellow('Daemon process not found, cleaning up...'));
-        }
+      console.log(chalk.blue('Stopping auto-sync...'));
+      const result = await daemonProcess.stop();
+
+      if (result === 'killed') {
+        console.log(chalk.yellow('⚠ The daemon did not shut down in time and was killed'));
+      }
+      console.log(chalk.green('✓ Auto-sync disabled'));
 
-        // Remove PID and config files
-        await unlink(pidFile).catch(() => {});
-        await unlink(configFile).catch(() => {});
-      } catch (error) {
-        console.log(chalk.yellow('Could not stop daemon, cleaning up...'));
-        await unlink(pidFile).catch(() => {});
-        await unlink(configFile).catch(() => {});
+      if (await new SystemdService().isInstalled()) {
+        console.log(chalk.gray('The systemd service will start it again at your next login'));
+        console.log(chalk.gray('Use `claude-sync service uninstall` to remove it'));
       }
     } catch (error) {
       console.error(
@@ -141,6 +390,215 @@ program
     }
   });
 
+/**
+ * Read the daemon's config for editing, starting from the default search
+ * paths when nothing is saved yet
+ */
+async function loadDaemonConfig(): Promise<DaemonConfig> {
+  return (await readDaemonConfig()) || { searchPaths: getDefaultSearchPaths() };
+}
+
+/**
+ * Say whether a change to the daemon's config is picked up right away
+ */
+async function printReloadNote(): Promise<void> {
+  if (await new DaemonProcess().getPid()) {
+    console.log(chalk.gray('The running daemon picks up the change without restarting'));
+  } else {
+    console.log(chalk.gray('Takes effect when auto-sync is enabled'));
+  }
+}
+
+/**
+ * Manage the directories the daemon monitors
+ */
+const pathsCommand = program
+  .command('paths')
+  .description('Manage the directories auto-sync scans for projects');
+
+pathsCommand
+  .command('list')
+  .description('List the directories auto-sync scans for projects')
+  .action(async () => {
+    try {
+      const config = await readDaemonConfig();
+      const searchPaths = config?.searchPaths || getDefaultSearchPaths();
+
+      console.log(chalk.bold(config ? '\nSearch paths:\n' : '\nSearch paths (defaults):\n'));
+      for (const searchPath of searchPaths) {
+        const missing = !(await pathExists(searchPath));
+        console.log(`  • ${searchPath}` + (missing ? chalk.yellow(' (missing)') : ''));
+      }
+      console.log(chalk.gray(`\nScan depth: ${config?.scanDepth ?? DEFAULT_SCAN_DEPTH}`));
+      const exclude = config?.exclude ?? DEFAULT_SCAN_EXCLUDE;
+      console.log(chalk.gray(`Excluded: ${exclude.length > 0 ? exclude.join(', ') : 'nothing'}`));
+
+      const tracked = config?.trackedProjects || [];
+      if (tracked.length > 0) {
+        console.log(chalk.bold('\nTracked projects:\n'));
+        for (const projectRoot of tracked) {
+          const missing = !(await pathExists(projectRoot));
+          console.log(`  • ${projectRoot}` + (missing ? chalk.yellow(' (missing)') : ''));
+        }
+      }
+      console.log();
+    } catch (error) {
+      console.error(
+        chalk.red('Error listing search paths:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+pathsCommand
+  .command('add <paths...>')
+  .description('Scan more directories for projects')
+  .action(async (paths: string[]) => {
+    try {
+      const config = await loadDaemonConfig();
+      const searchPaths = config.searchPaths.map((path) => resolvePath(path));
+      const added: string[] = [];
+
+      for (const searchPath of paths.map((path) => resolvePath(path))) {
+        if (searchPaths.includes(searchPath) || added.includes(searchPath)) {
+          console.log(chalk.gray(`Already scanned: ${searchPath}`));
+          continue;
+        }
+        if (!(await pathExists(searchPath))) {
+          console.log(chalk.yellow(`⚠ ${searchPath} does not exist yet`));
+        }
+        added.push(searchPath);
+      }
+
+      if (added.length === 0) {
+        return;
+      }
+      await writeDaemonConfig({ ...config, searchPaths: [...config.searchPaths, ...added] });
+      added.forEach((p) => console.log(chalk.green(`✓ Added ${p}`)));
+      await printReloadNote();
+    } catch (error) {
+      console.error(
+        chalk.red('Error adding search paths:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+pathsCommand
+  .command('remove <paths...>')
+  .description('Stop scanning directories, and monitoring the projects in them')
+  .action(async (paths: string[]) => {
+    try {
+      const config = await loadDaemonConfig();
+      const removing = paths.map((path) => resolvePath(path));
+      for (const path of removing) {
+        if (!config.searchPaths.some((searchPath) => resolvePath(searchPath) === path)) {
+          console.log(chalk.yellow(`⚠ Not a search path: ${path}`));
+        }
+      }
+
+      const searchPaths = config.searchPaths.filter(
+        (searchPath) => !removing.includes(resolvePath(searchPath))
+      );
+      const removed = config.searchPaths.filter((searchPath) => !searchPaths.includes(searchPath));
+      if (removed.length === 0) {
+        return;
+      }
+      await writeDaemonConfig({ ...config, searchPaths });
+      removed.forEach((p) => console.log(chalk.green(`✓ Removed ${p}`)));
+      if (searchPaths.length === 0) {
+        console.log(chalk.yellow('⚠ No search paths left, auto-sync will not find any projects'));
+      }
+      await printReloadNote();
+    } catch (error) {
+      console.error(
+        chalk.red('Error removing search paths:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Monitor projects outside the search paths
+ */
+program
+  .command('track <paths...>')
+  .description('Auto-sync projects wherever they are, even outside the search paths')
+  .action(async (paths: string[]) => {
+    try {
+      const config = await loadDaemonConfig();
+      const trackedProjects = (config.trackedProjects || []).map((path) => resolvePath(path));
+      const added: string[] = [];
+
+      for (const projectRoot of paths.map((path) => resolvePath(path))) {
+        if (trackedProjects.includes(projectRoot) || added.includes(projectRoot)) {
+          console.log(chalk.gray(`Already tracked: ${projectRoot}`));
+          continue;
+        }
+        if (!(await pathExists(projectRoot))) {
+          throw new Error(`${projectRoot} does not exist`);
+        }
+        added.push(projectRoot);
+      }
+
+      if (added.length === 0) {
+        return;
+      }
+      await writeDaemonConfig({
+        ...config,
+        trackedProjects: [...(config.trackedProjects || []), ...added],
+      });
+      added.forEach((p) => console.log(chalk.green(`✓ Tracking ${p}`)));
+      await printReloadNote();
+    } catch (error) {
+      console.error(
+        chalk.red('Error tracking projects:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Stop monitoring tracked projects
+ */
+program
+  .command('untrack <paths...>')
+  .description('Stop auto-syncing projects added with track')
+  .action(async (paths: string[]) => {
+    try {
+      const config = await loadDaemonConfig();
+      const trackedProjects = config.trackedProjects || [];
+      const removing = paths.map((path) => resolvePath(path));
+      for (const path of removing) {
+        if (!trackedProjects.some((projectRoot) => resolvePath(projectRoot) === path)) {
+          console.log(chalk.yellow(`⚠ Not tracked: ${path}`));
+        }
+      }
+
+      const kept = trackedProjects.filter((projectRoot) => !removing.includes(resolvePath(projectRoot)));
+      const removed = trackedProjects.filter((projectRoot) => !kept.includes(projectRoot));
+      if (removed.length === 0) {
+        return;
+      }
+      await writeDaemonConfig({ ...config, trackedProjects: kept });
+      removed.forEach((p) => console.log(chalk.green(`✓ No longer tracking ${p}`)));
+      if (removed.some((p) => config.searchPaths.some((searchPath) => isWithin(p, searchPath)))) {
+        console.log(chalk.gray('Projects in a search path are still auto-synced'));
+      }
+      await printReloadNote();
+    } catch (error) {
+      console.error(
+        chalk.red('Error untracking projects:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
 /**
  * Add .claude/history to .gitignore
  */
@@ -206,48 +664,1049 @@ program
   });
 
 /**
- * Show status
+ * Sync the current project once
  */
 program
-  .command('status')
-  .description('Show sync status')
-  .action(async () => {
+  .command('sync')
+  .description('Sync conversations for the current project now')
+  .option('--to-local', 'Only sync from global storage into the project')
+  .option('--to-global', 'Only sync from the project into global storage')
+  .option('--both', 'Sync in both directions (default)')
+  .option('--dry-run', 'Show what would be synced without changing anything')
+  .option('--daemon', 'Have the running daemon sync the project')
+  .action(async (options) => {
     try {
-      const pidFile = join(homedir(), '.claude-sync-daemon.pid');
-      const configFile = join(homedir(), '.claude-sync-config.json');
+      if (options.daemon && options.dryRun) {
+        throw new Error('--dry-run cannot be used with --daemon');
+      }
 
-      console.log(chalk.bold('\nClaude Sync Status\n'));
+      const project = await projectDetector.detectProject();
+      const config = await configManager.getProjectConfig(project.root);
+      if (!config.enabled) {
+        console.log(chalk.yellow('Sync is disabled for this project'));
+        console.log(chalk.gray('Set `enabled` to true in .claude/sync.json to sync it'));
+        return;
+      }
 
-      // Check if enabled
-      if (existsSync(pidFile)) {
-        try {
-          const pid = await readFile(pidFile, 'utf-8');
-          try {
-            process.kill(parseInt(pid), 0);
-            console.log(chalk.green('✓ Auto-sync: Enabled'));
-
-            // Show config
-            if (existsSync(configFile)) {
-              const config = JSON.parse(await readFile(configFile, 'utf-8'));
-              console.log(chalk.gray('\nMonitoring:'));
-              config.searchPaths?.forEach((p: string) => console.log(chalk.gray(`  • ${p}`)));
-            }
-          } catch {
-            console.log(chalk.yellow('⚠ Auto-sync: Disabled (stale PID file)'));
-          }
-        } catch {
-          console.log(chalk.yellow('⚠ Auto-sync: Disabled'));
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+
+      let requested: SyncDirection = 'both';
+      if (options.toLocal && !options.toGlobal && !options.both) {
+        requested = 'to-local';
+      } else if (options.toGlobal && !options.toLocal && !options.both) {
+        requested = 'to-global';
+      }
+      const direction = restrictDirection(requested, config.direction);
+      if (!direction) {
+        console.log(chalk.yellow(`This project only syncs ${config.direction} (see .claude/sync.json)`));
+        return;
+      }
+
+      if (options.daemon) {
+        const result = await callDaemon<Omit<SyncResult, 'errors'> & { errors: string[] }>(
+          'syncNow',
+          { project: project.root, direction }
+        );
+        result.errors.forEach((message) => console.log(chalk.red(`  ✗ ${message}`)));
+        const summary =
+          `Daemon synced ${project.root} (${direction}): ${result.filesProcessed} file(s) updated ` +
+          `(${result.linesCopied} lines copied, ${result.linesMerged} merged)`;
+        if (result.success) {
+          console.log(chalk.green(`✓ ${summary}`));
+        } else {
+          console.log(chalk.yellow(`⚠ ${summary}`));
+          process.exit(1);
         }
+        return;
+      }
+
+      const plan = await storageManager.planSync(project.root, direction);
+
+      console.log(
+        chalk.blue(`${options.dryRun ? 'Sync plan' : 'Syncing'} (${direction}):`)
+      );
+      console.log(chalk.gray(`Project: ${project.root}`));
+      printSyncPlan(plan);
+
+      if (options.dryRun) {
+        console.log(chalk.gray('\nDry run: nothing was changed'));
+        return;
+      }
+
+      const result = await storageManager.applySyncPlan(plan);
+
+      result.errors.forEach((error) => console.log(chalk.red(`  ✗ ${error.message}`)));
+      const summary =
+        `${result.filesProcessed} file(s) updated, ${result.filesDeleted} deleted ` +
+        `(${result.linesCopied} lines copied, ${result.linesMerged} merged, ` +
+        `${result.bytesTransferred} bytes written)`;
+
+      if (result.success) {
+        console.log(chalk.green(`✓ ${summary}`));
       } else {
-        console.log(chalk.gray('○ Auto-sync: Disabled'));
-        console.log(chalk.gray('\nRun `claude-sync enable` to start auto-syncing'));
+        console.log(chalk.yellow(`⚠ ${summary}`));
+        process.exit(1);
       }
+    } catch (error) {
+      console.error(
+        chalk.red('Error syncing:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
 
-      // Check current project
-      try {
-        const project = await projectDetector.detectProject();
-        console.log(chalk.gray(`\nCurrent project: ${project.root}`));
-        console.log(chalk.gray(`Local storage: ${project.hasLocalStorage ? 'Yes' : 'No'}`));
+/**
+ * Print the entries of a session that differ between local and global storage
+ */
+function printSessionDiff(diff: SessionDiff): void {
+  const printLine = (label: string, { line, text }: SessionLine) =>
+    console.log(`  ${chalk.gray(`${label}${line}:`)} ${text}`);
+
+  if (diff.localOnly.length > 0) {
+    console.log(chalk.green(`\nOnly in local storage (${diff.localOnly.length}):`));
+    diff.localOnly.forEach((line) => printLine('line ', line));
+  }
+  if (diff.globalOnly.length > 0) {
+    console.log(chalk.cyan(`\nOnly in global storage (${diff.globalOnly.length}):`));
+    diff.globalOnly.forEach((line) => printLine('line ', line));
+  }
+  if (diff.changed.length > 0) {
+    console.log(chalk.yellow(`\nDifferent on each side (${diff.changed.length}):`));
+    for (const { local, global } of diff.changed) {
+      printLine('local line ', local);
+      printLine('global line ', global);
+    }
+  }
+  console.log(chalk.gray(`\n${diff.shared} entry(ies) identical on both sides`));
+}
+
+/**
+ * Show how local and global storage differ
+ */
+program
+  .command('diff')
+  .description("Show how the project's sessions differ between local and global storage")
+  .argument('[session-id]', 'Show the differing entries of one session')
+  .option('--json', 'Print the differences as JSON')
+  .action(async (prefix: string | undefined, options) => {
+    try {
+      const project = await projectDetector.detectProject();
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+      const locations = await storageManager.getStorageLocations(project.root);
+      const paths = { localPath: locations.local!.path, globalPath: locations.global.path };
+
+      if (prefix) {
+        const sessionId = await storageManager.resolveSessionId(project.root, prefix);
+        const diff = await storageManager.diffSession(project.root, sessionId);
+        if (options.json) {
+          console.log(JSON.stringify({ ...paths, ...diff }, null, 2));
+          return;
+        }
+        console.log(chalk.bold(`Session ${sessionId}: ${diff.state}`));
+        console.log(chalk.gray(`Local:  ${paths.localPath}/${sessionId}.jsonl`));
+        console.log(chalk.gray(`Global: ${paths.globalPath}/${sessionId}.jsonl`));
+        printSessionDiff(diff);
+        return;
+      }
+
+      const diffs = await storageManager.diffProject(project.root);
+      if (options.json) {
+        const sessions = diffs.map((diff) => ({
+          sessionId: diff.sessionId,
+          state: diff.state,
+          localOnly: diff.localOnly.length,
+          globalOnly: diff.globalOnly.length,
+          changed: diff.changed.length,
+          shared: diff.shared,
+        }));
+        console.log(JSON.stringify({ ...paths, sessions }, null, 2));
+        return;
+      }
+
+      console.log(chalk.gray(`Local:  ${paths.localPath}`));
+      console.log(chalk.gray(`Global: ${paths.globalPath}`));
+      const differing = diffs.filter((diff) => diff.state !== 'identical');
+      const labels = {
+        'local-only': chalk.green('local only '),
+        'global-only': chalk.cyan('global only'),
+        different: chalk.yellow('different  '),
+        identical: '',
+      };
+      if (differing.length > 0) {
+        console.log();
+      }
+      for (const diff of differing) {
+        const details =
+          diff.state === 'different'
+            ? chalk.gray(
+                `  ${diff.localOnly.length} local only, ${diff.globalOnly.length} global only, ` +
+                  `${diff.changed.length} changed`
+              )
+            : '';
+        console.log(`  ${labels[diff.state]}  ${diff.sessionId}${details}`);
+      }
+      console.log(
+        chalk.gray(
+          `\n${diffs.length - differing.length} of ${diffs.length} session(s) identical` +
+            (differing.length > 0 ? ': run `claude-sync diff <session-id>` for details' : '')
+        )
+      );
+    } catch (error) {
+      console.error(
+        chalk.red('Error comparing storage:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Delete a session everywhere
+ */
+program
+  .command('rm')
+  .description('Delete a conversation from both local and global storage')
+  .argument('<session-id>', 'Session ID of the conversation to delete')
+  .action(async (sessionId: string) => {
+    try {
+      const project = await projectDetector.detectProject();
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+
+      const removed = await storageManager.deleteSession(project.root, sessionId);
+
+      if (removed.length === 0) {
+        console.log(chalk.yellow(`No conversation found for ${sessionId}`));
+        return;
+      }
+
+      removed.forEach((p) => console.log(chalk.gray(`  • ${p}`)));
+      console.log(chalk.green(`✓ Deleted conversation ${sessionId}`));
+    } catch (error) {
+      console.error(
+        chalk.red('Error deleting conversation:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * List the current project's conversations
+ */
+program
+  .command('list')
+  .description('List the conversations of the current project')
+  .option('--sort <field>', 'Sort by updated, created, size, messages or title', parseSortField, 'updated')
+  .option('--reverse', 'Reverse the sort order')
+  .option('--since <date>', 'Only conversations updated since this date', parseDate)
+  .option('--until <date>', 'Only conversations updated until this date', parseDate)
+  .option('--branch <name>', 'Only conversations on this git branch')
+  .option('--min-size <kb>', 'Only conversations of at least this many kilobytes', parseKilobytes)
+  .option('--max-size <kb>', 'Only conversations of at most this many kilobytes', parseKilobytes)
+  .option('--title <text>', 'Only conversations whose title contains this text')
+  .action(async (options) => {
+    try {
+      const project = await projectDetector.detectProject();
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+      const locations = await storageManager.getStorageLocations(project.root);
+
+      const conversations = sortConversations(
+        filterConversations(await storageManager.listConversations(project.root), {
+          since: options.since,
+          until: options.until,
+          branch: options.branch,
+          minSize: options.minSize,
+          maxSize: options.maxSize,
+          title: options.title,
+        }),
+        options.sort,
+        options.reverse
+      );
+
+      console.log(chalk.blue(`Conversations (${conversations.length}):`));
+      console.log(chalk.gray(`Project: ${project.root}`));
+      console.log(chalk.gray(`Local:   ${locations.local?.path}`));
+      console.log(chalk.gray(`Global:  ${locations.global.path}`));
+      conversations.forEach(printConversation);
+      if (conversations.length === 0) {
+        console.log(chalk.gray('  No conversations found'));
+      }
+    } catch (error) {
+      console.error(
+        chalk.red('Error listing conversations:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Print a conversation's transcript
+ */
+program
+  .command('show')
+  .description('Show the transcript of a conversation')
+  .argument('<session-id>', 'Session ID of the conversation, or its first characters')
+  .option('--expand', 'Show the input and output of every tool call')
+  .action(async (prefix: string, options) => {
+    try {
+      const project = await projectDetector.detectProject();
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+      const sessionId = await storageManager.resolveSessionId(project.root, prefix);
+      const conversation = (await storageManager.listConversations(project.root)).find(
+        (c) => c.id === sessionId
+      );
+      const locations = await storageManager.getStorageLocations(project.root);
+
+      const entries: ConversationEntry[] = [];
+      for await (const entry of storageManager.readConversation(project.root, sessionId)) {
+        entries.push(entry);
+      }
+
+      if (conversation) {
+        console.log(chalk.bold(getDisplayTitle(conversation) || '(untitled)'));
+        console.log(chalk.gray(`ID:       ${conversation.id}`));
+        console.log(
+          chalk.gray(
+            `Updated:  ${formatTimestamp(conversation.updatedAt)} ` +
+              `(started ${formatTimestamp(conversation.createdAt)})`
+          )
+        );
+        console.log(chalk.gray(`Messages: ${conversation.messageCount}`));
+        if (conversation.gitBranch) {
+          console.log(chalk.gray(`Branch:   ${conversation.gitBranch}`));
+        }
+        if (conversation.models.length > 0) {
+          console.log(chalk.gray(`Models:   ${conversation.models.join(', ')}`));
+        }
+        const paths = {
+          local: locations.local?.path,
+          global: locations.global.path,
+        };
+        for (const side of conversation.sides) {
+          console.log(chalk.gray(`Stored:   ${paths[side]}/${sessionId}.jsonl`));
+        }
+      }
+
+      console.log('\n' + formatTranscript(entries, { expandTools: options.expand }));
+      if (!options.expand && entries.some((entry) => entry.type === 'tool_use')) {
+        console.log(chalk.gray('\nTool calls are collapsed: use --expand to show them'));
+      }
+    } catch (error) {
+      console.error(
+        chalk.red('Error showing conversation:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Export conversations as transcripts
+ */
+program
+  .command('export')
+  .description('Export conversations as Markdown, HTML or JSON transcripts')
+  .argument('[session-id]', 'Session ID of the conversation, or its first characters')
+  .option('--all', "Export all of the project's conversations")
+  .option('-f, --format <format>', 'Format: md, html or json', parseExportFormat, 'md')
+  .option('-o, --output <dir>', 'Directory to write to (default: .claude/exports)')
+  .action(async (prefix: string | undefined, options) => {
+    try {
+      if (!prefix === !options.all) {
+        throw new Error('Give either a session ID or --all');
+      }
+      const project = await projectDetector.detectProject();
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+      let conversations = await storageManager.listConversations(project.root);
+      if (prefix) {
+        const sessionId = await storageManager.resolveSessionId(project.root, prefix);
+        conversations = conversations.filter((c) => c.id === sessionId);
+        if (conversations.length === 0) {
+          throw new Error(`Could not read conversation ${sessionId}`);
+        }
+      }
+
+      const outputDir = options.output ? resolvePath(options.output) : getExportsPath(project.root);
+      await mkdir(outputDir, { recursive: true });
+      for (const conversation of conversations) {
+        const entries: ConversationEntry[] = [];
+        for await (const entry of storageManager.readConversation(project.root, conversation.id)) {
+          entries.push(entry);
+        }
+        const file = join(outputDir, `${conversation.id}.${options.format}`);
+        await writeFile(file, renderExport(options.format, conversation, entries));
+        console.log(chalk.gray(`  ${file}`));
+      }
+      console.log(chalk.green(`✓ Exported ${conversations.length} conversation(s) to ${outputDir}`));
+    } catch (error) {
+      console.error(
+        chalk.red('Error exporting:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Pack a project's history into a bundle
+ */
+program
+  .command('pack')
+  .description("Pack the project's history into a bundle to hand over without the repository")
+  .option('--from <storage>', 'Storage to pack: local or global', 'local')
+  .option('-o, --output <file>', 'Bundle file to write (default: <project>-history.tgz)')
+  .action(async (options) => {
+    try {
+      if (options.from !== 'local' && options.from !== 'global') {
+        throw new Error('--from must be local or global');
+      }
+      const project = await projectDetector.detectProject();
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+      const bundle = await storageManager.createBundle(project.root, options.from);
+      const output = resolvePath(options.output || `${basename(project.root)}-history.tgz`);
+      await writeBundle(output, bundle);
+
+      const size = bundle.manifest.files.reduce((total, file) => total + file.size, 0);
+      const sessions = bundle.manifest.files.filter((file) => !file.path.includes('/'));
+      console.log(
+        chalk.green(
+          `✓ Packed ${sessions.length} session(s), ${bundle.manifest.files.length} file(s) ` +
+            `(${formatSize(size)}) from ${options.from} storage`
+        )
+      );
+      console.log(chalk.gray(`  ${output}`));
+    } catch (error) {
+      console.error(
+        chalk.red('Error packing history:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Import a bundle into the current project
+ */
+program
+  .command('unpack')
+  .description('Import a history bundle into the current project, merging existing sessions')
+  .argument('<bundle>', 'Bundle file created by pack')
+  .option('--no-sync', "Only import into .claude/history, without syncing into Claude Code's storage")
+  .action(async (file: string, options) => {
+    try {
+      const project = await projectDetector.detectProject();
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+      const bundle = await readBundle(resolvePath(file));
+      console.log(
+        chalk.blue(
+          `Importing ${bundle.manifest.files.length} file(s) packed from ${bundle.manifest.projectRoot} ` +
+            `(claude-sync ${bundle.manifest.toolVersion})`
+        )
+      );
+
+      const result = await storageManager.importBundle(project.root, bundle);
+      console.log(
+        chalk.green(
+          `✓ ${result.added.length} added, ${result.merged.length} merged, ` +
+            `${result.unchanged.length} unchanged`
+        )
+      );
+      result.conflicts.forEach((conflict) =>
+        console.log(chalk.yellow(`  ⚠ ${conflict} differs and can't be merged: kept the project's copy`))
+      );
+      if (result.excluded.length > 0) {
+        console.log(chalk.gray(`  ${result.excluded.length} file(s) excluded by .claude/sync.json`));
+      }
+
+      const config = await configManager.getProjectConfig(project.root);
+      if (!options.sync || !config.enabled || !restrictDirection('to-global', config.direction)) {
+        console.log(chalk.gray("Run `claude-sync sync` to bring them into Claude Code's storage"));
+        return;
+      }
+      const sync = await storageManager.applySyncPlan(
+        await storageManager.planSync(project.root, 'to-global')
+      );
+      sync.errors.forEach((error) => console.log(chalk.red(`  ✗ ${error.message}`)));
+      if (!sync.success) {
+        process.exit(1);
+      }
+      console.log(chalk.green(`✓ Synced ${sync.filesProcessed} file(s) into Claude Code's storage`));
+    } catch (error) {
+      console.error(
+        chalk.red('Error unpacking history:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Search conversation text
+ */
+program
+  .command('search')
+  .description('Search the text of conversations')
+  .argument('<query>', 'Text to search for, or a regular expression with --regex')
+  .option('-e, --regex', 'Treat the query as a regular expression')
+  .option('-s, --case-sensitive', 'Match case')
+  .option('--role <role>', 'Only search text by user, assistant or tool (repeatable)', parseRole)
+  .option('--all-projects', "Search every project in Claude Code's storage")
+  .option('-C, --context <lines>', 'Lines to show around each match', parseCount, 1)
+  .option('--limit <count>', 'Show at most this many matches', parseCount, 50)
+  .action(async (pattern: string, options) => {
+    try {
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+      let sources;
+      if (options.allProjects) {
+        sources = await storageManager.getAllConversationSources();
+      } else {
+        const project = await projectDetector.detectProject();
+        sources = await storageManager.getConversationSources(project.root);
+      }
+
+      const query: SearchQuery = {
+        pattern,
+        regex: options.regex,
+        caseSensitive: options.caseSensitive,
+        roles: options.role,
+        context: options.context,
+        limit: options.limit,
+      };
+      const searcher = new ConversationSearcher(new SearchIndex());
+      const matches = await searcher.search(sources, query);
+
+      if (matches.length === 0) {
+        console.log(chalk.yellow(`No matches for ${pattern}`));
+        return;
+      }
+      matches.forEach((match, i) => {
+        if (i > 0) console.log();
+        printSearchMatch(match, query, options.allProjects);
+      });
+      console.log(
+        chalk.gray(
+          `\n${matches.length} match(es)` +
+            (matches.length === options.limit ? ` (limited to ${options.limit}, see --limit)` : '')
+        )
+      );
+    } catch (error) {
+      console.error(
+        chalk.red('Error searching:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Archive sessions beyond the retention limits
+ */
+program
+  .command('prune')
+  .description('Archive conversations beyond the retention limits')
+  .option('--dry-run', 'Show what would be archived without changing anything')
+  .option('--max-age <days>', 'Archive sessions not updated for this many days', parseAmount)
+  .option('--max-sessions <count>', 'Keep at most this many sessions', parseCount)
+  .option('--max-size <mb>', 'Keep at most this many megabytes of history', parseAmount)
+  .option('--keep-commits <count>', 'Keep sessions changed in the last N commits', parseCount)
+  .action(async (options) => {
+    try {
+      const project = await projectDetector.detectProject();
+      const policy: RetentionPolicy = {
+        ...(await configManager.getProjectConfig(project.root)).retention,
+      };
+      if (options.maxAge !== undefined) policy.maxAgeDays = options.maxAge;
+      if (options.maxSessions !== undefined) policy.maxSessions = options.maxSessions;
+      if (options.maxSize !== undefined) policy.maxTotalSizeMB = options.maxSize;
+      if (options.keepCommits !== undefined) policy.keepRecentCommits = options.keepCommits;
+
+      if (
+        policy.maxAgeDays === undefined &&
+        policy.maxSessions === undefined &&
+        policy.maxTotalSizeMB === undefined
+      ) {
+        console.log(chalk.yellow('No retention limits configured'));
+        console.log(
+          chalk.gray('Set `retention` in the config or .claude/sync.json, or pass --max-age, --max-sessions or --max-size')
+        );
+        return;
+      }
+
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+      const pruner = new HistoryPruner(storageManager);
+      const plan = await pruner.planPrune(project.root, policy);
+
+      console.log(chalk.blue(`${options.dryRun ? 'Prune plan' : 'Pruning'}:`));
+      console.log(chalk.gray(`Project: ${project.root}`));
+      for (const session of plan.archive) {
+        console.log(
+          `  ${chalk.yellow('archive')} ${session.id} ${chalk.gray(`(${session.reason})`)}`
+        );
+      }
+      if (plan.archive.length === 0) {
+        console.log(chalk.gray('  Nothing to archive'));
+      }
+      console.log(chalk.gray(`  ${plan.kept.length} session(s) kept`));
+
+      if (options.dryRun || plan.archive.length === 0) {
+        if (options.dryRun) {
+          console.log(chalk.gray('\nDry run: nothing was changed'));
+        }
+        return;
+      }
+
+      const result = await pruner.prune(plan);
+      result.errors.forEach((error) => console.log(chalk.red(`  ✗ ${error.message}`)));
+      const summary = `${result.archived.length} session(s) archived to ${storageManager.getArchiveDir(project.root)}`;
+
+      if (result.success) {
+        console.log(chalk.green(`✓ ${summary}`));
+      } else {
+        console.log(chalk.yellow(`⚠ ${summary}`));
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(
+        chalk.red('Error pruning:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Get the key source of a key command from its options
+ * Passphrases are read from CLAUDE_SYNC_PASSPHRASE so they stay out of the
+ * shell history
+ */
+function getKeySource(options: { passphrase?: boolean; keyFile?: string }): KeySource {
+  if (options.passphrase) {
+    const passphrase = process.env.CLAUDE_SYNC_PASSPHRASE;
+    if (!passphrase) {
+      throw new Error('Set CLAUDE_SYNC_PASSPHRASE to the passphrase to use');
+    }
+    return { passphrase };
+  }
+  return { keyFile: options.keyFile };
+}
+
+/**
+ * Manage the key local history is encrypted with
+ */
+const keyCommand = program
+  .command('key')
+  .description('Manage encryption of local conversation history');
+
+keyCommand
+  .command('init')
+  .description('Encrypt local history, or add the key of an encrypted project')
+  .option('--passphrase', 'Derive the key from CLAUDE_SYNC_PASSPHRASE')
+  .option('--key-file <path>', 'Use this key file, creating it if missing')
+  .action(async (options) => {
+    try {
+      const project = await projectDetector.detectProject();
+      const keyManager = new KeyManager();
+      const result = await keyManager.initKey(project.root, getKeySource(options));
+
+      if (!result.created) {
+        console.log(chalk.green(`✓ Added key ${result.keyId} for this project`));
+        return;
+      }
+
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+      const count = await storageManager.encryptLocalHistory(project.root);
+      console.log(chalk.green(`✓ Local history encrypted with key ${result.keyId}`));
+      console.log(chalk.gray(`  ${count} file(s) encrypted`));
+      if (options.keyFile) {
+        console.log(chalk.gray(`  Share ${options.keyFile} with teammates who need access`));
+      }
+    } catch (error) {
+      console.error(
+        chalk.red('Error initializing key:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+keyCommand
+  .command('rotate')
+  .description('Re-encrypt local history with a new key')
+  .option('--passphrase', 'Derive the new key from CLAUDE_SYNC_PASSPHRASE')
+  .option('--key-file <path>', 'Use this key file, creating it if missing')
+  .action(async (options) => {
+    try {
+      const project = await projectDetector.detectProject();
+      const keyManager = new KeyManager();
+      const result = await keyManager.rotateKey(project.root, getKeySource(options));
+
+      const storageManager = new StorageManager(
+        configManager.getGlobalStoragePath(),
+        configManager.getStorageManagerOptions()
+      );
+      const count = await storageManager.encryptLocalHistory(project.root);
+      console.log(chalk.green(`✓ Rotated to key ${result.keyId}`));
+      console.log(chalk.gray(`  ${count} file(s) re-encrypted`));
+    } catch (error) {
+      console.error(
+        chalk.red('Error rotating key:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+keyCommand
+  .command('export')
+  .description("Print the project's key, for sharing with teammates")
+  .option('-o, --output <file>', 'Write the key to a file instead')
+  .action(async (options) => {
+    try {
+      const project = await projectDetector.detectProject();
+      const key = await new KeyManager().exportKey(project.root);
+
+      if (options.output) {
+        await writeFile(options.output, key + '\n', { mode: 0o600 });
+        console.log(chalk.green(`✓ Key written to ${options.output}`));
+      } else {
+        console.log(key);
+      }
+    } catch (error) {
+      console.error(
+        chalk.red('Error exporting key:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Describe the state of the systemd service
+ */
+function describeService(status: ServiceStatus): string {
+  if (!status.installed) {
+    return 'not installed';
+  }
+  const states = [status.activeState, status.unitFileState].filter(Boolean);
+  return states.length > 0 ? `installed (${states.join(', ')})` : 'installed';
+}
+
+/**
+ * Run the daemon as a systemd user service
+ */
+const serviceCommand = program
+  .command('service')
+  .description('Run the sync daemon as a systemd user service (Linux)');
+
+serviceCommand
+  .command('install')
+  .description('Install and start a systemd user service running the daemon')
+  .option('--paths <paths...>', 'Paths to monitor (default: the paths saved by enable)')
+  .action(async (options) => {
+    try {
+      const service = new SystemdService();
+      const config = await readDaemonConfig();
+      const searchPaths = options.paths || config?.searchPaths || getDefaultSearchPaths();
+
+      // A daemon started by enable would keep the service's daemon from starting
+      if ((await service.getStatus()).activeState !== 'active') {
+        const result = await new DaemonProcess().stop();
+        if (result !== 'not-running') {
+          console.log(chalk.gray('Stopped the daemon started by `claude-sync enable`'));
+        }
+      }
+
+      // The service reads its paths from the config, so `paths add` reaches it
+      await writeDaemonConfig({ ...config, searchPaths, enabled: true });
+      await service.install([process.execPath, fileURLToPath(import.meta.url), 'daemon']);
+
+      console.log(chalk.green('✓ Service installed and started'));
+      console.log(chalk.gray('Monitoring:'));
+      searchPaths.forEach((p: string) => console.log(chalk.gray(`  • ${p}`)));
+      console.log(chalk.gray(`Unit: ${service.getUnitPath()}`));
+      console.log(chalk.gray('Logs: journalctl --user -u claude-sync'));
+    } catch (error) {
+      console.error(
+        chalk.red('Error installing service:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+serviceCommand
+  .command('uninstall')
+  .description('Stop and remove the systemd user service')
+  .action(async () => {
+    try {
+      if (await new SystemdService().uninstall()) {
+        console.log(chalk.green('✓ Service stopped and removed'));
+      } else {
+        console.log(chalk.yellow('The service is not installed'));
+      }
+    } catch (error) {
+      console.error(
+        chalk.red('Error uninstalling service:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+serviceCommand
+  .command('status')
+  .description('Show whether the systemd user service is installed and running')
+  .action(async () => {
+    try {
+      const status = await new SystemdService().getStatus();
+      console.log(`Service: ${describeService(status)}`);
+      console.log(chalk.gray(`Unit: ${status.unitPath}`));
+    } catch (error) {
+      console.error(
+        chalk.red('Error checking service:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Print what the running daemon reports about itself
+ */
+function printDaemonStatus(status: DaemonStatus): void {
+  if (status.paused) {
+    console.log(chalk.yellow(`⏸ Auto-sync: Paused (PID ${status.pid})`));
+    console.log(chalk.gray('Run `claude-sync resume` to sync on changes again'));
+  } else {
+    console.log(chalk.green(`✓ Auto-sync: Enabled (PID ${status.pid})`));
+  }
+  if (status.startedAt) {
+    console.log(chalk.gray(`Running since ${formatTimestamp(status.startedAt)}`));
+  }
+
+  console.log(chalk.gray('\nMonitoring:'));
+  status.searchPaths.forEach((p) => console.log(chalk.gray(`  • ${p}`)));
+  status.trackedProjects.forEach((p) => console.log(chalk.gray(`  • ${p} (tracked)`)));
+
+  console.log(chalk.gray(`\nProjects (${status.projectCount}):`));
+  for (const project of status.projectDetails) {
+    const synced = project.lastSyncedAt
+      ? `last synced ${formatTimestamp(project.lastSyncedAt)}`
+      : 'not synced yet';
+    console.log(`  ${project.root} ${chalk.gray(synced)}`);
+    if (project.lastError) {
+      console.log(chalk.red(`    ✗ ${project.lastError}`));
+    }
+  }
+
+  if (status.recentErrors.length > 0) {
+    console.log(chalk.gray(`\nRecent errors (${status.recentErrors.length}):`));
+    for (const error of status.recentErrors) {
+      const where = error.project ? ` ${error.project}:` : '';
+      console.log(chalk.red(`  ${formatTimestamp(error.time)}${where} ${error.message}`));
+    }
+  }
+}
+
+/**
+ * Pause syncing in the running daemon
+ */
+program
+  .command('pause')
+  .description('Stop the running daemon from syncing on changes until resumed')
+  .action(async () => {
+    try {
+      await callDaemon('pause');
+      console.log(chalk.green('✓ Auto-sync paused'));
+      console.log(chalk.gray('Use `claude-sync resume` to sync on changes again'));
+    } catch (error) {
+      console.error(
+        chalk.red('Error pausing auto-sync:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Resume syncing in the running daemon
+ */
+program
+  .command('resume')
+  .description('Let the running daemon sync on changes again, catching up on what changed')
+  .action(async () => {
+    try {
+      await callDaemon('resume');
+      console.log(chalk.green('✓ Auto-sync resumed'));
+    } catch (error) {
+      console.error(
+        chalk.red('Error resuming auto-sync:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Look for new projects in the running daemon
+ */
+program
+  .command('rescan')
+  .description('Have the running daemon look for new projects in its search paths')
+  .action(async () => {
+    try {
+      const { added } = await callDaemon<{ added: string[] }>('rescan');
+      if (added.length === 0) {
+        console.log(chalk.gray('No new projects found'));
+        return;
+      }
+      console.log(chalk.green(`✓ Now monitoring ${added.length} more project(s):`));
+      added.forEach((root) => console.log(chalk.gray(`  • ${root}`)));
+    } catch (error) {
+      console.error(
+        chalk.red('Error rescanning:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Read the daemon's log
+ */
+program
+  .command('logs')
+  .description("Show the daemon's log")
+  .option('-f, --follow', 'Keep printing records as they are logged')
+  .option('--level <level>', 'Only show records at least this severe (debug, info, warn, error)', parseLogLevel)
+  .option('--project <path>', 'Only show records of this project')
+  .option('-n, --lines <count>', 'Show this many of the latest records', parseCount, 50)
+  .option('--json', 'Print the records as JSON lines')
+  .action(async (options) => {
+    try {
+      const logFile = getDaemonLogPath();
+      const filter: LogFilter = {
+        level: options.level,
+        project: options.project ? resolvePath(options.project) : undefined,
+      };
+      const colors = {
+        debug: chalk.gray,
+        info: (text: string) => text,
+        warn: chalk.yellow,
+        error: chalk.red,
+      };
+      const print = (record: LogRecord) =>
+        console.log(
+          options.json ? JSON.stringify(record) : colors[record.level](formatLogRecord(record))
+        );
+
+      const records = await readLogRecords(logFile, DEFAULT_LOG_FILES, filter);
+      if (records.length === 0 && !options.follow) {
+        console.log(chalk.gray(`No log records in ${logFile}`));
+        return;
+      }
+      records.slice(Math.max(records.length - options.lines, 0)).forEach(print);
+
+      if (options.follow) {
+        followLog(logFile, (text) => parseLogRecords(text, filter).forEach(print));
+      }
+    } catch (error) {
+      console.error(
+        chalk.red('Error reading logs:'),
+        error instanceof Error ? error.message : error
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Show status
+ */
+program
+  .command('status')
+  .description('Show sync status')
+  .action(async () => {
+    try {
+      const daemonProcess = new DaemonProcess();
+
+      console.log(chalk.bold('\nClaude Sync Status\n'));
+
+      // Check if enabled
+      const pid = await daemonProcess.getPid();
+      if (pid) {
+        // Ask the daemon what it is doing, or fall back to the saved config
+        const daemonStatus = await callDaemon<DaemonStatus>('getStatus', {}, { timeoutMs: 5000 }).catch(
+          () => null
+        );
+        if (daemonStatus) {
+          printDaemonStatus(daemonStatus);
+        } else {
+          console.log(chalk.green(`✓ Auto-sync: Enabled (PID ${pid})`));
+          const searchPaths = await readSearchPaths();
+          if (searchPaths) {
+            console.log(chalk.gray('\nMonitoring:'));
+            searchPaths.forEach((p: string) => console.log(chalk.gray(`  • ${p}`)));
+          }
+          console.log(chalk.yellow('⚠ The daemon is not answering on its control socket'));
+        }
+        console.log(chalk.gray(`Log: ${getDaemonLogPath()}`));
+      } else {
+        console.log(chalk.gray('○ Auto-sync: Disabled'));
+        console.log(chalk.gray('\nRun `claude-sync enable` to start auto-syncing'));
+      }
+
+      if (process.platform === 'linux') {
+        const serviceStatus = await new SystemdService().getStatus();
+        console.log(chalk.gray(`Service: ${describeService(serviceStatus)}`));
+      }
+
+      // Check current project
+      try {
+        const project = await projectDetector.detectProject();
+        console.log(chalk.gray(`\nCurrent project: ${project.root}`));
+        console.log(chalk.gray(`Local storage: ${project.hasLocalStorage ? 'Yes' : 'No'}`));
+
+        const config = await configManager.getProjectConfig(project.root);
+        if (!config.enabled) {
+          console.log(chalk.gray('Sync: Disabled for this project'));
+        } else if (config.direction !== 'both') {
+          console.log(chalk.gray(`Sync: ${config.direction} only`));
+        }
 
         if (project.isGitRepo) {
           // Check gitignore status
@@ -1,13 +1,47 @@
 import Conf from 'conf';
-import type { LocalStorageConfig, StorageMode } from '../types/index.js';
+import type {
+  LocalStorageConfig,
+  ProjectConfig,
+  RedactionRuleConfig,
+  RetentionPolicy,
+  StorageManagerOptions,
+  StorageMode,
+} from '../types/index.js';
 import { getGlobalStoragePath } from '../utils/paths.js';
+import { compileRedactionRules } from '../utils/redact.js';
+import {
+  loadProjectConfig,
+  mergeRedactionRules,
+} from '../utils/project-config.js';
 
 const DEFAULT_CONFIG: LocalStorageConfig = {
   mode: 'local',
   globalStoragePath: getGlobalStoragePath(),
   autoSync: true,
   autoGitignore: true,
-  ignorePatterns: ['/.claude/history/', '/.claude/*.log', '/.claude/cache/'],
+  ignorePatterns: [
+    '/.claude/history/',
+    '/.claude/*.log',
+    '/.claude/cache/',
+    '/.claude/exports/',
+  ],
+  tombstoneGraceDays: 30,
+  redactSecrets: true,
+  redactionRules: [],
+  retention: {},
+  projectRetention: {},
+  autoPrune: false,
+};
+
+const RETENTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    maxAgeDays: { type: 'number', minimum: 0 },
+    maxSessions: { type: 'integer', minimum: 0 },
+    maxTotalSizeMB: { type: 'number', minimum: 0 },
+    keepRecentCommits: { type: 'integer', minimum: 0 },
+  },
+  additionalProperties: false,
 };
 
 /**
@@ -43,7 +77,47 @@ export class ConfigManager {
           items: {
             type: 'string',
           },
-          default: ['/.claude/history/', '/.claude/*.log', '/.claude/cache/'],
+          default: [
+            '/.claude/history/',
+            '/.claude/*.log',
+            '/.claude/cache/',
+            '/.claude/exports/',
+          ],
+        },
+        tombstoneGraceDays: {
+          type: 'number',
+          minimum: 0,
+          default: 30,
+        },
+        redactSecrets: {
+          type: 'boolean',
+          default: true,
+        },
+        redactionRules: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              pattern: { type: 'string' },
+              flags: { type: 'string' },
+            },
+            required: ['name', 'pattern'],
+          },
+          default: [],
+        },
+        retention: {
+          ...RETENTION_SCHEMA,
+          default: {},
+        },
+        projectRetention: {
+          type: 'object',
+          additionalProperties: RETENTION_SCHEMA,
+          default: {},
+        },
+        autoPrune: {
+          type: 'boolean',
+          default: false,
         },
       },
     });
@@ -59,6 +133,12 @@ export class ConfigManager {
       autoSync: this.config.get('autoSync'),
       autoGitignore: this.config.get('autoGitignore'),
       ignorePatterns: this.config.get('ignorePatterns'),
+      tombstoneGraceDays: this.config.get('tombstoneGraceDays'),
+      redactSecrets: this.config.get('redactSecrets'),
+      redactionRules: this.config.get('redactionRules'),
+      retention: this.config.get('retention'),
+      projectRetention: this.config.get('projectRetention'),
+      autoPrune: this.config.get('autoPrune'),
     };
   }
 
@@ -145,6 +225,142 @@ export class ConfigManager {
     return this.config.get('ignorePatterns');
   }
 
+  /**
+   * Set how many days deleted sessions stay tombstoned
+   */
+  setTombstoneGraceDays(days: number): void {
+    this.config.set('tombstoneGraceDays', days);
+  }
+
+  /**
+   * Get how many days deleted sessions stay tombstoned
+   */
+  getTombstoneGraceDays(): number {
+    return this.config.get('tombstoneGraceDays');
+  }
+
+  /**
+   * Enable or disable secret redaction
+   */
+  setRedactSecrets(enabled: boolean): void {
+    this.config.set('redactSecrets', enabled);
+  }
+
+  /**
+   * Check if secret redaction is enabled
+   */
+  isRedactSecretsEnabled(): boolean {
+    return this.config.get('redactSecrets');
+  }
+
+  /**
+   * Add a custom redaction rule, replacing any rule with the same name
+   * @throws If the pattern is not a valid regular expression
+   */
+  addRedactionRule(rule: RedactionRuleConfig): void {
+    compileRedactionRules([rule]);
+    const rules = this.config
+      .get('redactionRules')
+      .filter((r: RedactionRuleConfig) => r.name !== rule.name);
+    rules.push(rule);
+    this.config.set('redactionRules', rules);
+  }
+
+  /**
+   * Remove a custom redaction rule
+   */
+  removeRedactionRule(name: string): void {
+    const rules = this.config.get('redactionRules');
+    const filtered = rules.filter((r: RedactionRuleConfig) => r.name !== name);
+    this.config.set('redactionRules', filtered);
+  }
+
+  /**
+   * Get all custom redaction rules
+   */
+  getRedactionRules(): RedactionRuleConfig[] {
+    return this.config.get('redactionRules');
+  }
+
+  /**
+   * Set the retention limits of every project, or of one project
+   * A project's limits are applied over the global ones
+   */
+  setRetentionPolicy(policy: RetentionPolicy, projectRoot?: string): void {
+    if (!projectRoot) {
+      this.config.set('retention', policy);
+      return;
+    }
+    this.config.set('projectRetention', {
+      ...this.config.get('projectRetention'),
+      [projectRoot]: policy,
+    });
+  }
+
+  /**
+   * Get the retention limits that apply to a project, or the global ones
+   */
+  getRetentionPolicy(projectRoot?: string): RetentionPolicy {
+    const global = this.config.get('retention');
+    if (!projectRoot) {
+      return global;
+    }
+    return { ...global, ...this.config.get('projectRetention')[projectRoot] };
+  }
+
+  /**
+   * Enable or disable pruning by the daemon
+   */
+  setAutoPrune(enabled: boolean): void {
+    this.config.set('autoPrune', enabled);
+  }
+
+  /**
+   * Check if the daemon prunes projects
+   */
+  isAutoPruneEnabled(): boolean {
+    return this.config.get('autoPrune');
+  }
+
+  /**
+   * Get the configuration in effect for a project, with the settings in its
+   * .claude/sync.json merged over the global ones
+   * @throws If the project's sync.json is invalid
+   */
+  async getProjectConfig(projectRoot: string): Promise<ProjectConfig> {
+    const global = this.getConfig();
+    const project = await loadProjectConfig(projectRoot);
+
+    return {
+      ...global,
+      projectRoot,
+      enabled: project.enabled ?? true,
+      direction: project.direction ?? 'both',
+      include: project.include || [],
+      exclude: project.exclude || [],
+      redactSecrets: project.redactSecrets ?? global.redactSecrets,
+      redactionRules: mergeRedactionRules(
+        global.redactionRules,
+        project.redactionRules
+      ),
+      retention: {
+        ...this.getRetentionPolicy(projectRoot),
+        ...project.retention,
+      },
+    };
+  }
+
+  /**
+   * Get the StorageManager options this configuration describes
+   */
+  getStorageManagerOptions(): StorageManagerOptions {
+    return {
+      tombstoneGraceDays: this.getTombstoneGraceDays(),
+      redactSecrets: this.isRedactSecretsEnabled(),
+      redactionRules: this.getRedactionRules(),
+    };
+  }
+
   /**
    * Reset configuration to defaults
    */
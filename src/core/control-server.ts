@@ -0,0 +1,228 @@
+import { createServer, type Server, type Socket } from 'node:net';
+import { chmod, mkdir, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type {
+  ControlRequest,
+  ControlResponse,
+  SyncDirection,
+} from '../types/index.js';
+import { CONTROL_ERRORS, splitLines } from '../utils/control.js';
+import { getControlSocketPath } from '../utils/paths.js';
+import type { SyncDaemon } from './daemon.js';
+
+/**
+ * A failure reported to the client with a JSON-RPC error code
+ */
+class ControlError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const SYNC_DIRECTIONS: SyncDirection[] = ['to-local', 'to-global', 'both'];
+
+/**
+ * Serves the daemon's control socket
+ *
+ * Clients send JSON-RPC 2.0 requests, one per line, over a Unix socket only
+ * the user can connect to. The methods are getStatus, syncNow, rescan,
+ * pause, resume and shutdown.
+ */
+export class ControlServer {
+  private daemon: SyncDaemon;
+  private socketPath: string;
+  private server: Server | null = null;
+  private onShutdown: () => void = () => {};
+
+  constructor(daemon: SyncDaemon, socketPath?: string) {
+    this.daemon = daemon;
+    this.socketPath = socketPath || getControlSocketPath();
+  }
+
+  /**
+   * Get the socket the server listens on
+   */
+  getSocketPath(): string {
+    return this.socketPath;
+  }
+
+  /**
+   * Start listening for requests
+   * A socket file left behind by a daemon that is gone is replaced.
+   * @param onShutdown Called after answering a shutdown request
+   */
+  async listen(onShutdown: () => void = () => {}): Promise<void> {
+    this.onShutdown = onShutdown;
+    await mkdir(dirname(this.socketPath), { recursive: true, mode: 0o700 });
+    await unlink(this.socketPath).catch(() => {});
+
+    const server = createServer((socket) => this.handleConnection(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    await chmod(this.socketPath, 0o600);
+    this.server = server;
+  }
+
+  /**
+   * Stop listening and remove the socket file
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await unlink(this.socketPath).catch(() => {});
+  }
+
+  /**
+   * Answer the requests of a connection, in the order they arrive
+   */
+  private handleConnection(socket: Socket): void {
+    let buffered = '';
+    let queue = Promise.resolve();
+
+    socket.on('error', () => {
+      // The client went away; nothing to answer
+    });
+    socket.on('data', (data) => {
+      const { lines, rest } = splitLines(buffered + data.toString('utf-8'));
+      buffered = rest;
+      for (const line of lines) {
+        queue = queue.then(async () => {
+          const { response, shutdown } = await this.handleLine(line);
+          if (!socket.destroyed) {
+            socket.write(JSON.stringify(response) + '\n');
+          }
+          if (shutdown) {
+            setImmediate(this.onShutdown);
+          }
+        });
+      }
+    });
+  }
+
+  /**
+   * Parse and run one request
+   */
+  private async handleLine(
+    line: string
+  ): Promise<{ response: ControlResponse; shutdown: boolean }> {
+    let request: ControlRequest;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      return {
+        response: this.errorResponse(
+          null,
+          new ControlError(CONTROL_ERRORS.parseError, 'Invalid JSON')
+        ),
+        shutdown: false,
+      };
+    }
+
+    const id = request?.id ?? null;
+    if (request?.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+      return {
+        response: this.errorResponse(
+          id,
+          new ControlError(CONTROL_ERRORS.invalidRequest, 'Invalid request')
+        ),
+        shutdown: false,
+      };
+    }
+
+    try {
+      const result = await this.call(request.method, request.params || {});
+      return {
+        response: { jsonrpc: '2.0', id, result },
+        shutdown: request.method === 'shutdown',
+      };
+    } catch (error) {
+      return { response: this.errorResponse(id, error), shutdown: false };
+    }
+  }
+
+  /**
+   * Run a method of the daemon
+   * @throws ControlError for unknown methods and bad parameters
+   */
+  private async call(
+    method: string,
+    params: Record<string, unknown>
+  ): Promise<unknown> {
+    switch (method) {
+      case 'getStatus':
+        return this.daemon.getStatus();
+      case 'syncNow': {
+        const { project, direction } = params;
+        if (typeof project !== 'string') {
+          throw new ControlError(
+            CONTROL_ERRORS.invalidParams,
+            'syncNow needs a project path'
+          );
+        }
+        if (
+          direction !== undefined &&
+          !SYNC_DIRECTIONS.includes(direction as SyncDirection)
+        ) {
+          throw new ControlError(
+            CONTROL_ERRORS.invalidParams,
+            `Invalid sync direction: ${direction}`
+          );
+        }
+        const result = await this.daemon.syncNow(
+          project,
+          direction as SyncDirection
+        );
+        // Errors don't survive JSON, their messages do
+        return {
+          ...result,
+          errors: result.errors.map((error) => error.message),
+        };
+      }
+      case 'rescan':
+        return { added: await this.daemon.rescan() };
+      case 'pause':
+        this.daemon.pause();
+        return { paused: true };
+      case 'resume':
+        await this.daemon.resume();
+        return { paused: false };
+      case 'shutdown':
+        return { stopping: true };
+      default:
+        throw new ControlError(
+          CONTROL_ERRORS.methodNotFound,
+          `Unknown method: ${method}`
+        );
+    }
+  }
+
+  /**
+   * Build the response reporting a failed request
+   */
+  private errorResponse(
+    id: ControlRequest['id'],
+    error: unknown
+  ): ControlResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code:
+          error instanceof ControlError ? error.code : CONTROL_ERRORS.failed,
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
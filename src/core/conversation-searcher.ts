@@ -0,0 +1,90 @@
+import { basename, join } from 'node:path';
+import type {
+  ConversationSource,
+  SearchMatch,
+  SearchQuery,
+} from '../types/index.js';
+import { readConversation } from '../utils/conversation-reader.js';
+import { createLineMatcher, getSearchableText } from '../utils/search.js';
+import { SearchIndex } from './search-index.js';
+
+/**
+ * Searches the text of conversations line by line
+ * Plain-text searches only read the sessions the search index says may
+ * contain the text; regular expressions are matched against every session.
+ */
+export class ConversationSearcher {
+  private searchIndex: SearchIndex;
+
+  constructor(searchIndex: SearchIndex) {
+    this.searchIndex = searchIndex;
+  }
+
+  /**
+   * Search the sessions of some directories
+   * A session found in more than one directory is only searched in the
+   * first, so a project's own copy takes precedence over Claude Code's
+   * @throws If the query is an invalid regular expression
+   */
+  async search(
+    sources: ConversationSource[],
+    query: SearchQuery
+  ): Promise<SearchMatch[]> {
+    const matchLine = createLineMatcher(query);
+    const context = query.context ?? 1;
+    const limit = query.limit ?? Infinity;
+    const searched = new Set<string>();
+    const matches: SearchMatch[] = [];
+
+    for (const source of sources) {
+      const index = await this.searchIndex.update(source);
+      const files = query.regex
+        ? Object.keys(index.files).sort()
+        : this.searchIndex.findSessions(index, query.pattern);
+      const unseen = files.filter((file) => !searched.has(file));
+      Object.keys(index.files).forEach((file) => searched.add(file));
+
+      for (const file of unseen) {
+        const path = join(source.path, file);
+        try {
+          for await (const entry of readConversation(path, source)) {
+            const searchable = getSearchableText(entry);
+            if (
+              !searchable ||
+              (query.roles && !query.roles.includes(searchable.role))
+            ) {
+              continue;
+            }
+
+            const lines = searchable.text.split('\n');
+            for (let i = 0; i < lines.length; i++) {
+              if (!matchLine(lines[i])) {
+                continue;
+              }
+              matches.push({
+                sessionId: basename(file, '.jsonl'),
+                path,
+                side: source.side,
+                role: searchable.role,
+                line: entry.line,
+                timestamp: entry.timestamp,
+                cwd: entry.cwd,
+                before: lines.slice(Math.max(0, i - context), i),
+                text: lines[i],
+                after: lines.slice(i + 1, i + 1 + context),
+              });
+              if (matches.length >= limit) {
+                return matches;
+              }
+            }
+          }
+        } catch {
+          // Skip sessions that can't be read
+          continue;
+        }
+      }
+    }
+
+    return matches;
+  }
+}
@@ -0,0 +1,247 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { mkdir, open, readFile, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { DaemonProcessOptions, DaemonStopResult } from '../types/index.js';
+import { getDaemonOutputPath, getDaemonPidPath } from '../utils/paths.js';
+import { isProcessAlive } from '../utils/lock.js';
+import { writeFileAtomic } from '../utils/atomic.js';
+import { notifySystemd } from '../utils/systemd.js';
+import type { SyncDaemon } from './daemon.js';
+import type { ControlServer } from './control-server.js';
+import { Logger } from './logger.js';
+
+/**
+ * Message a starting daemon sends to the process that started it
+ */
+type DaemonMessage = { type: 'ready' } | { type: 'error'; message: string };
+
+const POLL_INTERVAL_MS = 100;
+
+/**
+ * Starts, stops and keeps track of the background daemon process
+ *
+ * The daemon runs detached from the terminal that started it, with its
+ * console output appended to a file. Starting waits until the daemon reports
+ * that it is up; stopping waits for it to shut down cleanly, and kills it
+ * if it doesn't in time.
+ */
+export class DaemonProcess {
+  private pidFile: string;
+  private logFile: string;
+  private readyTimeoutMs: number;
+  private stopTimeoutMs: number;
+
+  constructor(options: DaemonProcessOptions = {}) {
+    this.pidFile = options.pidFile || getDaemonPidPath();
+    this.logFile = options.logFile || getDaemonOutputPath();
+    this.readyTimeoutMs = options.readyTimeoutMs ?? 60_000;
+    this.stopTimeoutMs = options.stopTimeoutMs ?? 10_000;
+  }
+
+  /**
+   * Get the file the daemon's console output goes to
+   */
+  getLogFile(): string {
+    return this.logFile;
+  }
+
+  /**
+   * Get the PID of the running daemon
+   * A PID file left behind by a daemon that is gone is removed
+   * @returns null when no daemon is running
+   */
+  async getPid(): Promise<number | null> {
+    let pid: number;
+    try {
+      pid = parseInt(await readFile(this.pidFile, 'utf-8'), 10);
+    } catch {
+      return null;
+    }
+    if (pid > 0 && isProcessAlive(pid)) {
+      return pid;
+    }
+    await unlink(this.pidFile).catch(() => {});
+    return null;
+  }
+
+  /**
+   * Start a daemon in a detached process and wait until it is ready
+   * @param args Arguments to run Node.js with, such as the CLI and its
+   * command that serves the daemon
+   * @returns The daemon's PID
+   * @throws If the daemon fails, exits or doesn't become ready in time
+   */
+  async start(args: string[]): Promise<number> {
+    await mkdir(dirname(this.logFile), { recursive: true });
+    const log = await open(this.logFile, 'a');
+
+    try {
+      const child = spawn(process.execPath, args, {
+        detached: true,
+        stdio: ['ignore', log.fd, log.fd, 'ipc'],
+      });
+      await this.waitUntilReady(child);
+      // Let the daemon outlive this process
+      child.disconnect();
+      child.unref();
+      return child.pid!;
+    } finally {
+      await log.close();
+    }
+  }
+
+  /**
+   * Wait for a starting daemon to report that it is ready
+   * A daemon that doesn't make it is stopped.
+   */
+  private waitUntilReady(child: ChildProcess): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        child.off('message', onMessage);
+        child.off('exit', onExit);
+        child.off('error', onError);
+      };
+      const fail = (message: string) => {
+        cleanup();
+        child.kill('SIGKILL');
+        reject(new Error(`${message} (see ${this.logFile})`));
+      };
+
+      const onMessage = (message: DaemonMessage) => {
+        if (message?.type === 'ready') {
+          cleanup();
+          resolve();
+        } else if (message?.type === 'error') {
+          fail(`Daemon failed to start: ${message.message}`);
+        }
+      };
+      const onExit = (code: number | null) =>
+        fail(`Daemon exited with code ${code} before it was ready`);
+      const onError = (error: Error) =>
+        fail(`Could not start the daemon: ${error.message}`);
+      const timer = setTimeout(
+        () => fail('Daemon did not become ready in time'),
+        this.readyTimeoutMs
+      );
+
+      child.on('message', onMessage);
+      child.on('exit', onExit);
+      child.on('error', onError);
+    });
+  }
+
+  /**
+   * Run a daemon in this process until it is told to stop
+   * Records the PID, reports to the process that started it and to systemd
+   * once the daemon is watching and the control socket is up, then runs the
+   * initial syncs.
+   * Shuts the daemon down cleanly on SIGTERM, SIGINT or a shutdown request
+   * on the control socket, also while starting. SIGHUP reloads its config.
+   * @param control Control socket to serve while the daemon runs
+   * @param logger The daemon's logger, recording the signals received
+   * @throws If the daemon or its control socket fails to start
+   */
+  async serve(
+    daemon: Pick<SyncDaemon, 'start' | 'stop'> &
+      Partial<Pick<SyncDaemon, 'reload' | 'syncAll'>>,
+    control?: Pick<ControlServer, 'listen' | 'close'>,
+    logger: Pick<Logger, 'info'> = new Logger()
+  ): Promise<void> {
+    await mkdir(dirname(this.pidFile), { recursive: true });
+    await writeFileAtomic(this.pidFile, String(process.pid));
+
+    let stopping = false;
+    const shutdown = async (reason: string) => {
+      if (stopping) return;
+      stopping = true;
+      logger.info(`Received ${reason}`);
+      try {
+        await control?.close();
+        await daemon.stop();
+      } finally {
+        await this.removePidFile();
+        process.exit(0);
+      }
+    };
+
+    const reload = () => {
+      logger.info('Received SIGHUP, reloading config');
+      void daemon.reload?.();
+    };
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+    process.on('SIGHUP', reload);
+
+    try {
+      await daemon.start();
+      await control?.listen(() => shutdown('shutdown request'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      process.send?.({ type: 'error', message });
+      process.off('SIGTERM', shutdown);
+      process.off('SIGINT', shutdown);
+      process.off('SIGHUP', reload);
+      await this.removePidFile();
+      throw error;
+    }
+
+    // Ready, to enable and to systemd when running under it, before the
+    // initial syncs, which take a while in large workspaces
+    process.send?.({ type: 'ready' });
+    await notifySystemd('READY=1');
+    await daemon.syncAll?.();
+  }
+
+  /**
+   * Stop the running daemon, waiting for it to shut down cleanly
+   * Falls back to SIGKILL when it hasn't exited within the stop timeout
+   */
+  async stop(): Promise<DaemonStopResult> {
+    const pid = await this.getPid();
+    if (!pid) {
+      return 'not-running';
+    }
+
+    let result: DaemonStopResult = 'stopped';
+    process.kill(pid, 'SIGTERM');
+    if (!(await this.waitForExit(pid, this.stopTimeoutMs))) {
+      process.kill(pid, 'SIGKILL');
+      await this.waitForExit(pid, this.stopTimeoutMs);
+      result = 'killed';
+    }
+
+    await unlink(this.pidFile).catch(() => {});
+    return result;
+  }
+
+  /**
+   * Wait for a process to exit
+   * @returns Whether it exited in time
+   */
+  private async waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (isProcessAlive(pid)) {
+      if (Date.now() >= deadline) {
+        return false;
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+    return true;
+  }
+
+  /**
+   * Remove the PID file, if it still names this process
+   */
+  private async removePidFile(): Promise<void> {
+    try {
+      if (
+        (await readFile(this.pidFile, 'utf-8')).trim() === String(process.pid)
+      ) {
+        await unlink(this.pidFile);
+      }
+    } catch {
+      // Already gone
+    }
+  }
+}
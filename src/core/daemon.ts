@@ -1,15 +1,46 @@
 import { watch, FSWatcher } from 'chokidar';
-import { join } from 'node:path';
+import { join, basename, relative, sep } from 'node:path';
 import { readdir, stat } from 'node:fs/promises';
 import { StorageManager } from './storage-manager.js';
 import { ProjectDetector } from './project-detector.js';
 import { ConfigManager } from './config-manager.js';
-import { getHistoryPath, getGlobalProjectPath, pathExists } from '../utils/paths.js';
+import { HistoryPruner } from './history-pruner.js';
+import { SearchIndex } from './search-index.js';
+import { Logger } from './logger.js';
+import { getHistoryPath, getSessionId, resolveGlobalProjectPath, resolvePath, pathExists } from '../utils/paths.js';
+import { restrictDirection } from '../utils/project-config.js';
+import { notifySystemd } from '../utils/systemd.js';
+import {
+  DEFAULT_SCAN_DEPTH,
+  DEFAULT_SCAN_EXCLUDE,
+  diffPaths,
+  isDiscoverable,
+  isExcludedFromScan,
+  isWithin,
+  readDaemonConfig,
+} from '../utils/daemon-config.js';
+import type {
+  DaemonError,
+  DaemonReloadResult,
+  DaemonStatus,
+  DiscoveryOptions,
+  ProjectConfig,
+  SyncDirection,
+  SyncResult,
+} from '../types/index.js';
 
 interface MonitoredProject {
   root: string;
+  /** Claude Code's storage directory for the project */
+  globalPath: string;
   watcher: FSWatcher;
   lastSync: number;
+  /** When the project last synced without errors */
+  lastSyncedAt: number | null;
+  /** Error of the latest sync, cleared by a successful one */
+  lastError: string | null;
+  /** When retention limits were last applied */
+  lastPrune: number;
 }
 
 /**
@@ -18,29 +49,75 @@ interface MonitoredProject {
 export class SyncDaemon {
   private projects: Map<string, MonitoredProject> = new Map();
   private globalWatcher: FSWatcher | null = null;
+  /** Watchers for new projects, by search path */
+  private searchWatchers: Map<string, FSWatcher> = new Map();
+  private configWatcher: FSWatcher | null = null;
+  private configFile?: string;
+  private reloading: Promise<DaemonReloadResult | null> | null = null;
+  private reloadAgain = false;
+  /** Whether newly monitored projects wait for syncAll() */
+  private deferSyncs = false;
   private storageManager: StorageManager;
   private configManager: ConfigManager;
   private projectDetector: ProjectDetector;
+  private historyPruner: HistoryPruner;
+  private searchIndex: SearchIndex;
   private searchPaths: string[];
+  private scanDepth: number;
+  private exclude: string[];
+  private trackedProjects: string[];
+  private logger: Logger;
   private syncDebounceMs = 2000;
+  private pruneIntervalMs = 60 * 60 * 1000;
+  private startedAt: number | null = null;
+  private paused = false;
+  private recentErrors: DaemonError[] = [];
+  private maxRecentErrors = 20;
 
-  constructor(searchPaths: string[] = [process.env.HOME + '/Projects', process.env.HOME + '/code']) {
-    this.searchPaths = searchPaths.filter(Boolean);
+  /**
+   * @param configFile Daemon config to reload search paths and settings from
+   * when it changes or reload() is called
+   * @param discovery Scan depth, excluded directories and tracked projects
+   */
+  constructor(
+    searchPaths: string[] = [process.env.HOME + '/Projects', process.env.HOME + '/code'],
+    logger: Logger = new Logger(),
+    configFile?: string,
+    discovery: DiscoveryOptions = {}
+  ) {
+    this.searchPaths = searchPaths.filter(Boolean).map((path) => resolvePath(path));
+    this.scanDepth = discovery.scanDepth ?? DEFAULT_SCAN_DEPTH;
+    this.exclude = discovery.exclude ?? DEFAULT_SCAN_EXCLUDE;
+    this.trackedProjects = (discovery.trackedProjects ?? []).map((path) => resolvePath(path));
+    this.logger = logger;
+    this.configFile = configFile;
     this.configManager = new ConfigManager();
     this.storageManager = new StorageManager(
-      this.configManager.getGlobalStoragePath()
+      this.configManager.getGlobalStoragePath(),
+      this.configManager.getStorageManagerOptions()
     );
     this.projectDetector = new ProjectDetector();
+    this.historyPruner = new HistoryPruner(this.storageManager);
+    this.searchIndex = new SearchIndex();
   }
 
   /**
    * Start the daemon
+   * Projects found are watched but not synced yet: call syncAll() once the
+   * daemon has reported that it is up.
    */
   async start(): Promise<void> {
-    console.log('[claude-local daemon] Starting...');
+    this.logger.info('Starting...');
+    this.startedAt = Date.now();
 
-    // Discover existing projects with .claude folders
-    await this.discoverProjects();
+    // Discover existing projects with .claude folders, leaving their
+    // initial syncs to syncAll()
+    this.deferSyncs = true;
+    try {
+      await this.discoverProjects();
+    } finally {
+      this.deferSyncs = false;
+    }
 
     // Watch for new .claude folders being created
     await this.watchForNewProjects();
@@ -48,30 +125,66 @@ export class SyncDaemon {
     // Watch global storage for changes
     await this.watchGlobalStorage();
 
-    console.log(`[claude-local daemon] Monitoring ${this.projects.size} project(s)`);
+    // Reload when the config changes
+    this.watchConfig();
+
+    this.logger.info(`Monitoring ${this.projects.size} project(s)`);
+  }
+
+  /**
+   * Sync every monitored project in both directions, as done once the
+   * daemon is up
+   * Projects synced within the last few seconds are skipped.
+   */
+  async syncAll(): Promise<void> {
+    for (const projectRoot of Array.from(this.projects.keys())) {
+      await this.syncProject(projectRoot, 'both');
+    }
   }
 
   /**
-   * Discover existing projects with .claude folders
+   * Discover existing projects with .claude folders, and monitor the
+   * tracked ones
    */
   private async discoverProjects(): Promise<void> {
     for (const searchPath of this.searchPaths) {
-      if (!(await pathExists(searchPath))) {
-        continue;
-      }
+      await this.discoverProjectsIn(searchPath);
+    }
+    for (const projectRoot of this.trackedProjects) {
+      await this.monitorTrackedProject(projectRoot);
+    }
+  }
 
-      try {
-        await this.scanDirectory(searchPath, 3); // Max depth 3
-      } catch (error) {
-        console.error(`[claude-local daemon] Error scanning ${searchPath}:`, error);
-      }
+  /**
+   * Monitor a project added with `claude-sync track`
+   */
+  private async monitorTrackedProject(projectRoot: string): Promise<void> {
+    if (!(await pathExists(projectRoot))) {
+      this.logger.warn(`Tracked project ${projectRoot} does not exist`, { project: projectRoot });
+      return;
+    }
+    await this.monitorProject(projectRoot);
+  }
+
+  /**
+   * Discover existing projects in one search path
+   */
+  private async discoverProjectsIn(searchPath: string): Promise<void> {
+    if (!(await pathExists(searchPath))) {
+      return;
+    }
+
+    try {
+      await this.scanDirectory(searchPath, searchPath, this.scanDepth);
+    } catch (error) {
+      this.logError(`Error scanning ${searchPath}`, null, error);
     }
   }
 
   /**
    * Recursively scan directory for .claude folders
    */
-  private async scanDirectory(dir: string, maxDepth: number): Promise<void> {
+  private async scanDirectory(searchPath: string, dir: string, maxDepth: number): Promise<void> {
     if (maxDepth <= 0) return;
 
     try {
@@ -79,9 +192,9 @@ export class SyncDaemon {
 
       for (const entry of entries) {
         if (!entry.isDirectory()) continue;
-        if (entry.name.startsWith('.') && entry.name !== '.claude') continue;
 
         const fullPath = join(dir, entry.name);
+        if (isExcludedFromScan(relative(searchPath, fullPath), this.exclude)) continue;
 
         // Check if this directory has a .claude folder
         if (entry.name === '.claude') {
@@ -95,7 +208,7 @@ export class SyncDaemon {
           }
         } else {
           // Recurse into subdirectories
-          await this.scanDirectory(fullPath, maxDepth - 1);
+          await this.scanDirectory(searchPath, fullPath, maxDepth - 1);
         }
       }
     } catch (error) {
@@ -109,26 +222,35 @@ export class SyncDaemon {
    */
   private async watchForNewProjects(): Promise<void> {
     for (const searchPath of this.searchPaths) {
-      if (!(await pathExists(searchPath))) {
-        continue;
-      }
+      await this.watchSearchPath(searchPath);
+    }
+  }
 
-      watch(join(searchPath, '**/.claude'), {
-        ignored: /(node_modules|\.git)/,
-        persistent: true,
-        ignoreInitial: true,
-        depth: 3,
-        awaitWriteFinish: {
-          stabilityThreshold: 2000,
-          pollInterval: 100,
-        },
-      }).on('addDir', async (path) => {
-        // New .claude directory created
-        const projectRoot = path.replace(/\/.claude$/, '');
-        console.log(`[claude-local daemon] Detected new project: ${projectRoot}`);
-        await this.monitorProject(projectRoot);
-      });
+  /**
+   * Watch one search path for new .claude folders
+   */
+  private async watchSearchPath(searchPath: string): Promise<void> {
+    if (this.searchWatchers.has(searchPath) || !(await pathExists(searchPath))) {
+      return;
     }
+
+    const watcher = watch(join(searchPath, '**/.claude'), {
+      ignored: (path: string) =>
+        isWithin(path, searchPath) && isExcludedFromScan(relative(searchPath, path), this.exclude),
+      persistent: true,
+      ignoreInitial: true,
+      depth: this.scanDepth,
+      awaitWriteFinish: {
+        stabilityThreshold: 2000,
+        pollInterval: 100,
+      },
+    }).on('addDir', async (path) => {
+      // New .claude directory created
+      const projectRoot = path.replace(/\/.claude$/, '');
+      this.logger.info(`Detected new project: ${projectRoot}`, { project: projectRoot });
+      await this.monitorProject(projectRoot);
+    });
+    this.searchWatchers.set(searchPath, watcher);
   }
 
   /**
@@ -139,18 +261,21 @@ export class SyncDaemon {
       return; // Already monitoring
     }
 
-    console.log(`[claude-local daemon] Monitoring project: ${projectRoot}`);
-
-    // Initial bidirectional sync
-    try {
-      await this.syncProject(projectRoot, 'bidirectional');
-    } catch (error) {
-      console.error(`[claude-local daemon] Initial sync failed for ${projectRoot}:`, error);
+    const globalPath = await resolveGlobalProjectPath(
+      this.configManager.getGlobalStoragePath(),
+      projectRoot
+    );
+    if (this.projects.has(projectRoot)) {
+      return; // Found twice while resolving
     }
 
+    this.logger.info(`Monitoring project: ${projectRoot}`, { project: projectRoot });
+
     // Watch local .claude/history for changes
     const localHistoryPath = getHistoryPath(join(projectRoot, '.claude'));
     const watcher = watch(localHistoryPath, {
+      // Skip the sync manifest and other bookkeeping dotfiles
+      ignored: (path: string) => basename(path).startsWith('.'),
       persistent: true,
       ignoreInitial: true,
       awaitWriteFinish: {
@@ -162,7 +287,7 @@ export class SyncDaemon {
     let syncTimeout: NodeJS.Timeout | null = null;
 
     watcher.on('all', (event, path) => {
-      console.log(`[claude-local daemon] Change detected in ${projectRoot}: ${event} ${path}`);
+      this.logger.debug(`Change detected in ${projectRoot}: ${event} ${path}`, { project: projectRoot });
 
       // Debounce syncs
       if (syncTimeout) {
@@ -174,11 +299,166 @@ export class SyncDaemon {
       }, this.syncDebounceMs);
     });
 
+    // Registered before the initial sync, which skips unknown projects
     this.projects.set(projectRoot, {
       root: projectRoot,
+      globalPath,
       watcher,
-      lastSync: Date.now(),
+      lastSync: 0,
+      lastSyncedAt: null,
+      lastError: null,
+      lastPrune: 0,
+    });
+
+    // Initial bidirectional sync, left to syncAll() while starting
+    if (!this.deferSyncs) {
+      await this.syncProject(projectRoot, 'both');
+    }
+  }
+
+  /**
+   * Stop monitoring a project
+   */
+  private async unmonitorProject(projectRoot: string): Promise<void> {
+    const project = this.projects.get(projectRoot);
+    if (!project) {
+      return;
+    }
+    this.projects.delete(projectRoot);
+    await project.watcher.close();
+    this.logger.info(`Stopped monitoring project: ${projectRoot}`, { project: projectRoot });
+  }
+
+  /**
+   * Check whether a project is tracked or found in a search path
+   */
+  private isWanted(projectRoot: string): boolean {
+    return (
+      this.trackedProjects.includes(projectRoot) ||
+      this.searchPaths.some((searchPath) =>
+        isDiscoverable(projectRoot, searchPath, this.scanDepth, this.exclude)
+      )
+    );
+  }
+
+  /**
+   * Watch the config file, reloading when it is written
+   */
+  private watchConfig(): void {
+    if (!this.configFile || this.configWatcher) {
+      return;
+    }
+
+    this.configWatcher = watch(this.configFile, {
+      persistent: true,
+      ignoreInitial: true,
+      awaitWriteFinish: {
+        stabilityThreshold: 200,
+        pollInterval: 50,
+      },
     });
+    this.configWatcher.on('add', () => void this.reload());
+    this.configWatcher.on('change', () => void this.reload());
+  }
+
+  /**
+   * Apply the config file without restarting
+   * Only what changed is touched: projects under removed search paths stop
+   * being monitored, added search paths are scanned and watched, tracked
+   * projects are added and dropped, and the log level and storage settings
+   * are updated. A new scan depth or exclude list rescans every search path.
+   * Projects that stay are not synced again.
+   * @returns The search paths added and removed, or null when the config
+   * could not be read, in which case the current one stays
+   */
+  async reload(): Promise<DaemonReloadResult | null> {
+    if (!this.configFile) {
+      return { added: [], removed: [] };
+    }
+    if (this.reloading) {
+      // Reload again once the current one is done, to catch the latest write
+      this.reloadAgain = true;
+      return this.reloading;
+    }
+
+    this.reloading = this.applyConfig(this.configFile);
+    try {
+      return await this.reloading;
+    } finally {
+      this.reloading = null;
+      if (this.reloadAgain) {
+        this.reloadAgain = false;
+        void this.reload();
+      }
+    }
+  }
+
+  /**
+   * Read the config file and apply what changed
+   */
+  private async applyConfig(configFile: string): Promise<DaemonReloadResult | null> {
+    let config;
+    try {
+      config = await readDaemonConfig(configFile);
+    } catch (error) {
+      this.logError('Could not reload the config, keeping the current one', null, error);
+      return null;
+    }
+    if (!config) {
+      this.logger.warn(`${configFile} is gone, keeping the current config`);
+      return null;
+    }
+
+    const searchPaths = config.searchPaths.map((path) => resolvePath(path));
+    const { added, removed } = diffPaths(this.searchPaths, searchPaths);
+    const tracked = diffPaths(this.trackedProjects, config.trackedProjects ?? []);
+    const scanDepth = config.scanDepth ?? DEFAULT_SCAN_DEPTH;
+    const exclude = config.exclude ?? DEFAULT_SCAN_EXCLUDE;
+    const discoveryChanged =
+      scanDepth !== this.scanDepth || exclude.join('\n') !== this.exclude.join('\n');
+
+    this.searchPaths = searchPaths;
+    this.trackedProjects = (config.trackedProjects ?? []).map((path) => resolvePath(path));
+    this.scanDepth = scanDepth;
+    this.exclude = exclude;
+
+    // Watchers can't change their depth, so new settings mean new watchers
+    for (const [searchPath, watcher] of Array.from(this.searchWatchers)) {
+      if (discoveryChanged || removed.includes(searchPath)) {
+        await watcher.close();
+        this.searchWatchers.delete(searchPath);
+      }
+    }
+    for (const projectRoot of Array.from(this.projects.keys())) {
+      if (!this.isWanted(projectRoot)) {
+        await this.unmonitorProject(projectRoot);
+      }
+    }
+    for (const searchPath of discoveryChanged ? searchPaths : added) {
+      await this.discoverProjectsIn(searchPath);
+      await this.watchSearchPath(searchPath);
+    }
+    for (const projectRoot of tracked.added) {
+      await this.monitorTrackedProject(projectRoot);
+    }
+
+    if (config.logLevel && config.logLevel !== this.logger.getLevel()) {
+      this.logger.setLevel(config.logLevel);
+    }
+
+    // Pick up changes to redaction, encryption and retention settings
+    this.storageManager = new StorageManager(
+      this.configManager.getGlobalStoragePath(),
+      this.configManager.getStorageManagerOptions()
+    );
+    this.historyPruner = new HistoryPruner(this.storageManager);
+
+    this.logger.info(
+      `Reloaded config: ${added.length} search path(s) added, ${removed.length} removed, ` +
+        `${tracked.added.length} project(s) tracked, ${tracked.removed.length} untracked, ` +
+        `monitoring ${this.projects.size} project(s)`
+    );
+    return { added, removed };
   }
 
   /**
@@ -190,80 +470,294 @@ export class SyncDaemon {
     const globalProjectsPath = join(globalPath, 'projects');
 
     if (!(await pathExists(globalProjectsPath))) {
-      console.log('[claude-local daemon] Global projects directory not found, skipping global watch');
+      this.logger.warn('Global projects directory not found, skipping global watch');
       return;
     }
 
-    // Watch all project directories in ~/.claude/projects/
-    this.globalWatcher = watch(join(globalProjectsPath, '*/*.jsonl'), {
-      persistent: true,
-      ignoreInitial: true,
-      awaitWriteFinish: {
-        stabilityThreshold: this.syncDebounceMs,
-        pollInterval: 100,
-      },
-    });
+    // Watch the session files in ~/.claude/projects/ and their companion
+    // data: subagent transcripts, todos and file-history snapshots
+    this.globalWatcher = watch(
+      [
+        join(globalProjectsPath, '*/*.jsonl'),
+        join(globalProjectsPath, '*/*/**'),
+        join(globalPath, 'todos/*.json'),
+        join(globalPath, 'file-history/*/**'),
+      ],
+      {
+        persistent: true,
+        ignoreInitial: true,
+        awaitWriteFinish: {
+          stabilityThreshold: this.syncDebounceMs,
+          pollInterval: 100,
+        },
+      }
+    );
 
     const syncTimeouts = new Map<string, NodeJS.Timeout>();
 
     this.globalWatcher.on('all', async (event, filePath) => {
-      console.log(`[claude-local daemon] Global change detected: ${event} ${filePath}`);
+      this.logger.debug(`Global change detected: ${event} ${filePath}`);
 
-      // Determine which project this file belongs to by checking the parent directory
-      // and syncing only that specific project
-      for (const project of this.projects.values()) {
-        const projectGlobalPath = getGlobalProjectPath(globalPath, project.root);
+      // Sync only the project the file belongs to
+      const project = await this.findGlobalOwner(globalPath, filePath);
+      if (!project) {
+        return;
+      }
+      const key = project.root;
 
-        if (filePath.startsWith(projectGlobalPath)) {
-          const key = project.root;
+      if (syncTimeouts.has(key)) {
+        clearTimeout(syncTimeouts.get(key)!);
+      }
 
-          if (syncTimeouts.has(key)) {
-            clearTimeout(syncTimeouts.get(key)!);
-          }
+      const timeout = setTimeout(async () => {
+        await this.syncProject(project.root, 'to-local');
+        syncTimeouts.delete(key);
+      }, this.syncDebounceMs);
 
-          const timeout = setTimeout(async () => {
-            await this.syncProject(project.root, 'to-local');
-            syncTimeouts.delete(key);
-          }, this.syncDebounceMs);
+      syncTimeouts.set(key, timeout);
+    });
+  }
 
-          syncTimeouts.set(key, timeout);
-          break;
-        }
+  /**
+   * Find the monitored project a file in Claude Code's storage belongs to
+   * Files in ~/.claude/projects/ belong to the project of their directory,
+   * todos and file-history snapshots to the project holding their session.
+   */
+  private async findGlobalOwner(
+    globalPath: string,
+    filePath: string
+  ): Promise<MonitoredProject | undefined> {
+    const [kind, name] = relative(globalPath, filePath).split(sep);
+    const projects = Array.from(this.projects.values());
+    if (kind === 'projects') {
+      const projectPath = join(globalPath, kind, name);
+      return projects.find((project) => project.globalPath === projectPath);
+    }
+
+    const sessionId = getSessionId(`${kind}/${name}`);
+    for (const project of projects) {
+      if (await pathExists(join(project.globalPath, `${sessionId}.jsonl`))) {
+        return project;
       }
-    });
+    }
+    return undefined;
   }
 
   /**
    * Sync a specific project
+   * The project's .claude/sync.json is read on every sync, so changes to it
+   * apply without restarting the daemon
+   * @param force Sync even when paused or synced moments ago
    */
   private async syncProject(
     projectRoot: string,
-    direction: 'to-local' | 'to-global' | 'bidirectional'
+    requested: SyncDirection,
+    force = false
   ): Promise<void> {
     const project = this.projects.get(projectRoot);
     if (!project) return;
+    if (this.paused && !force) return;
 
     // Rate limiting: don't sync more than once per 5 seconds
     const now = Date.now();
-    if (now - project.lastSync < 5000) {
+    if (!force && now - project.lastSync < 5000) {
+      return;
+    }
+
+    let config: ProjectConfig;
+    try {
+      config = await this.configManager.getProjectConfig(projectRoot);
+    } catch (error) {
+      this.logError(`Skipping ${projectRoot}`, project, error);
       return;
     }
+    const direction = restrictDirection(requested, config.direction);
+    if (!config.enabled || !direction) {
+      return;
+    }
+
+    try {
+      await this.runSync(project, direction);
+    } catch {
+      // Logged and recorded by runSync
+    }
+
+    await this.pruneProject(project, config);
+    await this.indexProject(projectRoot);
+  }
+
+  /**
+   * Sync a project in one direction, logging and recording the outcome
+   * @throws If the sync fails
+   */
+  private async runSync(
+    project: MonitoredProject,
+    direction: SyncDirection
+  ): Promise<SyncResult> {
+    const projectRoot = project.root;
 
     try {
+      let result: SyncResult;
       if (direction === 'to-local') {
-        await this.storageManager.syncToLocal(projectRoot);
-        console.log(`[claude-local daemon] Synced ${projectRoot} to local`);
+        result = await this.storageManager.syncToLocal(projectRoot);
       } else if (direction === 'to-global') {
-        await this.storageManager.syncToGlobal(projectRoot);
-        console.log(`[claude-local daemon] Synced ${projectRoot} to global`);
+        result = await this.storageManager.syncToGlobal(projectRoot);
       } else {
-        await this.storageManager.syncToLocal(projectRoot, { bidirectional: true });
-        console.log(`[claude-local daemon] Bidirectional sync ${projectRoot}`);
+        result = await this.storageManager.syncToLocal(projectRoot, { bidirectional: true });
+      }
+      this.logger.sync(projectRoot, direction, result);
+      project.lastSync = Date.now();
+
+      if (result.errors.length > 0) {
+        this.recordError(project, result.errors[0]);
+      } else {
+        project.lastSyncedAt = Date.now();
+        project.lastError = null;
+      }
+      return result;
+    } catch (error) {
+      this.logError(`Sync error for ${projectRoot}`, project, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync a monitored project right away, even while paused
+   * @param direction Defaults to both, narrowed by the project's sync.json
+   * @throws If the project is not monitored, doesn't sync in that direction,
+   * or the sync fails
+   */
+  async syncNow(projectPath: string, direction: SyncDirection = 'both'): Promise<SyncResult> {
+    const projectRoot = resolvePath(projectPath);
+    const project = this.projects.get(projectRoot);
+    if (!project) {
+      throw new Error(`Not monitoring ${projectRoot}`);
+    }
+
+    const config = await this.configManager.getProjectConfig(projectRoot);
+    if (!config.enabled) {
+      throw new Error(`Sync is disabled for ${projectRoot}`);
+    }
+    const allowed = restrictDirection(direction, config.direction);
+    if (!allowed) {
+      throw new Error(`${projectRoot} only syncs ${config.direction}`);
+    }
+
+    const result = await this.runSync(project, allowed);
+    await this.pruneProject(project, config);
+    await this.indexProject(projectRoot);
+    return result;
+  }
+
+  /**
+   * Scan the search paths again for projects that aren't monitored yet
+   * @returns The projects found
+   */
+  async rescan(): Promise<string[]> {
+    const before = new Set(this.projects.keys());
+    await this.discoverProjects();
+    return Array.from(this.projects.keys()).filter((root) => !before.has(root));
+  }
+
+  /**
+   * Stop syncing on changes until resumed
+   * Projects are still watched, and syncNow still works.
+   */
+  pause(): void {
+    if (!this.paused) {
+      this.paused = true;
+      this.logger.info('Paused');
+    }
+  }
+
+  /**
+   * Sync on changes again, catching up on what changed while paused
+   */
+  async resume(): Promise<void> {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    this.logger.info('Resumed');
+
+    for (const projectRoot of this.projects.keys()) {
+      await this.syncProject(projectRoot, 'both', true);
+    }
+  }
+
+  /**
+   * Log an error and remember it for the status
+   */
+  private logError(context: string, project: MonitoredProject | null, error: unknown): void {
+    this.logger.error(context, error, project ? { project: project.root } : {});
+    this.recordError(project, error);
+  }
+
+  /**
+   * Remember an error for the status, keeping only the latest ones
+   */
+  private recordError(project: MonitoredProject | null, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    if (project) {
+      project.lastError = message;
+    }
+    this.recentErrors.push({
+      time: new Date().toISOString(),
+      project: project?.root ?? null,
+      message,
+    });
+    if (this.recentErrors.length > this.maxRecentErrors) {
+      this.recentErrors.splice(0, this.recentErrors.length - this.maxRecentErrors);
+    }
+  }
+
+  /**
+   * Bring the search indexes of a project's sessions up to date, so
+   * searches don't have to re-read what changed since
+   */
+  private async indexProject(projectRoot: string): Promise<void> {
+    try {
+      for (const source of await this.storageManager.getConversationSources(projectRoot)) {
+        await this.searchIndex.update(source);
       }
+    } catch (error) {
+      this.logError(`Index error for ${projectRoot}`, this.projects.get(projectRoot) ?? null, error);
+    }
+  }
+
+  /**
+   * Archive sessions beyond a project's retention limits, at most once an
+   * hour, when auto-prune is enabled
+   */
+  private async pruneProject(
+    project: MonitoredProject,
+    config: ProjectConfig
+  ): Promise<void> {
+    const now = Date.now();
+    if (!config.autoPrune || now - project.lastPrune < this.pruneIntervalMs) {
+      return;
+    }
+    project.lastPrune = now;
+
+    const policy = config.retention;
+    if (Object.keys(policy).length === 0) {
+      return;
+    }
 
-      project.lastSync = now;
+    try {
+      const plan = await this.historyPruner.planPrune(project.root, policy);
+      if (plan.archive.length === 0) {
+        return;
+      }
+      const result = await this.historyPruner.prune(plan);
+      this.logger.info(`Archived ${result.archived.length} session(s) of ${project.root}`, {
+        project: project.root,
+      });
+      result.errors.forEach((error) => {
+        this.logError(`Prune error for ${project.root}`, project, error);
+      });
     } catch (error) {
-      console.error(`[claude-local daemon] Sync error for ${projectRoot}:`, error);
+      this.logError(`Prune error for ${project.root}`, project, error);
     }
   }
 
@@ -271,7 +765,8 @@ export class SyncDaemon {
    * Stop the daemon
    */
   async stop(): Promise<void> {
-    console.log('[claude-local daemon] Stopping...');
+    this.logger.info('Stopping...');
+    await notifySystemd('STOPPING=1');
 
     // Close all project watchers
     for (const project of this.projects.values()) {
@@ -284,22 +779,45 @@ export class SyncDaemon {
       this.globalWatcher = null;
     }
 
+    // Close the watchers for new projects and the config
+    for (const watcher of this.searchWatchers.values()) {
+      await watcher.close();
+    }
+    this.searchWatchers.clear();
+    if (this.configWatcher) {
+      await this.configWatcher.close();
+      this.configWatcher = null;
+    }
+
     this.projects.clear();
-    console.log('[claude-local daemon] Stopped');
+    this.startedAt = null;
+    this.logger.info('Stopped');
+    await this.logger.flush();
   }
 
   /**
-   * Get daemon status
+   * Get daemon status, including when each project last synced and the
+   * latest errors
    */
-  getStatus(): {
-    running: boolean;
-    projectCount: number;
-    projects: string[];
-  } {
+  getStatus(): DaemonStatus {
+    const projects = Array.from(this.projects.values());
     return {
       running: this.projects.size > 0 || this.globalWatcher !== null,
+      paused: this.paused,
+      pid: process.pid,
+      startedAt: this.startedAt ? new Date(this.startedAt).toISOString() : null,
+      searchPaths: this.searchPaths,
+      trackedProjects: this.trackedProjects,
       projectCount: this.projects.size,
-      projects: Array.from(this.projects.keys()),
+      projects: projects.map((project) => project.root),
+      projectDetails: projects.map((project) => ({
+        root: project.root,
+        lastSyncedAt: project.lastSyncedAt
+          ? new Date(project.lastSyncedAt).toISOString()
+          : null,
+        lastError: project.lastError,
+      })),
+      recentErrors: [...this.recentErrors],
     };
   }
 }
@@ -0,0 +1,168 @@
+import { relative } from 'node:path';
+import type {
+  PrunePlan,
+  PruneResult,
+  RetentionPolicy,
+  SessionInfo,
+} from '../types/index.js';
+import {
+  getHistoryPath,
+  getLocalStoragePath,
+  getSessionId,
+} from '../utils/paths.js';
+import { getRecentlyChangedFiles } from '../utils/git.js';
+import { StorageManager } from './storage-manager.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+/**
+ * Applies retention limits to a project's history
+ *
+ * Sessions are ranked newest first by their last entry. A session is
+ * archived when it is older than the age limit, or when keeping it would go
+ * over the session count or size limit; older sessions make way for newer
+ * ones. Sessions changed in the project's recent commits are always kept.
+ */
+export class HistoryPruner {
+  private storageManager: StorageManager;
+
+  constructor(storageManager: StorageManager) {
+    this.storageManager = storageManager;
+  }
+
+  /**
+   * Work out which sessions a policy would archive, without changing anything
+   */
+  async planPrune(
+    projectRoot: string,
+    policy: RetentionPolicy,
+    now: number = Date.now()
+  ): Promise<PrunePlan> {
+    const sessions = (await this.storageManager.listSessions(projectRoot)).sort(
+      (a, b) => b.updatedAt.localeCompare(a.updatedAt)
+    );
+    const pinned = policy.keepRecentCommits
+      ? await this.getRecentlyCommittedSessions(
+          projectRoot,
+          policy.keepRecentCommits
+        )
+      : new Set<string>();
+
+    const plan: PrunePlan = { projectRoot, policy, kept: [], archive: [] };
+    let keptSize = 0;
+    // Once a count or size limit is reached, every older session is archived
+    let limitReason: string | null = null;
+
+    for (const session of sessions) {
+      let reason: string | null = null;
+      if (!pinned.has(session.id)) {
+        reason = this.getAgeReason(session, policy, now);
+        if (!reason) {
+          limitReason =
+            limitReason ||
+            this.getLimitReason(
+              policy,
+              plan.kept.length,
+              keptSize + session.size
+            );
+          reason = limitReason;
+        }
+      }
+
+      if (reason) {
+        plan.archive.push({ ...session, reason });
+        continue;
+      }
+      plan.kept.push(session);
+      keptSize += session.size;
+    }
+
+    return plan;
+  }
+
+  /**
+   * Archive the sessions of a prune plan
+   */
+  async prune(plan: PrunePlan): Promise<PruneResult> {
+    const archived: string[] = [];
+    const errors: Error[] = [];
+
+    for (const session of plan.archive) {
+      try {
+        await this.storageManager.deleteSession(plan.projectRoot, session.id, {
+          archive: true,
+        });
+        archived.push(session.id);
+      } catch (error) {
+        errors.push(
+          error instanceof Error
+            ? error
+            : new Error(`Failed to archive ${session.id}`)
+        );
+      }
+    }
+
+    return { success: errors.length === 0, archived, errors };
+  }
+
+  /**
+   * Check a session against the age limit
+   */
+  private getAgeReason(
+    session: SessionInfo,
+    policy: RetentionPolicy,
+    now: number
+  ): string | null {
+    if (
+      policy.maxAgeDays !== undefined &&
+      now - new Date(session.updatedAt).getTime() > policy.maxAgeDays * DAY_MS
+    ) {
+      return `not updated for more than ${policy.maxAgeDays} days`;
+    }
+    return null;
+  }
+
+  /**
+   * Check whether keeping one more session would exceed the count or size
+   * limit
+   * @param keptCount Sessions kept so far
+   * @param totalSize Size of the sessions kept so far plus this one
+   */
+  private getLimitReason(
+    policy: RetentionPolicy,
+    keptCount: number,
+    totalSize: number
+  ): string | null {
+    if (policy.maxSessions !== undefined && keptCount >= policy.maxSessions) {
+      return `more than ${policy.maxSessions} sessions`;
+    }
+    if (
+      policy.maxTotalSizeMB !== undefined &&
+      totalSize > policy.maxTotalSizeMB * MB
+    ) {
+      return `history over ${policy.maxTotalSizeMB} MB`;
+    }
+    return null;
+  }
+
+  /**
+   * Get the sessions changed in a project's last commits
+   */
+  private async getRecentlyCommittedSessions(
+    projectRoot: string,
+    commits: number
+  ): Promise<Set<string>> {
+    const historyPath = relative(
+      projectRoot,
+      getHistoryPath(getLocalStoragePath(projectRoot))
+    );
+    const files = await getRecentlyChangedFiles(projectRoot, commits);
+
+    return new Set(
+      files
+        .filter((file) => file.startsWith(historyPath + '/'))
+        .map((file) => getSessionId(file.slice(historyPath.length + 1)))
+    );
+  }
+}
@@ -0,0 +1,306 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  EncryptionConfig,
+  KeySource,
+  ProjectKey,
+} from '../types/index.js';
+import {
+  getKeyStorePath,
+  getLocalStoragePath,
+  pathExists,
+} from '../utils/paths.js';
+import { writeFileAtomic } from '../utils/atomic.js';
+import {
+  SCRYPT_LIMITS,
+  SCRYPT_PARAMS,
+  decodeKey,
+  deriveKey,
+  encodeKey,
+  generateKey,
+  generateSalt,
+  getKeyId,
+} from '../utils/crypto.js';
+
+/**
+ * File name of a project's encryption settings inside its .claude directory
+ */
+export const ENCRYPTION_CONFIG_FILE = 'encryption.json';
+
+/**
+ * Check whether a value is a whole number from 1 to a limit
+ */
+function isCount(value: unknown, max: number): boolean {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= 1 &&
+    (value as number) <= max
+  );
+}
+
+/**
+ * Check the key derivation settings of a project's encryption settings
+ */
+function isValidKdf(kdf: EncryptionConfig['kdf']): boolean {
+  if (kdf === undefined) {
+    return true;
+  }
+  return (
+    kdf !== null &&
+    typeof kdf === 'object' &&
+    kdf.name === 'scrypt' &&
+    isCount(kdf.N, SCRYPT_LIMITS.N) &&
+    kdf.N > 1 &&
+    (kdf.N & (kdf.N - 1)) === 0 &&
+    isCount(kdf.r, SCRYPT_LIMITS.r) &&
+    isCount(kdf.p, SCRYPT_LIMITS.p) &&
+    typeof kdf.salt === 'string' &&
+    kdf.salt.length % 4 === 0 &&
+    /^[A-Za-z0-9+/]+={0,2}$/.test(kdf.salt)
+  );
+}
+
+/**
+ * Manages the keys projects encrypt their local history with
+ *
+ * A project's .claude/encryption.json is committed and names the current key
+ * by ID. The keys themselves stay outside the repository, in a per-user key
+ * store, or come from CLAUDE_SYNC_KEY or CLAUDE_SYNC_PASSPHRASE.
+ */
+export class KeyManager {
+  private keyStorePath: string;
+
+  constructor(keyStorePath?: string) {
+    this.keyStorePath = keyStorePath || getKeyStorePath();
+  }
+
+  /**
+   * Load a project's encryption settings
+   * @returns null when the project's history is not encrypted
+   */
+  async loadConfig(projectRoot: string): Promise<EncryptionConfig | null> {
+    const configPath = this.getConfigPath(projectRoot);
+    if (!(await pathExists(configPath))) {
+      return null;
+    }
+
+    const config = JSON.parse(await readFile(configPath, 'utf-8'));
+    if (
+      config.version !== 1 ||
+      config.cipher !== 'aes-256-gcm' ||
+      !config.keyId ||
+      !isValidKdf(config.kdf)
+    ) {
+      throw new Error(`Unsupported encryption settings in ${configPath}`);
+    }
+    return config as EncryptionConfig;
+  }
+
+  /**
+   * Get the key a project's history is encrypted with
+   * @returns null when the project's history is not encrypted
+   * @throws If the history is encrypted and the key is not available
+   */
+  async getProjectKey(projectRoot: string): Promise<ProjectKey | null> {
+    const config = await this.loadConfig(projectRoot);
+    if (!config) {
+      return null;
+    }
+
+    const key = await this.findKey(config.keyId, config);
+    if (!key) {
+      throw new Error(
+        `No key for this project's encrypted history (key ${config.keyId}). ` +
+          'Run claude-sync key init with the shared key file or passphrase'
+      );
+    }
+    return { keyId: config.keyId, key };
+  }
+
+  /**
+   * Get a key by ID, such as the previous key of a rotated project
+   */
+  async getStoredKey(keyId: string): Promise<Buffer | null> {
+    return this.findKey(keyId, null);
+  }
+
+  /**
+   * Set up encryption for a project, or add the key of a project that is
+   * already encrypted to this machine
+   * @returns The project's key, and whether encryption was newly turned on
+   */
+  async initKey(
+    projectRoot: string,
+    source: KeySource = {}
+  ): Promise<ProjectKey & { created: boolean }> {
+    const config = await this.loadConfig(projectRoot);
+
+    if (config) {
+      let key: Buffer;
+      if (source.passphrase !== undefined) {
+        if (!config.kdf) {
+          throw new Error('This project uses a key file, not a passphrase');
+        }
+        key = await deriveKey(
+          source.passphrase,
+          Buffer.from(config.kdf.salt, 'base64'),
+          config.kdf
+        );
+      } else if (source.keyFile) {
+        key = decodeKey(await readFile(source.keyFile, 'utf-8'));
+      } else {
+        throw new Error(
+          'History is already encrypted: provide its key file or passphrase'
+        );
+      }
+
+      if (getKeyId(key) !== config.keyId) {
+        throw new Error(
+          `Key does not match this project (expected key ${config.keyId})`
+        );
+      }
+      await this.storeKey(key);
+      return { keyId: config.keyId, key, created: false };
+    }
+
+    const created = await this.createKey(source);
+    await this.storeKey(created.key);
+    await this.saveConfig(projectRoot, created.config);
+    return { keyId: created.config.keyId, key: created.key, created: true };
+  }
+
+  /**
+   * Switch a project to a new key
+   * The previous key stays in the key store so files not yet re-encrypted
+   * can still be read
+   */
+  async rotateKey(
+    projectRoot: string,
+    source: KeySource = {}
+  ): Promise<ProjectKey> {
+    const current = await this.getProjectKey(projectRoot);
+    if (!current) {
+      throw new Error(
+        'History is not encrypted: run claude-sync key init first'
+      );
+    }
+
+    const created = await this.createKey(source);
+    if (created.config.keyId === current.keyId) {
+      throw new Error('The new key is the same as the current key');
+    }
+
+    await this.storeKey(created.key);
+    await this.saveConfig(projectRoot, created.config);
+    return { keyId: created.config.keyId, key: created.key };
+  }
+
+  /**
+   * Export a project's key as text, for sharing with teammates
+   */
+  async exportKey(projectRoot: string): Promise<string> {
+    const projectKey = await this.getProjectKey(projectRoot);
+    if (!projectKey) {
+      throw new Error(
+        'History is not encrypted: run claude-sync key init first'
+      );
+    }
+    return encodeKey(projectKey.key);
+  }
+
+  /**
+   * Create a key from a source, along with the settings describing it
+   */
+  private async createKey(
+    source: KeySource
+  ): Promise<{ key: Buffer; config: EncryptionConfig }> {
+    let key: Buffer;
+    let kdf: EncryptionConfig['kdf'];
+
+    if (source.passphrase !== undefined) {
+      if (source.passphrase.length === 0) {
+        throw new Error('Passphrase must not be empty');
+      }
+      const salt = generateSalt();
+      key = await deriveKey(source.passphrase, salt);
+      kdf = { name: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS };
+    } else if (source.keyFile && (await pathExists(source.keyFile))) {
+      key = decodeKey(await readFile(source.keyFile, 'utf-8'));
+    } else {
+      key = generateKey();
+      if (source.keyFile) {
+        await writeFile(source.keyFile, encodeKey(key) + '\n', { mode: 0o600 });
+      }
+    }
+
+    return {
+      key,
+      config: { version: 1, cipher: 'aes-256-gcm', keyId: getKeyId(key), kdf },
+    };
+  }
+
+  /**
+   * Look a key up in the key store, then in the environment
+   */
+  private async findKey(
+    keyId: string,
+    config: EncryptionConfig | null
+  ): Promise<Buffer | null> {
+    const keyPath = join(this.keyStorePath, `${keyId}.key`);
+    if (await pathExists(keyPath)) {
+      return decodeKey(await readFile(keyPath, 'utf-8'));
+    }
+
+    const envKey = process.env.CLAUDE_SYNC_KEY;
+    if (envKey) {
+      const key = decodeKey(envKey);
+      if (getKeyId(key) === keyId) {
+        return key;
+      }
+    }
+
+    const passphrase = process.env.CLAUDE_SYNC_PASSPHRASE;
+    if (passphrase && config?.kdf) {
+      const key = await deriveKey(
+        passphrase,
+        Buffer.from(config.kdf.salt, 'base64'),
+        config.kdf
+      );
+      if (getKeyId(key) === keyId) {
+        return key;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Save a key in the key store, readable only by the current user
+   */
+  private async storeKey(key: Buffer): Promise<void> {
+    await mkdir(this.keyStorePath, { recursive: true, mode: 0o700 });
+    const keyPath = join(this.keyStorePath, `${getKeyId(key)}.key`);
+    await writeFile(keyPath, encodeKey(key) + '\n', { mode: 0o600 });
+  }
+
+  /**
+   * Write a project's encryption settings
+   */
+  private async saveConfig(
+    projectRoot: string,
+    config: EncryptionConfig
+  ): Promise<void> {
+    await mkdir(getLocalStoragePath(projectRoot), { recursive: true });
+    await writeFileAtomic(
+      this.getConfigPath(projectRoot),
+      JSON.stringify(config, null, 2) + '\n'
+    );
+  }
+
+  /**
+   * Get the path of a project's encryption settings
+   */
+  private getConfigPath(projectRoot: string): string {
+    return join(getLocalStoragePath(projectRoot), ENCRYPTION_CONFIG_FILE);
+  }
+}
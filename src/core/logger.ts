@@ -0,0 +1,176 @@
+import { appendFile, mkdir, rename, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type {
+  LogLevel,
+  LogRecord,
+  LoggerOptions,
+  SyncDirection,
+  SyncResult,
+} from '../types/index.js';
+import { DEFAULT_LOG_FILES, getLogFiles, isAtLeast } from '../utils/logs.js';
+
+/**
+ * Fields recorded with a log message
+ */
+type LogFields = Omit<LogRecord, 'time' | 'level' | 'message'>;
+
+/**
+ * Writes the daemon's log as JSON lines, rotating the file by size
+ *
+ * Records are also printed to the console, prefixed like the daemon's
+ * output always was, so running in the foreground or under systemd still
+ * shows them. Writes are queued so records keep their order.
+ */
+export class Logger {
+  private file?: string;
+  private level: LogLevel;
+  private maxBytes: number;
+  private maxFiles: number;
+  private echo: boolean;
+  private size: number | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: LoggerOptions = {}) {
+    this.file = options.file;
+    this.level = options.level || 'info';
+    this.maxBytes = options.maxBytes ?? 5 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? DEFAULT_LOG_FILES;
+    this.echo = options.echo ?? true;
+  }
+
+  /**
+   * Get the least severe level that is logged
+   */
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  /**
+   * Change the least severe level that is logged
+   */
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  debug(message: string, fields: LogFields = {}): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields: LogFields = {}): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields: LogFields = {}): void {
+    this.log('warn', message, fields);
+  }
+
+  /**
+   * Log an error, recording the message of what was thrown
+   */
+  error(message: string, error?: unknown, fields: LogFields = {}): void {
+    this.log('error', message, {
+      ...fields,
+      ...(error !== undefined && {
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    });
+  }
+
+  /**
+   * Log the outcome of a sync with its project, direction, file count and
+   * duration; a sync with errors is logged as a warning
+   */
+  sync(
+    projectRoot: string,
+    direction: SyncDirection,
+    result: SyncResult
+  ): void {
+    const summary =
+      `Synced ${projectRoot} (${direction}): ${result.filesProcessed} file(s) updated, ` +
+      `${result.filesDeleted} deleted (${result.linesCopied} lines copied, ` +
+      `${result.linesMerged} merged, ${result.bytesTransferred} bytes written)`;
+    this.log(result.success ? 'info' : 'warn', summary, {
+      project: projectRoot,
+      direction,
+      files: result.filesProcessed + result.filesDeleted,
+      durationMs: result.duration,
+      ...(result.errors.length > 0 && {
+        error: result.errors.map((error) => error.message).join('; '),
+      }),
+    });
+  }
+
+  /**
+   * Wait until every record logged so far is written
+   */
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields): void {
+    if (!isAtLeast(level, this.level)) {
+      return;
+    }
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...fields,
+    };
+
+    if (this.echo) {
+      const line = `[claude-local daemon] ${message}`;
+      if (level === 'error' || level === 'warn') {
+        console.error(record.error ? `${line}: ${record.error}` : line);
+      } else {
+        console.log(line);
+      }
+    }
+
+    if (this.file) {
+      const file = this.file;
+      const line = JSON.stringify(record) + '\n';
+      this.queue = this.queue
+        .then(() => this.append(file, line))
+        .catch((error) => {
+          // Logging must never take the daemon down
+          console.error(
+            `[claude-local daemon] Could not write ${file}:`,
+            error
+          );
+        });
+    }
+  }
+
+  /**
+   * Append a line, rotating the file first when it would grow too big
+   */
+  private async append(file: string, line: string): Promise<void> {
+    if (this.size === null) {
+      await mkdir(dirname(file), { recursive: true });
+      this.size = await stat(file).then(
+        (stats) => stats.size,
+        () => 0
+      );
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      await this.rotate(file);
+      this.size = 0;
+    }
+    await appendFile(file, line);
+    this.size += bytes;
+  }
+
+  /**
+   * Shift file.1 to file.2 and so on, dropping the oldest, then move the
+   * log to file.1
+   */
+  private async rotate(file: string): Promise<void> {
+    const files = getLogFiles(file, this.maxFiles);
+    for (let i = 1; i < files.length; i++) {
+      await rename(files[i], files[i - 1]).catch(() => {});
+    }
+  }
+}
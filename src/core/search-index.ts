@@ -0,0 +1,194 @@
+import { mkdir, readFile, readdir, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ConversationSource, SearchIndexData } from '../types/index.js';
+import { getIndexPath } from '../utils/paths.js';
+import { hashContent } from '../utils/hash.js';
+import { writeFileAtomic } from '../utils/atomic.js';
+import { readConversation } from '../utils/conversation-reader.js';
+import { getSearchableText, tokenize } from '../utils/search.js';
+
+/**
+ * On-disk inverted index of the words in session files
+ *
+ * Each directory of session files has its own index, mapping every word to
+ * the sessions it occurs in. Indexes are brought up to date before use by
+ * re-reading only the sessions whose size or modification time changed.
+ */
+export class SearchIndex {
+  private indexPath: string;
+
+  constructor(indexPath?: string) {
+    this.indexPath = indexPath || getIndexPath();
+  }
+
+  /**
+   * Bring the index of a directory up to date
+   * @returns The updated index
+   */
+  async update(source: ConversationSource): Promise<SearchIndexData> {
+    const index = await this.load(source.path);
+    const files = await this.listSessionFiles(source.path);
+    const current = new Map<string, { size: number; mtimeMs: number }>();
+
+    for (const file of files) {
+      const fileStat = await stat(join(source.path, file)).catch(() => null);
+      if (fileStat) {
+        current.set(file, { size: fileStat.size, mtimeMs: fileStat.mtimeMs });
+      }
+    }
+
+    const stale = new Set(
+      Object.keys(index.files).filter((file) => {
+        const known = index.files[file];
+        const now = current.get(file);
+        return !now || now.size !== known.size || now.mtimeMs !== known.mtimeMs;
+      })
+    );
+    const added = Array.from(current.keys()).filter(
+      (file) => stale.has(file) || !index.files[file]
+    );
+    if (stale.size === 0 && added.length === 0) {
+      return index;
+    }
+
+    this.removeFiles(index, stale);
+    for (const file of added) {
+      const words = await this.readWords(source, file).catch(() => null);
+      if (!words) {
+        // Unreadable, such as encrypted without a key: retried next time
+        continue;
+      }
+      for (const word of words) {
+        (index.terms[word] ||= []).push(file);
+      }
+      index.files[file] = current.get(file)!;
+    }
+
+    await mkdir(this.indexPath, { recursive: true });
+    await writeFileAtomic(
+      this.getIndexFile(source.path),
+      JSON.stringify(index)
+    );
+    return index;
+  }
+
+  /**
+   * Find the session files of an index that may contain some text
+   * Every word of the text has to occur, in full or in part, in a session
+   * for it to be returned, so the result includes every session that
+   * contains the text itself.
+   */
+  findSessions(index: SearchIndexData, text: string): string[] {
+    let candidates = new Set(Object.keys(index.files));
+    const terms = Object.keys(index.terms);
+
+    for (const word of new Set(tokenize(text))) {
+      const matches = new Set<string>();
+      for (const term of terms) {
+        if (term.includes(word)) {
+          index.terms[term].forEach((file) => matches.add(file));
+        }
+      }
+      candidates = new Set(
+        Array.from(candidates).filter((file) => matches.has(file))
+      );
+    }
+
+    return Array.from(candidates).sort();
+  }
+
+  /**
+   * Load the index of a directory, or an empty one
+   */
+  private async load(directory: string): Promise<SearchIndexData> {
+    try {
+      const data = JSON.parse(
+        await readFile(this.getIndexFile(directory), 'utf-8')
+      ) as SearchIndexData;
+      if (data.version === 1 && data.directory === directory) {
+        return {
+          ...data,
+          terms: Object.assign(this.createTerms(), data.terms),
+        };
+      }
+    } catch {
+      // Missing or unreadable: rebuilt from scratch
+    }
+    return { version: 1, directory, files: {}, terms: this.createTerms() };
+  }
+
+  /**
+   * Create an empty term map
+   * It has no prototype, so words such as "constructor" are plain keys
+   */
+  private createTerms(): SearchIndexData['terms'] {
+    return Object.create(null);
+  }
+
+  /**
+   * Drop files from an index
+   */
+  private removeFiles(index: SearchIndexData, files: Set<string>): void {
+    if (files.size === 0) {
+      return;
+    }
+    for (const file of files) {
+      delete index.files[file];
+    }
+    for (const [term, postings] of Object.entries(index.terms)) {
+      const remaining = postings.filter((file) => !files.has(file));
+      if (remaining.length > 0) {
+        index.terms[term] = remaining;
+      } else {
+        delete index.terms[term];
+      }
+    }
+  }
+
+  /**
+   * Read the distinct words of a session's searchable text
+   */
+  private async readWords(
+    source: ConversationSource,
+    file: string
+  ): Promise<Set<string>> {
+    const words = new Set<string>();
+    for await (const entry of readConversation(
+      join(source.path, file),
+      source
+    )) {
+      const searchable = getSearchableText(entry);
+      if (searchable) {
+        tokenize(searchable.text).forEach((word) => words.add(word));
+      }
+    }
+    return words;
+  }
+
+  /**
+   * List the session files of a directory
+   */
+  private async listSessionFiles(directory: string): Promise<string[]> {
+    try {
+      const entries = await readdir(directory, { withFileTypes: true });
+      return entries
+        .filter(
+          (entry) =>
+            entry.isFile() &&
+            !entry.name.startsWith('.') &&
+            entry.name.endsWith('.jsonl')
+        )
+        .map((entry) => entry.name)
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get the index file of a directory
+   */
+  private getIndexFile(directory: string): string {
+    return join(this.indexPath, `${hashContent(directory).slice(0, 16)}.json`);
+  }
+}
@@ -1,18 +1,191 @@
-import { mkdir, readdir, copyFile, stat, rm } from 'node:fs/promises';
-import { join, basename } from 'node:path';
+import { mkdir, readdir, stat, rm, readFile, appendFile } from 'node:fs/promises';
+import { join, basename, dirname } from 'node:path';
 import type {
   StorageLocation,
   SyncResult,
+  SyncDirection,
   ConversationMetadata,
+  ConversationListing,
+  ConversationEntry,
+  ConversationSource,
+  FileFingerprint,
+  FileSyncState,
+  StorageManagerOptions,
+  SessionInfo,
+  SyncAction,
+  SyncPlan,
+  SyncedPrefix,
+  ProjectKey,
+  ProjectSyncConfig,
+  RedactionRuleConfig,
+  HistoryBundle,
+  BundleImportResult,
+  SessionDiff,
+  SessionDiffState,
 } from '../types/index.js';
 import {
   getGlobalStoragePath,
   getLocalStoragePath,
   getHistoryPath,
-  getGlobalProjectPath,
+  getArchivePath,
+  getSessionId,
+  encodeProjectPath,
+  resolveGlobalProjectPath,
+  listFilesRecursive,
   pathExists,
   isWritable,
 } from '../utils/paths.js';
+import { mergeJsonl, countJsonlLines } from '../utils/jsonl-merge.js';
+import { diffJsonl } from '../utils/jsonl-diff.js';
+import { fingerprintContent, hashContent } from '../utils/hash.js';
+import { detectOriginalRoot, relocateSessionPaths } from '../utils/relocate.js';
+import {
+  BUILTIN_REDACTION_RULES,
+  compileRedactionRules,
+  redactContent,
+  type Redaction,
+  type RedactionRule,
+} from '../utils/redact.js';
+import {
+  decryptContent,
+  encryptContent,
+  getContentKeyId,
+  isEncrypted,
+} from '../utils/crypto.js';
+import {
+  isFileIncluded,
+  loadProjectConfig,
+  mergeRedactionRules,
+} from '../utils/project-config.js';
+import {
+  readConversation,
+  readConversationMetadata,
+  type ReadConversationOptions,
+} from '../utils/conversation-reader.js';
+import { writeFileAtomic } from '../utils/atomic.js';
+import { createBundle, getToolVersion } from '../utils/bundle.js';
+import { withLock } from '../utils/lock.js';
+import { SyncManifest, SYNC_LOCK_FILE } from './sync-manifest.js';
+import { KeyManager } from './key-manager.js';
+
+/**
+ * Outcome of transferring a single conversation file
+ */
+interface FileTransfer {
+  /** Whether the destination was written */
+  changed: boolean;
+  /** Lines written by copying a whole file */
+  linesCopied: number;
+  /** Lines added to an existing file by merging */
+  linesMerged: number;
+  /** Bytes written */
+  bytesTransferred: number;
+  /** Whether a copy was removed to propagate a deletion */
+  deleted?: boolean;
+}
+
+/**
+ * One side of a conversation file as read during a sync
+ */
+interface SideContent {
+  path: string;
+  content: Buffer | null;
+  print: FileFingerprint | null;
+}
+
+/**
+ * Both sides of a conversation file as read during a sync
+ * The local side is decrypted if the history is encrypted. The global side is transformed the way it would be written locally
+ * (mapped to the local copy's paths and redacted), so the two can be
+ * compared and merged directly
+ */
+interface FileSides {
+  local: SideContent;
+  global: SideContent;
+  /** Global content as stored, before it was transformed */
+  globalRaw: Buffer | null;
+  /** Project root the local copy's paths refer to, if not the current one */
+  originalRoot?: string;
+  /** Secrets redacted from the global content */
+  redactions: Redaction[];
+}
+
+/**
+ * The directories a sync works on
+ */
+interface SyncTarget
+  extends Pick<SyncPlan, 'projectRoot' | 'localPath' | 'globalPath'> {
+  /** Key local copies are encrypted with, if the history is encrypted */
+  key: ProjectKey | null;
+  /** The project's own settings from .claude/sync.json */
+  config: ProjectSyncConfig;
+  /** Detectors applied to global content synced into the project */
+  redactionRules: RedactionRule[];
+}
+
+/**
+ * Per-session data Claude Code keeps outside the session file, by the
+ * subfolder of .claude/history it is synced to:
+ * - todos: ~/.claude/todos/<session>-*.json
+ * - file-history: ~/.claude/file-history/<session>/ (file snapshots)
+ * - sessions: ~/.claude/projects/<project>/<session>/ (subagent transcripts)
+ */
+type CompanionKind = 'todos' | 'file-history' | 'sessions';
+
+const COMPANION_KINDS: readonly string[] = ['todos', 'file-history', 'sessions'];
+
+const NO_TRANSFER: FileTransfer = {
+  changed: false,
+  linesCopied: 0,
+  linesMerged: 0,
+  bytesTransferred: 0,
+};
+const DELETED: FileTransfer = {
+  changed: true,
+  linesCopied: 0,
+  linesMerged: 0,
+  bytesTransferred: 0,
+  deleted: true,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * File in the project's .claude directory recording applied redactions
+ */
+const REDACTION_LOG_FILE = 'redactions.log';
+
+/**
+ * Count the session lines in a file's content (zero for non-session files)
+ */
+function countLines(file: string, content: Buffer): number {
+  return file.endsWith('.jsonl') ? countJsonlLines(content.toString('utf-8')) : 0;
+}
+
+/**
+ * Get the timestamp of the last entry of a session that has one
+ */
+function getLastTimestamp(content: string): string | null {
+  const lines = content.split('\n');
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      const timestamp = JSON.parse(lines[i]).timestamp;
+      if (typeof timestamp === 'string') {
+        return timestamp;
+      }
+    } catch {
+      // Blank or partial line
+    }
+  }
+  return null;
+}
+
+/**
+ * Describe content as a prefix that later content may extend
+ */
+function toPrefix(content: Buffer): SyncedPrefix {
+  return { offset: content.length, hash: hashContent(content) };
+}
 
 /**
  * Manages conversation history storage across global and local locations
@@ -20,9 +193,21 @@ import {
 export class StorageManager {
   private globalPath: string;
   private localPath: string | null = null;
+  private tombstoneGraceMs: number;
+  private redactSecrets: boolean;
+  private redactionRules: RedactionRuleConfig[];
+  private keyManager: KeyManager;
+  private archivePath: string;
 
-  constructor(globalPath?: string) {
+  constructor(globalPath?: string, options: StorageManagerOptions = {}) {
     this.globalPath = globalPath || getGlobalStoragePath();
+    this.tombstoneGraceMs = (options.tombstoneGraceDays ?? 30) * DAY_MS;
+    this.redactSecrets = options.redactSecrets !== false;
+    this.redactionRules = options.redactionRules || [];
+    // Fail early on invalid rules rather than on the first sync
+    compileRedactionRules(this.redactionRules);
+    this.keyManager = new KeyManager(options.keyStorePath);
+    this.archivePath = options.archivePath || getArchivePath();
   }
 
   /**
@@ -44,7 +229,11 @@ This directory contains local conversation history for this project.
 ## Structure
 
 - \`history/\`: Conversation history files
-- \`config.json\`: Local configuration (if present)
+  - \`history/todos/\`: Todo lists of each session
+  - \`history/file-history/<session>/\`: Snapshots of files edited in a session
+  - \`history/sessions/<session>/\`: Subagent transcripts of a session
+- \`sync.json\`: Sync settings of this project (if present)
+- \`encryption.json\`: ID of the key history is encrypted with (if present)
 
 ## .gitignore
 
@@ -60,15 +249,13 @@ This ensures conversation history stays local and doesn't get committed to versi
 
 ## Management
 
-Use \`claude-local\` CLI to manage local storage:
+Use \`claude-sync\` CLI to manage local storage:
 
-- \`claude-local init\`: Initialize local storage
-- \`claude-local sync\`: Sync conversations
-- \`claude-local status\`: Check storage status
+- \`claude-sync sync\`: Sync conversations (\`--dry-run\` to preview)
+- \`claude-sync status\`: Check storage status
 `;
 
-    const { writeFile } = await import('node:fs/promises');
-    await writeFile(readmePath, readmeContent);
+    await writeFileAtomic(readmePath, readmeContent);
   }
 
   /**
@@ -83,7 +270,7 @@ Use \`claude-local\` CLI to manage local storage:
 
     if (projectRoot) {
       // Get the specific project's global storage path
-      globalPath = getGlobalProjectPath(this.globalPath, projectRoot);
+      globalPath = await resolveGlobalProjectPath(this.globalPath, projectRoot);
       globalExists = await pathExists(globalPath);
     } else {
       // Check if projects directory exists
@@ -124,181 +311,1407 @@ Use \`claude-local\` CLI to manage local storage:
   async syncToLocal(
     projectRoot: string,
     options: { bidirectional?: boolean } = {}
+  ): Promise<SyncResult> {
+    return this.syncProject(
+      projectRoot,
+      options.bidirectional ? 'both' : 'to-local'
+    );
+  }
+
+  /**
+   * Sync conversations from local to global storage (reverse sync)
+   * This makes local conversations available in Claude Code
+   */
+  async syncToGlobal(projectRoot: string): Promise<SyncResult> {
+    return this.syncProject(projectRoot, 'to-global');
+  }
+
+  /**
+   * Plan and apply a sync in the given direction
+   */
+  private async syncProject(
+    projectRoot: string,
+    direction: SyncDirection
   ): Promise<SyncResult> {
     const startTime = Date.now();
-    const errors: Error[] = [];
-    let filesProcessed = 0;
 
     try {
-      const localPath = getLocalStoragePath(projectRoot);
-      const localHistoryPath = getHistoryPath(localPath);
+      const plan = await this.planSync(projectRoot, direction);
+      const result = await this.applySyncPlan(plan);
+      return { ...result, duration: Date.now() - startTime };
+    } catch (error) {
+      return {
+        success: false,
+        filesProcessed: 0,
+        filesDeleted: 0,
+        linesCopied: 0,
+        linesMerged: 0,
+        bytesTransferred: 0,
+        errors: [error instanceof Error ? error : new Error('Sync failed')],
+        duration: Date.now() - startTime,
+      };
+    }
+  }
+
+  /**
+   * Work out what a sync would do, without changing anything
+   *
+   * Each file is classified against the sync manifest: a change on one side
+   * is copied over the other side, a change on both sides is merged, and a
+   * deletion on one side is propagated to the other.
+   */
+  async planSync(
+    projectRoot: string,
+    direction: SyncDirection = 'both'
+  ): Promise<SyncPlan> {
+    const target = await this.resolveTarget(projectRoot);
+    const manifest = await this.loadManifest(target.localPath);
+    const actions: SyncAction[] = [];
+
+    for (const file of await this.listSyncFiles(target, manifest)) {
+      const { local, global } = await this.readSides(file, target, manifest);
+      const state = this.classifyFile(file, local.print, global.print, manifest);
+      actions.push(this.decideAction(file, state, local.print, global.print, direction));
+    }
+
+    const { localPath, globalPath } = target;
+    return { projectRoot, direction, localPath, globalPath, actions };
+  }
+
+  /**
+   * Work out the directories, key and settings a sync of a project uses
+   */
+  private async resolveTarget(projectRoot: string): Promise<SyncTarget> {
+    const config = await loadProjectConfig(projectRoot);
+    return {
+      projectRoot,
+      localPath: getHistoryPath(getLocalStoragePath(projectRoot)),
       // Claude Code stores project conversations in ~/.claude/projects/<encoded-path>/
-      const globalProjectPath = getGlobalProjectPath(this.globalPath, projectRoot);
+      globalPath: await resolveGlobalProjectPath(this.globalPath, projectRoot),
+      key: await this.keyManager.getProjectKey(projectRoot),
+      config,
+      redactionRules: this.getRedactionRules(config),
+    };
+  }
 
-      // Ensure local storage is initialized
-      if (!(await pathExists(localHistoryPath))) {
-        await this.initializeLocalStorage(projectRoot);
-      }
+  /**
+   * Get the detectors applied to a project, with its own redaction settings
+   * applied over the global ones
+   */
+  private getRedactionRules(config: ProjectSyncConfig): RedactionRule[] {
+    if (!(config.redactSecrets ?? this.redactSecrets)) {
+      return [];
+    }
+    return [
+      ...BUILTIN_REDACTION_RULES,
+      ...compileRedactionRules(
+        mergeRedactionRules(this.redactionRules, config.redactionRules)
+      ),
+    ];
+  }
 
-      // Check if global storage exists for this project
-      if (!(await pathExists(globalProjectPath))) {
-        return {
-          success: true,
-          filesProcessed: 0,
-          errors: [],
-          duration: Date.now() - startTime,
-        };
-      }
+  /**
+   * Carry out a sync plan
+   * Files are classified again as they are processed, so a file that changed
+   * after planning is handled according to its current state
+   */
+  async applySyncPlan(plan: SyncPlan): Promise<SyncResult> {
+    const startTime = Date.now();
+    const errors: Error[] = [];
+    let filesProcessed = 0;
+    let filesDeleted = 0;
+    let linesCopied = 0;
+    let linesMerged = 0;
+    let bytesTransferred = 0;
 
-      // Get conversation files from global storage (now .jsonl files)
-      const files = await this.getConversationFiles(globalProjectPath);
+    const buildResult = (success: boolean): SyncResult => ({
+      success,
+      filesProcessed,
+      filesDeleted,
+      linesCopied,
+      linesMerged,
+      bytesTransferred,
+      errors,
+      duration: Date.now() - startTime,
+    });
 
-      // Copy files to local storage
-      for (const file of files) {
-        try {
-          const sourcePath = join(globalProjectPath, file);
-          const destPath = join(localHistoryPath, file);
-          // Only copy if file doesn't exist or is newer
-          const shouldCopy = await this.shouldCopyFile(sourcePath, destPath);
-          if (shouldCopy) {
-            await copyFile(sourcePath, destPath);
-            filesProcessed++;
-          }
-        } catch (error) {
-          errors.push(
-            error instanceof Error
-              ? error
-              : new Error(`Failed to copy ${file}`)
-          );
+    try {
+      if (!(await pathExists(plan.localPath))) {
+        if (plan.direction === 'to-global') {
+          errors.push(new Error('Local storage not initialized'));
+          return buildResult(false);
         }
+        await this.initializeLocalStorage(plan.projectRoot);
       }
+      const target: SyncTarget = {
+        ...(await this.resolveTarget(plan.projectRoot)),
+        localPath: plan.localPath,
+        globalPath: plan.globalPath,
+      };
 
-      // Bidirectional sync: also copy local files to global
-      if (options.bidirectional) {
-        const localFiles = await this.getConversationFiles(localHistoryPath);
-        for (const file of localFiles) {
+      // Concurrent syncs of the same project (another daemon, a manual
+      // sync) wait for each other
+      await withLock(join(plan.localPath, SYNC_LOCK_FILE), async () => {
+        const manifest = await this.loadManifest(plan.localPath);
+
+        for (const { file } of plan.actions) {
           try {
-            const sourcePath = join(localHistoryPath, file);
-            const destPath = join(globalProjectPath, file);
-            // Only copy if file doesn't exist in global or is newer
-            const shouldCopy = await this.shouldCopyFile(
-              sourcePath,
-              destPath
+            const transfer = await this.applyFile(
+              file,
+              target,
+              plan.direction,
+              manifest
             );
-            if (shouldCopy) {
-              await mkdir(globalProjectPath, { recursive: true });
-              await copyFile(sourcePath, destPath);
+            if (transfer.changed) {
               filesProcessed++;
+              linesCopied += transfer.linesCopied;
+              linesMerged += transfer.linesMerged;
+              bytesTransferred += transfer.bytesTransferred;
+            }
+            if (transfer.deleted) {
+              filesDeleted++;
             }
           } catch (error) {
             errors.push(
               error instanceof Error
                 ? error
-                : new Error(`Failed to copy ${file} to global`)
+                : new Error(`Failed to sync ${file}`)
             );
           }
         }
-      }
 
-      return {
-        success: errors.length === 0,
-        filesProcessed,
-        errors,
-        duration: Date.now() - startTime,
-      };
+        await manifest.save();
+      });
+
+      return buildResult(errors.length === 0);
     } catch (error) {
       errors.push(
         error instanceof Error
           ? error
           : new Error('Sync failed')
       );
-      return {
-        success: false,
-        filesProcessed,
-        errors,
-        duration: Date.now() - startTime,
-      };
+      return buildResult(false);
     }
   }
 
   /**
-   * Sync conversations from local to global storage (reverse sync)
-   * This makes local conversations available in Claude Code
+   * Load a project's manifest, dropping tombstones past the grace period
    */
-  async syncToGlobal(projectRoot: string): Promise<SyncResult> {
-    const startTime = Date.now();
-    const errors: Error[] = [];
-    let filesProcessed = 0;
+  private async loadManifest(localHistoryPath: string): Promise<SyncManifest> {
+    const manifest = await SyncManifest.load(localHistoryPath);
+    manifest.pruneTombstones(this.tombstoneGraceMs);
+    return manifest;
+  }
 
-    try {
-      const localPath = getLocalStoragePath(projectRoot);
-      const localHistoryPath = getHistoryPath(localPath);
-      const globalProjectPath = getGlobalProjectPath(this.globalPath, projectRoot);
+  /**
+   * List the files a sync has to look at, as paths relative to the local
+   * history directory
+   * Files known to the manifest are included so deletions are noticed.
+   * Files left out by the project's include and exclude globs are not
+   * touched at all.
+   */
+  private async listSyncFiles(
+    target: SyncTarget,
+    manifest: SyncManifest
+  ): Promise<string[]> {
+    const sessionFiles = [
+      ...(await this.getConversationFiles(target.globalPath)),
+      ...(await this.getConversationFiles(target.localPath)),
+    ];
+    const sessionIds = new Set(
+      sessionFiles
+        .filter((file) => file.endsWith('.jsonl'))
+        .map((file) => basename(file, '.jsonl'))
+    );
+
+    const files = new Set([
+      ...sessionFiles,
+      ...(await this.getCompanionFiles(target, sessionIds)),
+      ...manifest.getFiles(),
+      ...manifest.getTombstonedFiles(),
+    ]);
+    return Array.from(files)
+      .filter((file) => isFileIncluded(file, target.config))
+      .sort();
+  }
+
+  /**
+   * List the companion files of the given sessions on both sides
+   */
+  private async getCompanionFiles(
+    target: SyncTarget,
+    sessionIds: Set<string>
+  ): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const side of ['local', 'global'] as const) {
+      const todos = await listFilesRecursive(
+        this.getCompanionDir(side, 'todos', target)
+      );
+      for (const name of todos) {
+        const id = name.split('-agent-')[0];
+        if (!name.includes('/') && name.endsWith('.json') && sessionIds.has(id)) {
+          files.push(`todos/${name}`);
+        }
+      }
+
+      for (const id of sessionIds) {
+        for (const kind of ['file-history', 'sessions'] as const) {
+          const dir = join(this.getCompanionDir(side, kind, target), id);
+          for (const name of await listFilesRecursive(dir)) {
+            files.push(`${kind}/${id}/${name}`);
+          }
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Get the directory holding one kind of companion data on one side
+   */
+  private getCompanionDir(
+    side: 'local' | 'global',
+    kind: CompanionKind,
+    target: SyncTarget
+  ): string {
+    if (side === 'local') {
+      return join(target.localPath, kind);
+    }
+    return kind === 'sessions' ? target.globalPath : join(this.globalPath, kind);
+  }
+
+  /**
+   * Get the path of a sync file on one side
+   */
+  private getSidePath(
+    side: 'local' | 'global',
+    file: string,
+    target: SyncTarget
+  ): string {
+    const [kind, ...rest] = file.split('/');
+    if (rest.length > 0 && COMPANION_KINDS.includes(kind)) {
+      return join(
+        this.getCompanionDir(side, kind as CompanionKind, target),
+        ...rest
+      );
+    }
+    return join(side === 'local' ? target.localPath : target.globalPath, file);
+  }
+
+  /**
+   * Classify how a file changed since the last sync, including deletions
+   *
+   * A file that disappears from one side while the other side is unchanged
+   * since the last sync was deleted there. While a tombstone lasts, copies
+   * with the deleted content are stale; a copy with new content revives the
+   * file.
+   */
+  private classifyFile(
+    file: string,
+    local: FileFingerprint | null,
+    global: FileFingerprint | null,
+    manifest: SyncManifest
+  ): FileSyncState {
+    const tombstone = manifest.getTombstone(file);
+    if (tombstone) {
+      const stale = [local, global].every(
+        (print) => !print || tombstone.hashes.includes(print.hash)
+      );
+      if (stale) {
+        return 'stale';
+      }
+    }
+
+    if (!local && !global) {
+      return 'both-deleted';
+    }
+
+    const entry = tombstone ? undefined : manifest.get(file);
+    if (entry?.syncedHash) {
+      if (!local && global!.hash === entry.global?.hash) {
+        return 'local-deleted';
+      }
+      if (!global && local!.hash === entry.local?.hash) {
+        return 'global-deleted';
+      }
+    }
+
+    return manifest.getState(file, local, global);
+  }
+
+  /**
+   * Decide what to do with a file in the given sync direction
+   */
+  private decideAction(
+    file: string,
+    state: FileSyncState,
+    local: FileFingerprint | null,
+    global: FileFingerprint | null,
+    direction: SyncDirection
+  ): SyncAction {
+    const toLocal = direction !== 'to-global';
+    const toGlobal = direction !== 'to-local';
+    const action = (
+      type: SyncAction['action'],
+      actionDirection: SyncDirection,
+      reason: string
+    ): SyncAction => ({ file, action: type, direction: actionDirection, state, reason });
+
+    switch (state) {
+      case 'unchanged':
+        return action('skip', direction, 'identical in local and global storage');
+
+      case 'global-only':
+      case 'global-changed': {
+        const reason =
+          state === 'global-only' ? 'new in global storage' : 'changed in global storage';
+        return toLocal
+          ? action('copy', 'to-local', reason)
+          : action('skip', direction, reason);
+      }
+
+      case 'local-only':
+      case 'local-changed': {
+        const reason =
+          state === 'local-only' ? 'new in local storage' : 'changed in local storage';
+        return toGlobal
+          ? action('copy', 'to-global', reason)
+          : action('skip', direction, reason);
+      }
+
+      case 'both-changed':
+        return file.endsWith('.jsonl')
+          ? action('merge', direction, 'changed in local and global storage')
+          : action(
+              'conflict',
+              direction,
+              'changed in local and global storage and cannot be merged'
+            );
+
+      case 'local-deleted':
+        return toGlobal
+          ? action('delete', 'to-global', 'deleted from local storage')
+          : action('skip', direction, 'deleted from local storage');
 
-      // Check if local storage exists
-      if (!(await pathExists(localHistoryPath))) {
+      case 'global-deleted':
+        return toLocal
+          ? action('delete', 'to-local', 'deleted from global storage')
+          : action('skip', direction, 'deleted from global storage');
+
+      case 'both-deleted':
+        return action('skip', direction, 'deleted from local and global storage');
+
+      case 'stale': {
+        const removeLocal = Boolean(local) && toLocal;
+        const removeGlobal = Boolean(global) && toGlobal;
+        if (!removeLocal && !removeGlobal) {
+          return action('skip', direction, 'deleted session');
+        }
+        return action(
+          'delete',
+          removeLocal && removeGlobal ? 'both' : removeLocal ? 'to-local' : 'to-global',
+          'stale copy of a deleted session'
+        );
+      }
+    }
+  }
+
+  /**
+   * Sync a single file according to its current state
+   */
+  private async applyFile(
+    file: string,
+    target: SyncTarget,
+    direction: SyncDirection,
+    manifest: SyncManifest
+  ): Promise<FileTransfer> {
+    const sides = await this.readSides(file, target, manifest);
+    const { local, global, originalRoot } = sides;
+    const state = this.classifyFile(file, local.print, global.print, manifest);
+    const action = this.decideAction(file, state, local.print, global.print, direction);
+
+    switch (action.action) {
+      case 'skip':
+        if (state === 'unchanged') {
+          manifest.record(file, local.print, global.print, local.print!.hash, originalRoot);
+        } else if (state === 'both-deleted') {
+          manifest.addTombstone(file, 'both', this.getKnownHashes(manifest, file));
+        }
+        return NO_TRANSFER;
+
+      case 'conflict':
+        throw new Error(
+          `Conflicting changes to ${file} in local and global storage`
+        );
+
+      case 'copy': {
+        const toLocal = action.direction === 'to-local';
+        const [source, dest] = toLocal ? [global, local] : [local, global];
+        const content = toLocal
+          ? this.toLocalContent(source.content!, target)
+          : this.toGlobalContent(file, source.content!, target.projectRoot, sides);
+        // The destination is unchanged since the last sync, so the prefix
+        // recorded then still describes it
+        const written = await this.writeSyncedFile(
+          file,
+          dest.path,
+          content,
+          manifest.get(file)?.prefixes?.[toLocal ? 'local' : 'global']
+        );
+        if (toLocal) {
+          await this.logRedactions(file, target, sides);
+        }
+        manifest.removeTombstone(file);
+        manifest.record(
+          file,
+          source.print,
+          source.print,
+          source.print!.hash,
+          originalRoot
+        );
+        this.recordPrefixes(
+          file,
+          manifest,
+          toLocal ? written.prefix : this.getPrefix('local', sides, target),
+          toLocal ? this.getPrefix('global', sides, target) : written.prefix
+        );
         return {
-          success: false,
-          filesProcessed: 0,
-          errors: [new Error('Local storage not initialized')],
-          duration: Date.now() - startTime,
+          changed: true,
+          linesCopied: countLines(file, source.content!),
+          linesMerged: 0,
+          bytesTransferred: written.bytesTransferred,
         };
       }
 
-      // Ensure global storage directory exists
-      await mkdir(globalProjectPath, { recursive: true });
-
-      // Get all conversation files from local storage
-      const localFiles = await this.getConversationFiles(localHistoryPath);
-
-      // Copy all files to global storage
-      for (const file of localFiles) {
-        try {
-          const sourcePath = join(localHistoryPath, file);
-          const destPath = join(globalProjectPath, file);
-
-          // Always copy to ensure global has latest version
-          await copyFile(sourcePath, destPath);
-          filesProcessed++;
-        } catch (error) {
-          errors.push(
-            error instanceof Error
-              ? error
-              : new Error(`Failed to copy ${file} to global`)
+      case 'merge':
+        manifest.removeTombstone(file);
+        return this.mergeFile(file, sides, target, manifest, action.direction);
+
+      case 'delete':
+        if (action.direction !== 'to-global') {
+          await rm(local.path, { force: true });
+        }
+        if (action.direction !== 'to-local') {
+          await rm(global.path, { force: true });
+        }
+        if (state === 'local-deleted' || state === 'global-deleted') {
+          manifest.addTombstone(
+            file,
+            state === 'local-deleted' ? 'local' : 'global',
+            this.getKnownHashes(manifest, file)
           );
         }
+        return DELETED;
+    }
+  }
+
+  /**
+   * Hashes a file was last synced with, used to recognise stale copies
+   */
+  private getKnownHashes(manifest: SyncManifest, file: string): string[] {
+    const entry = manifest.get(file);
+    return [entry?.syncedHash, entry?.local?.hash, entry?.global?.hash].filter(
+      (hash): hash is string => Boolean(hash)
+    );
+  }
+
+  /**
+   * Delete a session and its companion data from both local and global
+   * storage
+   * Its tombstone keeps stale copies from being synced back during the grace
+   * period
+   * @param options.archive Move the session to the archive instead of
+   * deleting it outright
+   * @returns Paths of the removed files
+   */
+  async deleteSession(
+    projectRoot: string,
+    sessionId: string,
+    options: { archive?: boolean } = {}
+  ): Promise<string[]> {
+    const id = sessionId.replace(/\.jsonl?$/, '');
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    const target = await this.resolveTarget(projectRoot);
+    const localHistoryPath = target.localPath;
+    const archiveDir = this.getArchiveDir(projectRoot);
+    const removed: string[] = [];
+
+    const deleteFiles = async (manifest: SyncManifest | null) => {
+      const files = new Set([
+        `${id}.jsonl`,
+        `${id}.json`,
+        ...(await this.getCompanionFiles(target, new Set([id]))),
+      ]);
+
+      for (const file of files) {
+        const hashes: string[] = [];
+        const { local, global, globalRaw } = await this.readSides(
+          file,
+          target,
+          manifest || new SyncManifest(localHistoryPath)
+        );
+
+        // Claude Code's copy is archived as stored, unredacted
+        const archived = globalRaw || local.content;
+        if (options.archive && archived) {
+          const archivePath = join(archiveDir, file);
+          await mkdir(dirname(archivePath), { recursive: true });
+          await writeFileAtomic(archivePath, archived);
+        }
+
+        for (const side of [local, global]) {
+          if (side.print) {
+            hashes.push(side.print.hash);
+            await rm(side.path, { force: true });
+            removed.push(side.path);
+          }
+        }
+
+        if (manifest && hashes.length > 0) {
+          manifest.addTombstone(file, 'both', hashes);
+        }
       }
 
-      return {
-        success: errors.length === 0,
-        filesProcessed,
-        errors,
-        duration: Date.now() - startTime,
-      };
-    } catch (error) {
-      errors.push(
-        error instanceof Error
-          ? error
-          : new Error('Reverse sync failed')
+      for (const side of ['local', 'global'] as const) {
+        for (const kind of ['file-history', 'sessions'] as const) {
+          const dir = join(this.getCompanionDir(side, kind, target), id);
+          await rm(dir, { recursive: true, force: true });
+        }
+      }
+    };
+
+    if (!(await pathExists(localHistoryPath))) {
+      // No local storage: nothing to lock and nowhere to keep tombstones
+      await deleteFiles(null);
+      return removed;
+    }
+
+    await withLock(join(localHistoryPath, SYNC_LOCK_FILE), async () => {
+      const manifest = await SyncManifest.load(localHistoryPath);
+      await deleteFiles(manifest);
+      await manifest.save();
+    });
+
+    return removed;
+  }
+
+  /**
+   * Get the directory a project's pruned sessions are archived in
+   */
+  getArchiveDir(projectRoot: string): string {
+    return join(this.archivePath, encodeProjectPath(projectRoot));
+  }
+
+  /**
+   * List a project's sessions on both sides, with when they were last
+   * updated and how much space they and their companion data take
+   */
+  async listSessions(projectRoot: string): Promise<SessionInfo[]> {
+    const target = await this.resolveTarget(projectRoot);
+    const files = new Set(
+      [
+        ...(await this.getConversationFiles(target.localPath)),
+        ...(await this.getConversationFiles(target.globalPath)),
+      ].filter((file) => file.endsWith('.jsonl'))
+    );
+    const sessions: SessionInfo[] = [];
+
+    for (const file of Array.from(files).sort()) {
+      const id = basename(file, '.jsonl');
+      const local = await this.readLocalSide(
+        this.getSidePath('local', file, target),
+        target.key
+      );
+      const globalPath = this.getSidePath('global', file, target);
+      const global = await this.readSide(globalPath);
+      const content = (global.content || local.content)!;
+
+      let size = 0;
+      const companions = await this.getCompanionFiles(target, new Set([id]));
+      for (const companion of new Set([file, ...companions])) {
+        for (const side of ['local', 'global'] as const) {
+          const fileStat = await stat(
+            this.getSidePath(side, companion, target)
+          ).catch(() => null);
+          if (fileStat) {
+            // Count each file once, preferably as stored in the project
+            size += fileStat.size;
+            break;
+          }
+        }
+      }
+
+      const updatedAt =
+        getLastTimestamp(content.toString('utf-8')) ||
+        (await stat(global.content ? globalPath : local.path)).mtime.toISOString();
+      const sides: SessionInfo['sides'] = [];
+      if (local.content) {
+        sides.push('local');
+      }
+      if (global.content) {
+        sides.push('global');
+      }
+      sessions.push({ id, updatedAt, size, sides });
+    }
+
+    return sessions;
+  }
+
+  /**
+   * List a project's conversations with their metadata, and where they are
+   * stored and how large they are
+   * Metadata is read from the project's copy when there is one
+   */
+  async listConversations(projectRoot: string): Promise<ConversationListing[]> {
+    const metadata = new Map(
+      [
+        ...(await this.getConversationMetadata(projectRoot, 'global')),
+        ...(await this.getConversationMetadata(projectRoot, 'local')),
+      ].map((conversation) => [conversation.id, conversation])
+    );
+
+    return (await this.listSessions(projectRoot))
+      .filter((session) => metadata.has(session.id))
+      .map((session) => ({
+        ...metadata.get(session.id)!,
+        sides: session.sides,
+        size: session.size,
+      }));
+  }
+
+  /**
+   * Get the directories holding a project's sessions, the project's own
+   * first
+   */
+  async getConversationSources(
+    projectRoot: string
+  ): Promise<ConversationSource[]> {
+    const target = await this.resolveTarget(projectRoot);
+    return [
+      {
+        side: 'local',
+        path: target.localPath,
+        decrypt: (content) => this.decryptLocal(content, target.key),
+      },
+      { side: 'global', path: target.globalPath },
+    ];
+  }
+
+  /**
+   * Get the directories of every project in Claude Code's storage
+   */
+  async getAllConversationSources(): Promise<ConversationSource[]> {
+    const projectsPath = join(this.globalPath, 'projects');
+    try {
+      const entries = await readdir(projectsPath, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => ({
+          side: 'global' as const,
+          path: join(projectsPath, entry.name),
+        }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Find the session an ID, or the start of one, refers to
+   * @throws If no session, or more than one, matches
+   */
+  async resolveSessionId(projectRoot: string, prefix: string): Promise<string> {
+    const target = await this.resolveTarget(projectRoot);
+    const ids = new Set(
+      [
+        ...(await this.getConversationFiles(target.localPath)),
+        ...(await this.getConversationFiles(target.globalPath)),
+      ]
+        .filter((file) => file.endsWith('.jsonl'))
+        .map((file) => basename(file, '.jsonl'))
+    );
+    if (ids.has(prefix)) {
+      return prefix;
+    }
+
+    const matches = Array.from(ids).filter((id) => id.startsWith(prefix));
+    if (matches.length === 0) {
+      throw new Error(`No conversation found for ${prefix}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(
+        `${prefix} matches several conversations: ${matches.sort().join(', ')}`
       );
+    }
+    return matches[0];
+  }
+
+  /**
+   * Read the entries of a conversation, from the project's copy when there
+   * is one
+   * Claude Code's copy is read the way it would be synced into the project,
+   * with secrets redacted.
+   * @throws If the conversation exists on neither side
+   */
+  async *readConversation(
+    projectRoot: string,
+    sessionId: string
+  ): AsyncGenerator<ConversationEntry> {
+    const target = await this.resolveTarget(projectRoot);
+    const file = `${sessionId}.jsonl`;
+
+    for (const side of ['local', 'global'] as const) {
+      const path = this.getSidePath(side, file, target);
+      if (await pathExists(path)) {
+        yield* readConversation(path, this.getReadOptions(side, file, target));
+        return;
+      }
+    }
+    throw new Error(`No conversation found for ${sessionId}`);
+  }
+
+  /**
+   * Get the options for reading a session, decrypting the project's copy
+   * and redacting Claude Code's the way a sync into the project would
+   */
+  private getReadOptions(
+    side: 'local' | 'global',
+    file: string,
+    target: SyncTarget
+  ): ReadConversationOptions {
+    if (side === 'local') {
+      return { decrypt: (content) => this.decryptLocal(content, target.key) };
+    }
+    return target.redactionRules.length > 0
+      ? {
+          transform: (content) =>
+            redactContent(file, content, target.redactionRules).content,
+        }
+      : {};
+  }
+
+  /**
+   * Pack a project's history into a bundle, from local or global storage
+   * Files are bundled the way they are synced into the project: decrypted,
+   * with secrets redacted, and with paths referring to the project's current
+   * root. Stale copies of deleted sessions are left out.
+   * @throws If the project has no history in that storage
+   */
+  async createBundle(
+    projectRoot: string,
+    source: 'local' | 'global' = 'local'
+  ): Promise<HistoryBundle> {
+    const target = await this.resolveTarget(projectRoot);
+    const manifest = await this.loadManifest(target.localPath);
+    const files = new Map<string, Buffer>();
+
+    for (const file of await this.listSyncFiles(target, manifest)) {
+      const sides = await this.readSides(file, target, manifest);
+      const side = source === 'local' ? sides.local : sides.global;
+      if (
+        !side.content ||
+        this.classifyFile(file, sides.local.print, sides.global.print, manifest) === 'stale'
+      ) {
+        continue;
+      }
+      files.set(
+        file,
+        sides.originalRoot
+          ? Buffer.from(
+              relocateSessionPaths(
+                side.content.toString('utf-8'),
+                sides.originalRoot,
+                projectRoot
+              )
+            )
+          : side.content
+      );
+    }
+
+    if (files.size === 0) {
+      throw new Error(`No history to pack in ${source} storage`);
+    }
+    return createBundle(projectRoot, source, files, await getToolVersion());
+  }
+
+  /**
+   * Import a bundle into a project's local history
+   * Sessions the project already has are merged with the bundled copy, and
+   * paths are moved from the bundle's project root to the project's. Only
+   * local history is written: sync afterwards to bring the sessions into
+   * Claude Code.
+   */
+  async importBundle(
+    projectRoot: string,
+    bundle: HistoryBundle
+  ): Promise<BundleImportResult> {
+    const target = await this.resolveTarget(projectRoot);
+    if (!(await pathExists(target.localPath))) {
+      await this.initializeLocalStorage(projectRoot);
+    }
+    const result: BundleImportResult = {
+      added: [],
+      merged: [],
+      unchanged: [],
+      conflicts: [],
+      excluded: [],
+    };
+    const bundleRoot = bundle.manifest.projectRoot;
+
+    await withLock(join(target.localPath, SYNC_LOCK_FILE), async () => {
+      const manifest = await this.loadManifest(target.localPath);
+
+      for (const [file, bundled] of bundle.files) {
+        if (!isFileIncluded(file, target.config)) {
+          result.excluded.push(file);
+          continue;
+        }
+
+        const local = await this.readLocalSide(
+          this.getSidePath('local', file, target),
+          target.key
+        );
+        let content = bundled;
+        if (file.endsWith('.jsonl')) {
+          const root = local.content
+            ? this.getOriginalRoot(file, local, projectRoot, manifest) ?? projectRoot
+            : projectRoot;
+          if (root !== bundleRoot) {
+            content = Buffer.from(
+              relocateSessionPaths(content.toString('utf-8'), bundleRoot, root)
+            );
+          }
+        }
+
+        if (local.content?.equals(content)) {
+          result.unchanged.push(file);
+          continue;
+        }
+        if (local.content) {
+          if (!file.endsWith('.jsonl')) {
+            result.conflicts.push(file);
+            continue;
+          }
+          const merged = mergeJsonl(
+            local.content.toString('utf-8'),
+            content.toString('utf-8')
+          );
+          if (!merged.changed) {
+            result.unchanged.push(file);
+            continue;
+          }
+          content = Buffer.from(merged.content);
+          result.merged.push(file);
+        } else {
+          result.added.push(file);
+        }
+
+        await this.writeSyncedFile(
+          file,
+          local.path,
+          this.toLocalContent(content, target),
+          undefined
+        );
+        // Importing a session deliberately brings it back if it was deleted
+        manifest.removeTombstone(file);
+      }
+
+      await manifest.save();
+    });
+
+    return result;
+  }
+
+  /**
+   * Compare the local and global copies of a project's sessions
+   * Copies are compared as a sync sees them, with the local copy decrypted
+   * and the global copy redacted and mapped to the local copy's paths, so
+   * only real differences show.
+   */
+  async diffProject(projectRoot: string): Promise<SessionDiff[]> {
+    const target = await this.resolveTarget(projectRoot);
+    const manifest = await this.loadManifest(target.localPath);
+    const files = (await this.listSyncFiles(target, manifest)).filter(
+      (file) => !file.includes('/') && file.endsWith('.jsonl')
+    );
+
+    const diffs: SessionDiff[] = [];
+    for (const file of files) {
+      const diff = await this.compareSession(file, target, manifest);
+      if (diff) {
+        diffs.push(diff);
+      }
+    }
+    return diffs;
+  }
+
+  /**
+   * Compare the local and global copies of one session
+   * @throws If the session exists on neither side
+   */
+  async diffSession(projectRoot: string, sessionId: string): Promise<SessionDiff> {
+    const target = await this.resolveTarget(projectRoot);
+    const manifest = await this.loadManifest(target.localPath);
+    const diff = await this.compareSession(`${sessionId}.jsonl`, target, manifest);
+    if (!diff) {
+      throw new Error(`No conversation found for ${sessionId}`);
+    }
+    return diff;
+  }
+
+  /**
+   * Compare both sides of a session file
+   * @returns null if the session exists on neither side
+   */
+  private async compareSession(
+    file: string,
+    target: SyncTarget,
+    manifest: SyncManifest
+  ): Promise<SessionDiff | null> {
+    const { local, global } = await this.readSides(file, target, manifest);
+    if (!local.content && !global.content) {
+      return null;
+    }
+
+    const diff = diffJsonl(
+      local.content?.toString('utf-8') ?? '',
+      global.content?.toString('utf-8') ?? ''
+    );
+    let state: SessionDiffState = 'different';
+    if (!global.content) {
+      state = 'local-only';
+    } else if (!local.content) {
+      state = 'global-only';
+    } else if (
+      local.print!.hash === global.print!.hash ||
+      (diff.onlyA.length === 0 && diff.onlyB.length === 0 && diff.changed.length === 0)
+    ) {
+      state = 'identical';
+    }
+
+    return {
+      sessionId: basename(file, '.jsonl'),
+      state,
+      localOnly: diff.onlyA,
+      globalOnly: diff.onlyB,
+      changed: diff.changed.map(({ a, b }) => ({ local: a, global: b })),
+      shared: diff.shared,
+    };
+  }
+
+  /**
+   * Merge a session that changed on both sides into the side(s) being synced
+   */
+  private async mergeFile(
+    file: string,
+    sides: FileSides,
+    target: SyncTarget,
+    manifest: SyncManifest,
+    direction: SyncDirection
+  ): Promise<FileTransfer> {
+    const { local, global, originalRoot } = sides;
+    const localContent = local.content!.toString('utf-8');
+    const globalContent = global.content!.toString('utf-8');
+    const intoLocal =
+      direction !== 'to-global' ? mergeJsonl(localContent, globalContent) : null;
+    const intoGlobal =
+      direction !== 'to-local' ? mergeJsonl(globalContent, localContent) : null;
+
+    let localPrefix = this.getPrefix('local', sides, target);
+    let globalPrefix = this.getPrefix('global', sides, target);
+    let bytesTransferred = 0;
+
+    if (intoLocal?.changed) {
+      const written = await this.writeSyncedFile(
+        file,
+        local.path,
+        this.toLocalContent(intoLocal.content, target),
+        localPrefix
+      );
+      localPrefix = written.prefix;
+      bytesTransferred += written.bytesTransferred;
+      await this.logRedactions(file, target, sides);
+    }
+    if (intoGlobal?.changed) {
+      const written = await this.writeSyncedFile(
+        file,
+        global.path,
+        this.toGlobalContent(file, intoGlobal.content, target.projectRoot, sides),
+        globalPrefix
+      );
+      globalPrefix = written.prefix;
+      bytesTransferred += written.bytesTransferred;
+    }
+
+    const localPrint = fingerprintContent(
+      Buffer.from(intoLocal ? intoLocal.content : localContent)
+    );
+    const globalPrint = fingerprintContent(
+      Buffer.from(intoGlobal ? intoGlobal.content : globalContent)
+    );
+    // After a one-way merge the side that was not written is the common base
+    const syncedHash = intoLocal ? globalPrint.hash : localPrint.hash;
+    manifest.record(file, localPrint, globalPrint, syncedHash, originalRoot);
+    this.recordPrefixes(file, manifest, localPrefix, globalPrefix);
+
+    return {
+      changed: Boolean(intoLocal?.changed || intoGlobal?.changed),
+      linesCopied: 0,
+      linesMerged: (intoLocal?.linesAdded || 0) + (intoGlobal?.linesAdded || 0),
+      bytesTransferred,
+    };
+  }
+
+  /**
+   * Write a synced file, appending only the new tail when the file still
+   * holds the start of the content
+   * Session files only ever grow, so a long session that gained a few lines
+   * costs a few lines of I/O instead of a full rewrite. Anything else, or a
+   * file whose start no longer matches, is rewritten atomically.
+   * @param prefix What the file held when it was last synced
+   * @returns Bytes written, and the prefix the file now holds
+   */
+  private async writeSyncedFile(
+    file: string,
+    path: string,
+    content: Buffer | string,
+    prefix: SyncedPrefix | undefined
+  ): Promise<{ bytesTransferred: number; prefix: SyncedPrefix | undefined }> {
+    const data = typeof content === 'string' ? Buffer.from(content) : content;
+    const appendable =
+      file.endsWith('.jsonl') && !isEncrypted(data) ? toPrefix(data) : undefined;
+
+    if (
+      appendable &&
+      prefix &&
+      data.length > prefix.offset &&
+      (await stat(path).catch(() => null))?.size === prefix.offset &&
+      hashContent(data.subarray(0, prefix.offset)) === prefix.hash
+    ) {
+      await appendFile(path, data.subarray(prefix.offset));
       return {
-        success: false,
-        filesProcessed,
-        errors,
-        duration: Date.now() - startTime,
+        bytesTransferred: data.length - prefix.offset,
+        prefix: appendable,
       };
     }
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFileAtomic(path, data);
+    return { bytesTransferred: data.length, prefix: appendable };
+  }
+
+  /**
+   * Get the prefix one side of a session file holds on disk, as read
+   * Encrypted local copies can't be appended to, so have none
+   */
+  private getPrefix(
+    side: 'local' | 'global',
+    { local, global, globalRaw }: FileSides,
+    target: SyncTarget
+  ): SyncedPrefix | undefined {
+    if (side === 'local') {
+      return local.print && !target.key
+        ? { offset: local.print.size, hash: local.print.hash }
+        : undefined;
+    }
+    if (!globalRaw) {
+      return undefined;
+    }
+    // The global side is only fingerprinted as stored if it wasn't transformed
+    return global.content === globalRaw
+      ? { offset: global.print!.size, hash: global.print!.hash }
+      : toPrefix(globalRaw);
+  }
+
+  /**
+   * Record the prefixes both sides of a session file hold after a sync
+   */
+  private recordPrefixes(
+    file: string,
+    manifest: SyncManifest,
+    local: SyncedPrefix | undefined,
+    global: SyncedPrefix | undefined
+  ): void {
+    if (file.endsWith('.jsonl')) {
+      manifest.recordPrefix(file, 'local', local);
+      manifest.recordPrefix(file, 'global', global);
+    }
+  }
+
+  /**
+   * Read both sides of a file
+   * Global content is mapped back to the paths the local copy was recorded
+   * with, when the project was cloned from another location, and has its
+   * secrets redacted
+   */
+  private async readSides(
+    file: string,
+    target: SyncTarget,
+    manifest: SyncManifest
+  ): Promise<FileSides> {
+    const local = await this.readLocalSide(
+      this.getSidePath('local', file, target),
+      target.key
+    );
+    const global = await this.readSide(this.getSidePath('global', file, target));
+    const originalRoot = this.getOriginalRoot(
+      file,
+      local,
+      target.projectRoot,
+      manifest
+    );
+    const sides: FileSides = {
+      local,
+      global,
+      globalRaw: global.content,
+      originalRoot,
+      redactions: [],
+    };
+
+    // Binary files, such as snapshots of images, are left alone
+    if (!global.content || global.content.includes(0)) {
+      return sides;
+    }
+
+    let content = global.content.toString('utf-8');
+    if (originalRoot) {
+      content = relocateSessionPaths(content, target.projectRoot, originalRoot);
+    }
+    if (target.redactionRules.length > 0) {
+      const result = redactContent(file, content, target.redactionRules);
+      content = result.content;
+      sides.redactions = result.redactions;
+    }
+
+    if (originalRoot || sides.redactions.length > 0) {
+      const transformed = Buffer.from(content);
+      sides.global = {
+        path: global.path,
+        content: transformed,
+        print: fingerprintContent(transformed),
+      };
+    }
+    return sides;
+  }
+
+  /**
+   * Find the project root a session's local copy was recorded in, when the
+   * project has since been cloned or moved elsewhere
+   */
+  private getOriginalRoot(
+    file: string,
+    local: SideContent,
+    projectRoot: string,
+    manifest: SyncManifest
+  ): string | undefined {
+    if (!file.endsWith('.jsonl')) {
+      return undefined;
+    }
+
+    const recorded = manifest.get(file)?.originalRoot;
+    if (recorded) {
+      return recorded;
+    }
+
+    if (!local.content) {
+      return undefined;
+    }
+    return (
+      detectOriginalRoot(local.content.toString('utf-8'), projectRoot) ?? undefined
+    );
+  }
+
+  /**
+   * Prepare content to be written to local storage, encrypting it if the
+   * history is encrypted
+   */
+  private toLocalContent(
+    content: Buffer | string,
+    { key }: SyncTarget
+  ): Buffer | string {
+    return key ? encryptContent(Buffer.from(content), key.key) : content;
+  }
+
+  /**
+   * Prepare local content to be written to global storage
+   * Lines global storage already has are written back exactly as stored,
+   * undoing redaction; other session lines have their paths rewritten to the
+   * current project root, so Claude Code sees paths that exist here
+   */
+  private toGlobalContent(
+    file: string,
+    content: Buffer | string,
+    projectRoot: string,
+    { global, globalRaw, originalRoot }: FileSides
+  ): Buffer | string {
+    const storedLines = new Map<string, string>();
+    if (globalRaw && global.content && global.content !== globalRaw) {
+      if (global.content.equals(Buffer.from(content))) {
+        return globalRaw;
+      }
+      const rawLines = globalRaw.toString('utf-8').split('\n');
+      const lines = global.content.toString('utf-8').split('\n');
+      // Redacting a whole JSON document may reflow it
+      if (lines.length === rawLines.length) {
+        lines.forEach((line, index) => storedLines.set(line, rawLines[index]));
+      }
+    }
+
+    if (storedLines.size === 0 && !originalRoot) {
+      return content;
+    }
+
+    return content
+      .toString()
+      .split('\n')
+      .map((line) => {
+        const stored = storedLines.get(line);
+        if (stored !== undefined) {
+          return stored;
+        }
+        return originalRoot && file.endsWith('.jsonl')
+          ? relocateSessionPaths(line, originalRoot, projectRoot)
+          : line;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Record the redactions in content just written locally, skipping lines
+   * the local copy already had so each secret is logged once
+   * The log holds the session, file, line number and detector, never the
+   * secret itself
+   */
+  private async logRedactions(
+    file: string,
+    target: SyncTarget,
+    { local, global, redactions }: FileSides
+  ): Promise<void> {
+    if (redactions.length === 0) {
+      return;
+    }
+
+    const previousLines = new Set(
+      local.content ? local.content.toString('utf-8').split('\n') : []
+    );
+    const lines = global.content!.toString('utf-8').split('\n');
+    const sessionId = getSessionId(file);
+    const timestamp = new Date().toISOString();
+    const entries = redactions
+      .filter((redaction) => !previousLines.has(lines[redaction.line - 1]))
+      .map(
+        (redaction) =>
+          `${timestamp} session=${sessionId} file=${file} line=${redaction.line} rule=${redaction.rule}\n`
+      );
+
+    if (entries.length > 0) {
+      await appendFile(
+        join(dirname(target.localPath), REDACTION_LOG_FILE),
+        entries.join('')
+      );
+    }
+  }
+
+  /**
+   * Read one side of a file, if it exists
+   */
+  private async readSide(path: string): Promise<SideContent> {
+    if (!(await pathExists(path))) {
+      return { path, content: null, print: null };
+    }
+    const content = await readFile(path);
+    return { path, content, print: fingerprintContent(content) };
+  }
+
+  /**
+   * Read the local side of a file, decrypting it if it is encrypted
+   * Fingerprints are taken of the plaintext, so re-encrypting a file or
+   * rotating the key does not count as a change
+   */
+  private async readLocalSide(
+    path: string,
+    key: ProjectKey | null
+  ): Promise<SideContent> {
+    const side = await this.readSide(path);
+    if (!side.content || !isEncrypted(side.content)) {
+      return side;
+    }
+    const content = await this.decryptLocal(side.content, key);
+    return { path, content, print: fingerprintContent(content) };
+  }
+
+  /**
+   * Decrypt local content with the project's key, or with a previous key
+   * from the key store for files not yet re-encrypted after a rotation
+   */
+  private async decryptLocal(
+    content: Buffer,
+    key: ProjectKey | null
+  ): Promise<Buffer> {
+    const keyId = getContentKeyId(content);
+    const fileKey =
+      key?.keyId === keyId ? key.key : await this.keyManager.getStoredKey(keyId);
+    if (!fileKey) {
+      throw new Error(
+        `No key to decrypt local history encrypted with key ${keyId}`
+      );
+    }
+    return decryptContent(content, fileKey);
+  }
+
+  /**
+   * Encrypt a project's local history with its current key
+   * Plaintext files, and files encrypted with a previous key, are rewritten;
+   * run after encryption is turned on or the key is rotated
+   * @returns Number of files rewritten
+   */
+  async encryptLocalHistory(projectRoot: string): Promise<number> {
+    const key = await this.keyManager.getProjectKey(projectRoot);
+    if (!key) {
+      throw new Error('History is not encrypted: run claude-sync key init first');
+    }
+    const localHistoryPath = getHistoryPath(getLocalStoragePath(projectRoot));
+    if (!(await pathExists(localHistoryPath))) {
+      return 0;
+    }
+
+    let rewritten = 0;
+    await withLock(join(localHistoryPath, SYNC_LOCK_FILE), async () => {
+      for (const file of await listFilesRecursive(localHistoryPath)) {
+        const path = join(localHistoryPath, file);
+        const content = await readFile(path);
+        if (isEncrypted(content) && getContentKeyId(content) === key.keyId) {
+          continue;
+        }
+
+        const plaintext = isEncrypted(content)
+          ? await this.decryptLocal(content, key)
+          : content;
+        await writeFileAtomic(path, encryptContent(plaintext, key.key));
+        rewritten++;
+      }
+    });
+    return rewritten;
   }
 
   /**
    * Get all conversation files in a directory
-   * Supports both .json and .jsonl files (Claude Code uses .jsonl)
+   * Supports both .json and .jsonl files (Claude Code uses .jsonl); dotfiles
+   * such as the sync manifest are skipped
    */
   private async getConversationFiles(directoryPath: string): Promise<string[]> {
     try {
       const entries = await readdir(directoryPath, { withFileTypes: true });
       return entries
-        .filter((entry) => entry.isFile() && (entry.name.endsWith('.json') || entry.name.endsWith('.jsonl')))
+        .filter(
+          (entry) =>
+            entry.isFile() &&
+            !entry.name.startsWith('.') &&
+            (entry.name.endsWith('.json') || entry.name.endsWith('.jsonl'))
+        )
         .map((entry) => entry.name);
     } catch {
       return [];
@@ -319,7 +1732,6 @@ Use \`claude-local\` CLI to manage local storage:
     for (const file of files) {
       try {
         const filePath = join(historyPath, file);
-        const { readFile } = await import('node:fs/promises');
         const content = await readFile(filePath, 'utf-8');
         const data = JSON.parse(content);
 
@@ -341,28 +1753,6 @@ Use \`claude-local\` CLI to manage local storage:
     return projectFiles;
   }
 
-  /**
-   * Determine if a file should be copied (based on modification time)
-   */
-  private async shouldCopyFile(
-    sourcePath: string,
-    destPath: string
-  ): Promise<boolean> {
-    try {
-      const destExists = await pathExists(destPath);
-      if (!destExists) {
-        return true;
-      }
-
-      const sourceStat = await stat(sourcePath);
-      const destStat = await stat(destPath);
-
-      return sourceStat.mtime > destStat.mtime;
-    } catch {
-      return true;
-    }
-  }
-
   /**
    * Clean up local storage (optionally preserving configuration)
    */
@@ -383,38 +1773,30 @@ Use \`claude-local\` CLI to manage local storage:
   }
 
   /**
-   * Get metadata for conversations in a storage location
+   * Get metadata for the conversations of a project on one side
+   * Local history is decrypted if it is encrypted; unreadable sessions are
+   * skipped
    */
   async getConversationMetadata(
-    storagePath: string
+    projectRoot: string,
+    side: 'local' | 'global' = 'local'
   ): Promise<ConversationMetadata[]> {
-    const historyPath = getHistoryPath(storagePath);
-    const files = await this.getConversationFiles(historyPath);
+    const target = await this.resolveTarget(projectRoot);
+    const directory = side === 'local' ? target.localPath : target.globalPath;
+    const files = await this.getConversationFiles(directory);
     const metadata: ConversationMetadata[] = [];
 
-    for (const file of files) {
+    for (const file of files.filter((name) => name.endsWith('.jsonl'))) {
       try {
-        const filePath = join(historyPath, file);
-        const { readFile } = await import('node:fs/promises');
-        const content = await readFile(filePath, 'utf-8');
-        const data = JSON.parse(content);
-        const fileStat = await stat(filePath);
-
-        // Strip both .json and .jsonl extensions
-        const id = file.endsWith('.jsonl')
-          ? basename(file, '.jsonl')
-          : basename(file, '.json');
-
-        metadata.push({
-          id,
-          projectPath: data.workingDirectory || data.cwd || 'unknown',
-          createdAt: fileStat.birthtime.toISOString(),
-          updatedAt: fileStat.mtime.toISOString(),
-          messageCount: data.messages?.length || 0,
-          title: data.title || undefined,
-        });
+        metadata.push(
+          await readConversationMetadata(
+            join(directory, file),
+            projectRoot,
+            this.getReadOptions(side, file, target)
+          )
+        );
       } catch {
-        // Skip files that can't be parsed
+        // Skip files that can't be read
         continue;
       }
     }
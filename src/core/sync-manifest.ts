@@ -0,0 +1,256 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  FileFingerprint,
+  FileSyncState,
+  SyncManifestData,
+  SyncManifestEntry,
+  SyncedPrefix,
+  Tombstone,
+} from '../types/index.js';
+import { pathExists } from '../utils/paths.js';
+import { writeFileAtomic } from '../utils/atomic.js';
+
+/**
+ * File name of the manifest inside a project's history directory
+ */
+export const SYNC_MANIFEST_FILE = '.sync-state.json';
+
+/**
+ * File name of the advisory lock held while a project is being synced
+ */
+export const SYNC_LOCK_FILE = '.sync.lock';
+
+/**
+ * Machine-specific files in the history directory that must not be committed
+ */
+const HISTORY_GITIGNORE_ENTRIES = [SYNC_MANIFEST_FILE, SYNC_LOCK_FILE, '.*.tmp'];
+
+/**
+ * Per-project record of what was last synced, keyed by file name
+ *
+ * Comparing content hashes against this record tells which side changed
+ * without trusting modification times, which git checkouts, rsync and cloud
+ * drives do not preserve.
+ */
+export class SyncManifest {
+  private historyPath: string;
+  private data: SyncManifestData;
+
+  constructor(historyPath: string, data?: SyncManifestData) {
+    this.historyPath = historyPath;
+    this.data = data || { version: 1, files: {}, tombstones: {} };
+  }
+
+  /**
+   * Load the manifest of a history directory, starting empty if it is missing
+   * or unreadable
+   */
+  static async load(historyPath: string): Promise<SyncManifest> {
+    try {
+      const content = await readFile(join(historyPath, SYNC_MANIFEST_FILE), 'utf-8');
+      const data = JSON.parse(content) as SyncManifestData;
+      if (data.version === 1 && data.files && typeof data.files === 'object') {
+        return new SyncManifest(historyPath, {
+          ...data,
+          tombstones: data.tombstones || {},
+        });
+      }
+    } catch {
+      // Missing or corrupt manifest: every file is treated as never synced
+    }
+    return new SyncManifest(historyPath);
+  }
+
+  /**
+   * Get the recorded entry for a file
+   */
+  get(file: string): SyncManifestEntry | undefined {
+    return this.data.files[file];
+  }
+
+  /**
+   * List the files that have a recorded entry
+   */
+  getFiles(): string[] {
+    return Object.keys(this.data.files);
+  }
+
+  /**
+   * Classify how a file changed since the last sync
+   */
+  getState(
+    file: string,
+    local: FileFingerprint | null,
+    global: FileFingerprint | null
+  ): FileSyncState {
+    if (!global) {
+      return 'local-only';
+    }
+    if (!local) {
+      return 'global-only';
+    }
+    if (local.hash === global.hash) {
+      return 'unchanged';
+    }
+
+    const syncedHash = this.data.files[file]?.syncedHash;
+    if (!syncedHash) {
+      return 'both-changed';
+    }
+
+    const localChanged = local.hash !== syncedHash;
+    const globalChanged = global.hash !== syncedHash;
+
+    if (localChanged && globalChanged) {
+      return 'both-changed';
+    }
+    return localChanged ? 'local-changed' : 'global-changed';
+  }
+
+  /**
+   * Record the state of both sides after a sync
+   * @param syncedHash Hash of the content the two sides are known to share;
+   * after a one-way merge this is the side that was not written
+   * @param originalRoot Project root the local copy's paths refer to, kept
+   * from the previous entry when omitted
+   * Prefixes are kept for the sides whose content did not change
+   */
+  record(
+    file: string,
+    local: FileFingerprint | null,
+    global: FileFingerprint | null,
+    syncedHash: string,
+    originalRoot?: string
+  ): void {
+    const previous = this.data.files[file];
+    const keepPrefix = (side: 'local' | 'global', print: FileFingerprint | null) =>
+      print && previous?.[side]?.hash === print.hash
+        ? previous.prefixes?.[side]
+        : undefined;
+    const prefixes = {
+      local: keepPrefix('local', local),
+      global: keepPrefix('global', global),
+    };
+
+    this.data.files[file] = {
+      local: local || undefined,
+      global: global || undefined,
+      syncedHash,
+      syncedAt: new Date().toISOString(),
+      originalRoot: originalRoot ?? previous?.originalRoot,
+      prefixes: prefixes.local || prefixes.global ? prefixes : undefined,
+    };
+  }
+
+  /**
+   * Record the bytes one side of a file holds on disk after a sync
+   * Call after record, which drops prefixes of sides that changed
+   */
+  recordPrefix(
+    file: string,
+    side: 'local' | 'global',
+    prefix: SyncedPrefix | undefined
+  ): void {
+    const entry = this.data.files[file];
+    if (entry) {
+      entry.prefixes = { ...entry.prefixes, [side]: prefix };
+    }
+  }
+
+  /**
+   * Forget a file
+   */
+  remove(file: string): void {
+    delete this.data.files[file];
+  }
+
+  /**
+   * Get the tombstone of a deleted file
+   */
+  getTombstone(file: string): Tombstone | undefined {
+    return this.data.tombstones[file];
+  }
+
+  /**
+   * List the files that have a tombstone
+   */
+  getTombstonedFiles(): string[] {
+    return Object.keys(this.data.tombstones);
+  }
+
+  /**
+   * Mark a file as deleted, replacing its sync entry with a tombstone
+   */
+  addTombstone(
+    file: string,
+    deletedFrom: Tombstone['deletedFrom'],
+    hashes: string[]
+  ): void {
+    delete this.data.files[file];
+    this.data.tombstones[file] = {
+      deletedAt: new Date().toISOString(),
+      deletedFrom,
+      hashes: Array.from(new Set(hashes)),
+    };
+  }
+
+  /**
+   * Drop the tombstone of a file that was revived
+   */
+  removeTombstone(file: string): void {
+    delete this.data.tombstones[file];
+  }
+
+  /**
+   * Drop tombstones older than the grace period
+   * @returns Number of tombstones removed
+   */
+  pruneTombstones(graceMs: number): number {
+    const cutoff = Date.now() - graceMs;
+    let pruned = 0;
+
+    for (const [file, tombstone] of Object.entries(this.data.tombstones)) {
+      if (new Date(tombstone.deletedAt).getTime() < cutoff) {
+        delete this.data.tombstones[file];
+        pruned++;
+      }
+    }
+
+    return pruned;
+  }
+
+  /**
+   * Write the manifest to disk
+   */
+  async save(): Promise<void> {
+    await this.ensureGitignore();
+    await writeFileAtomic(
+      join(this.historyPath, SYNC_MANIFEST_FILE),
+      JSON.stringify(this.data, null, 2) + '\n'
+    );
+  }
+
+  /**
+   * Keep the manifest out of version control: it describes this machine's
+   * global storage, and a copy from another machine would be misleading
+   */
+  private async ensureGitignore(): Promise<void> {
+    const gitignorePath = join(this.historyPath, '.gitignore');
+    const content = (await pathExists(gitignorePath))
+      ? await readFile(gitignorePath, 'utf-8')
+      : '';
+    const lines = content.split('\n').map((line) => line.trim());
+    const missing = HISTORY_GITIGNORE_ENTRIES.filter(
+      (entry) => !lines.includes(entry)
+    );
+
+    if (missing.length > 0) {
+      const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+      await writeFileAtomic(
+        gitignorePath,
+        content + separator + missing.join('\n') + '\n'
+      );
+    }
+  }
+}
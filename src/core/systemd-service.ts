@@ -0,0 +1,106 @@
+import { mkdir, unlink, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { ServiceStatus, SystemdServiceOptions } from '../types/index.js';
+import { getServiceUnitPath, pathExists } from '../utils/paths.js';
+import {
+  SERVICE_UNIT_NAME,
+  renderServiceUnit,
+  runSystemctl,
+} from '../utils/systemd.js';
+
+/**
+ * Installs and removes the systemd user service that runs the daemon
+ *
+ * The service starts the daemon at login, keeps it running across reboots
+ * and restarts it when it fails.
+ */
+export class SystemdService {
+  private unitPath: string;
+  private systemctl: (args: string[]) => Promise<string>;
+
+  constructor(options: SystemdServiceOptions = {}) {
+    this.unitPath = options.unitPath || getServiceUnitPath();
+    this.systemctl = options.systemctl || runSystemctl;
+  }
+
+  /**
+   * Get the unit file of the service
+   */
+  getUnitPath(): string {
+    return this.unitPath;
+  }
+
+  /**
+   * Check whether the unit file exists
+   */
+  async isInstalled(): Promise<boolean> {
+    return pathExists(this.unitPath);
+  }
+
+  /**
+   * Write the unit file, then enable and (re)start the service
+   * @param command The program running the daemon followed by its arguments
+   * @throws If systemd is not available or systemctl fails
+   */
+  async install(command: string[]): Promise<void> {
+    if (process.platform !== 'linux') {
+      throw new Error('systemd services are only supported on Linux');
+    }
+
+    await mkdir(dirname(this.unitPath), { recursive: true });
+    await writeFile(this.unitPath, renderServiceUnit(command));
+
+    await this.systemctl(['daemon-reload']);
+    await this.systemctl(['enable', SERVICE_UNIT_NAME]);
+    // Restart so reinstalling picks up new search paths
+    await this.systemctl(['restart', SERVICE_UNIT_NAME]);
+  }
+
+  /**
+   * Stop and disable the service, then remove the unit file
+   * @returns false when the service was not installed
+   */
+  async uninstall(): Promise<boolean> {
+    if (!(await this.isInstalled())) {
+      return false;
+    }
+
+    await this.systemctl(['disable', '--now', SERVICE_UNIT_NAME]);
+    await unlink(this.unitPath);
+    await this.systemctl(['daemon-reload']);
+    return true;
+  }
+
+  /**
+   * Get whether the service is installed, enabled and running
+   * systemd's view is left out when systemctl can't be reached.
+   */
+  async getStatus(): Promise<ServiceStatus> {
+    const status: ServiceStatus = {
+      installed: await this.isInstalled(),
+      unitPath: this.unitPath,
+    };
+    if (!status.installed) {
+      return status;
+    }
+
+    try {
+      const output = await this.systemctl([
+        'show',
+        SERVICE_UNIT_NAME,
+        '--property=ActiveState,UnitFileState',
+      ]);
+      for (const line of output.split('\n')) {
+        const [key, value] = line.trim().split('=');
+        if (key === 'ActiveState' && value) {
+          status.activeState = value;
+        } else if (key === 'UnitFileState' && value) {
+          status.unitFileState = value;
+        }
+      }
+    } catch {
+      // systemd is not running for this user
+    }
+    return status;
+  }
+}
@@ -1,8 +1,7 @@
 import chokidar, { type FSWatcher } from 'chokidar';
-import { join } from 'node:path';
-import { copyFile } from 'node:fs/promises';
+import { join, basename } from 'node:path';
 import { StorageManager } from './storage-manager.js';
-import { getHistoryPath, getGlobalProjectPath } from '../utils/paths.js';
+import { getHistoryPath, resolveGlobalProjectPath } from '../utils/paths.js';
 
 export type WatcherEventType = 'add' | 'change' | 'unlink';
 
@@ -39,13 +38,15 @@ export class HistoryWatcher {
     } = {}
   ): Promise<void> {
     // Watch the project-specific global directory
-    const globalProjectPath = getGlobalProjectPath(globalPath, projectRoot);
+    const globalProjectPath = await resolveGlobalProjectPath(globalPath, projectRoot);
     const localHistoryPath = getHistoryPath(
       join(projectRoot, '.claude')
     );
 
     this.watcher = chokidar.watch(globalProjectPath, {
-      ignored: /(^|[\/\\])\../, // ignore dotfiles
+      // Ignore dotfiles; matching the full path would also ignore everything
+      // under ~/.claude
+      ignored: (path: string) => basename(path).startsWith('.'),
       persistent: true,
       ignoreInitial: options.ignoreInitial ?? true,
       awaitWriteFinish: {
@@ -56,19 +57,19 @@ export class HistoryWatcher {
 
     this.watcher
       .on('add', async (path) => {
-        await this.handleFileEvent('add', path, localHistoryPath, projectRoot);
+        await this.handleFileEvent('add', path, projectRoot);
       })
       .on('change', async (path) => {
-        await this.handleFileEvent('change', path, localHistoryPath, projectRoot);
+        await this.handleFileEvent('change', path, projectRoot);
       })
       .on('unlink', async (path) => {
-        await this.handleFileEvent('unlink', path, localHistoryPath, projectRoot);
+        await this.handleFileEvent('unlink', path, projectRoot);
       });
 
     // Optionally watch local directory for bidirectional sync
     if (options.bidirectional) {
       const localWatcher = chokidar.watch(localHistoryPath, {
-        ignored: /(^|[\/\\])\../,
+        ignored: (path: string) => basename(path).startsWith('.'),
         persistent: true,
         ignoreInitial: true,
         awaitWriteFinish: {
@@ -78,11 +79,14 @@ export class HistoryWatcher {
       });
 
       localWatcher
-        .on('add', async (path) => {
-          await this.handleLocalFileEvent('add', path, globalProjectPath);
+        .on('add', async () => {
+          await this.handleLocalFileEvent(projectRoot);
         })
-        .on('change', async (path) => {
-          await this.handleLocalFileEvent('change', path, globalProjectPath);
+        .on('change', async () => {
+          await this.handleLocalFileEvent(projectRoot);
+        })
+        .on('unlink', async () => {
+          await this.handleLocalFileEvent(projectRoot);
         });
     }
   }
@@ -93,7 +97,6 @@ export class HistoryWatcher {
   private async handleFileEvent(
     type: WatcherEventType,
     sourcePath: string,
-    localHistoryPath: string,
     projectRoot: string
   ): Promise<void> {
     try {
@@ -108,21 +111,9 @@ export class HistoryWatcher {
         await callback(event);
       }
 
-      if (type === 'add' || type === 'change') {
-        // Check if this file belongs to the current project
-        const belongsToProject = await this.filebelongsToProject(
-          sourcePath,
-          projectRoot
-        );
-
-        if (belongsToProject) {
-          const fileName = sourcePath.split('/').pop();
-          if (fileName) {
-            const destPath = join(localHistoryPath, fileName);
-            await copyFile(sourcePath, destPath);
-          }
-        }
-      }
+      // The storage manager decides how the change propagates (copy, merge
+      // or deletion) and redacts secrets on the way into the project
+      await this.storageManager.syncToLocal(projectRoot);
     } catch (error) {
       console.error(`Error handling file event: ${error}`);
     }
@@ -131,46 +122,16 @@ export class HistoryWatcher {
   /**
    * Handle file events from local storage (bidirectional sync)
    */
-  private async handleLocalFileEvent(
-    type: WatcherEventType,
-    sourcePath: string,
-    globalHistoryPath: string
-  ): Promise<void> {
+  private async handleLocalFileEvent(projectRoot: string): Promise<void> {
     try {
-      if (type === 'add' || type === 'change') {
-        const fileName = sourcePath.split('/').pop();
-        if (fileName) {
-          const destPath = join(globalHistoryPath, fileName);
-          await copyFile(sourcePath, destPath);
-        }
-      }
+      // Lines global storage already has are kept as stored, so redacted
+      // secrets in the project copy never overwrite the originals
+      await this.storageManager.syncToGlobal(projectRoot);
     } catch (error) {
       console.error(`Error handling local file event: ${error}`);
     }
   }
 
-  /**
-   * Check if a conversation file belongs to a specific project
-   */
-  private async filebelongsToProject(
-    filePath: string,
-    projectRoot: string
-  ): Promise<boolean> {
-    try {
-      const { readFile } = await import('node:fs/promises');
-      const content = await readFile(filePath, 'utf-8');
-      const data = JSON.parse(content);
-
-      return (
-        data.workingDirectory === projectRoot ||
-        data.cwd === projectRoot ||
-        JSON.stringify(data).includes(projectRoot)
-      );
-    } catch {
-      return false;
-    }
-  }
-
   /**
    * Register a callback for file events
    */
@@ -5,10 +5,27 @@
  */
 
 export { StorageManager } from './core/storage-manager.js';
+export { KeyManager } from './core/key-manager.js';
+export { HistoryPruner } from './core/history-pruner.js';
+export { SearchIndex } from './core/search-index.js';
+export { ConversationSearcher } from './core/conversation-searcher.js';
 export { ProjectDetector } from './core/project-detector.js';
 export { ConfigManager } from './core/config-manager.js';
 export { HistoryWatcher } from './core/watcher.js';
+export { DaemonProcess } from './core/daemon-process.js';
+export { SystemdService } from './core/systemd-service.js';
+export { ControlServer } from './core/control-server.js';
+export { Logger } from './core/logger.js';
 
 export * from './types/index.js';
 export * from './utils/paths.js';
 export * from './utils/git.js';
+export * from './utils/project-config.js';
+export * from './utils/conversation-reader.js';
+export * from './utils/search.js';
+export * from './utils/export.js';
+export * from './utils/bundle.js';
+export * from './utils/systemd.js';
+export * from './utils/control.js';
+export * from './utils/logs.js';
+export * from './utils/daemon-config.js';
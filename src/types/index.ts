@@ -17,6 +17,67 @@ export interface LocalStorageConfig {
   autoGitignore: boolean;
   /** Custom ignore patterns for history files */
   ignorePatterns: string[];
+  /** Days a deleted session stays tombstoned so stale copies are not synced back */
+  tombstoneGraceDays: number;
+  /** Whether to redact secrets from sessions synced into projects */
+  redactSecrets: boolean;
+  /** Custom redaction rules, applied after the built-in detectors */
+  redactionRules: RedactionRuleConfig[];
+  /** Retention limits applied to every project */
+  retention: RetentionPolicy;
+  /** Retention limits of individual projects by root, over the global ones */
+  projectRetention: Record<string, RetentionPolicy>;
+  /** Whether the daemon prunes projects according to their retention limits */
+  autoPrune: boolean;
+}
+
+/**
+ * Settings of a single project, stored in its .claude/sync.json and
+ * committed with it
+ * Each setting applies over the global configuration
+ */
+export interface ProjectSyncConfig {
+  /** Whether the project is synced at all (default true) */
+  enabled?: boolean;
+  /** Directions the project is synced in (default both) */
+  direction?: SyncDirection;
+  /** Globs of history files to sync, relative to .claude/history (default all) */
+  include?: string[];
+  /** Globs of history files never to sync */
+  exclude?: string[];
+  /** Whether to redact secrets from sessions synced into the project */
+  redactSecrets?: boolean;
+  /** Redaction rules added to the global ones */
+  redactionRules?: RedactionRuleConfig[];
+  /** Retention limits applied over the global ones */
+  retention?: RetentionPolicy;
+}
+
+/**
+ * Configuration in effect for a project: the global configuration with the
+ * project's own settings merged over it
+ */
+export interface ProjectConfig
+  extends LocalStorageConfig,
+    Required<
+      Pick<ProjectSyncConfig, 'enabled' | 'direction' | 'include' | 'exclude'>
+    > {
+  projectRoot: string;
+}
+
+/**
+ * Limits on how much history a project keeps
+ * Sessions beyond a limit are moved to the archive
+ */
+export interface RetentionPolicy {
+  /** Archive sessions not updated for this many days */
+  maxAgeDays?: number;
+  /** Keep at most this many sessions, newest first */
+  maxSessions?: number;
+  /** Keep at most this many megabytes of history, newest first */
+  maxTotalSizeMB?: number;
+  /** Never archive sessions changed in the project's last N commits */
+  keepRecentCommits?: number;
 }
 
 /**
@@ -25,12 +86,208 @@ export interface LocalStorageConfig {
 export interface ConversationMetadata {
   id: string;
   projectPath: string;
+  /** ISO timestamp of the first entry */
   createdAt: string;
+  /** ISO timestamp of the last entry */
   updatedAt: string;
+  /** Number of user prompts and assistant replies */
   messageCount: number;
+  /** Title from the session's latest summary */
   title?: string;
+  /** Text of the first user prompt */
+  firstPrompt?: string;
+  /** Git branch the session was on when it last recorded one */
+  gitBranch?: string;
+  /** Models that replied in the session */
+  models: string[];
+  /** Working directory the session ran in */
+  cwd?: string;
+}
+
+/**
+ * A conversation of a project, with where it is stored and how large it is
+ */
+export interface ConversationListing
+  extends ConversationMetadata,
+    Pick<SessionInfo, 'sides' | 'size'> {}
+
+/**
+ * Order conversations can be listed in
+ */
+export type ConversationSortField =
+  | 'updated'
+  | 'created'
+  | 'size'
+  | 'messages'
+  | 'title';
+
+/**
+ * Conditions a listed conversation has to meet
+ */
+export interface ConversationFilter {
+  /** Only conversations updated at or after this time */
+  since?: Date;
+  /** Only conversations updated at or before this time */
+  until?: Date;
+  /** Only conversations last on this git branch */
+  branch?: string;
+  /** Minimum size in bytes */
+  minSize?: number;
+  /** Maximum size in bytes */
+  maxSize?: number;
+  /** Text the title or first prompt contains, ignoring case */
+  title?: string;
+}
+
+/**
+ * File format a conversation can be exported to
+ */
+export type ExportFormat = 'md' | 'html' | 'json';
+
+/**
+ * A directory of session files, and how to read them
+ */
+export interface ConversationSource {
+  side: 'local' | 'global';
+  path: string;
+  /** Decrypts the content of encrypted session files */
+  decrypt?: (content: Buffer) => Promise<Buffer>;
+}
+
+/**
+ * Who wrote the text a search matches: the user, the assistant, or a tool
+ * call and its result
+ */
+export type SearchRole = 'user' | 'assistant' | 'tool';
+
+/**
+ * What to search conversations for
+ */
+export interface SearchQuery {
+  /** Text to find, or a regular expression */
+  pattern: string;
+  /** Whether the pattern is a regular expression */
+  regex?: boolean;
+  /** Whether case matters (default false) */
+  caseSensitive?: boolean;
+  /** Only search text by these roles (default all) */
+  roles?: SearchRole[];
+  /** Lines of context to include around each match (default 1) */
+  context?: number;
+  /** Stop after this many matches */
+  limit?: number;
+}
+
+/**
+ * A line of a conversation matching a search
+ */
+export interface SearchMatch {
+  sessionId: string;
+  /** Session file the match is in */
+  path: string;
+  side: 'local' | 'global';
+  role: SearchRole;
+  /** 1-based line of the session file holding the matching entry */
+  line: number;
+  timestamp?: string;
+  /** Working directory of the session */
+  cwd?: string;
+  /** Lines of the entry's text before the matching line */
+  before: string[];
+  text: string;
+  /** Lines of the entry's text after the matching line */
+  after: string[];
+}
+
+/**
+ * Contents of the search index of a directory of session files
+ */
+export interface SearchIndexData {
+  version: 1;
+  /** Directory the index covers */
+  directory: string;
+  /** Size and modification time of each session file when it was indexed */
+  files: Record<string, { size: number; mtimeMs: number }>;
+  /** Session files each lowercased word occurs in */
+  terms: Record<string, string[]>;
+}
+
+/**
+ * Fields shared by the entries of a session file
+ */
+interface ConversationEntryBase {
+  /** 1-based line number in the session file */
+  line: number;
+  uuid?: string;
+  parentUuid?: string | null;
+  timestamp?: string;
+  sessionId?: string;
+  cwd?: string;
+  gitBranch?: string;
+}
+
+/**
+ * A prompt typed by the user
+ */
+export interface UserEntry extends ConversationEntryBase {
+  type: 'user';
+  text: string;
+}
+
+/**
+ * Text of an assistant reply
+ */
+export interface AssistantEntry extends ConversationEntryBase {
+  type: 'assistant';
+  text: string;
+  model?: string;
+  /** API message ID, shared by the lines of a reply split across several */
+  messageId?: string;
+}
+
+/**
+ * A tool call made by the assistant
+ */
+export interface ToolUseEntry extends ConversationEntryBase {
+  type: 'tool_use';
+  /** ID the tool's result refers back to */
+  toolUseId: string;
+  name: string;
+  input: unknown;
+  model?: string;
+}
+
+/**
+ * The result of a tool call, sent back to the assistant
+ */
+export interface ToolResultEntry extends ConversationEntryBase {
+  type: 'tool_result';
+  toolUseId: string;
+  text: string;
+  isError: boolean;
+}
+
+/**
+ * A summary Claude Code wrote of the conversation up to a message
+ */
+export interface SummaryEntry extends ConversationEntryBase {
+  type: 'summary';
+  summary: string;
+  leafUuid?: string;
 }
 
+/**
+ * An entry of a session file
+ * A single line can hold several entries, such as an assistant reply
+ * followed by the tools it calls
+ */
+export type ConversationEntry =
+  | UserEntry
+  | AssistantEntry
+  | ToolUseEntry
+  | ToolResultEntry
+  | SummaryEntry;
+
 /**
  * Storage location information
  */
@@ -49,10 +306,473 @@ export interface StorageLocation {
 export interface SyncResult {
   success: boolean;
   filesProcessed: number;
+  /** Files removed because the session was deleted on the other side */
+  filesDeleted: number;
+  /** Lines written by copying whole session files */
+  linesCopied: number;
+  /** Lines added to existing session files by merging */
+  linesMerged: number;
+  /** Bytes written, counting only the new tail of appended session files */
+  bytesTransferred: number;
   errors: Error[];
   duration: number;
 }
 
+/**
+ * A session of a project, on whichever side(s) it exists
+ */
+export interface SessionInfo {
+  id: string;
+  /** ISO timestamp of the session's last entry */
+  updatedAt: string;
+  /** Size in bytes of the session and its companion data */
+  size: number;
+  /** Where the session is stored */
+  sides: Array<'local' | 'global'>;
+}
+
+/**
+ * How the local and global copies of a session compare
+ */
+export type SessionDiffState =
+  | 'identical'
+  | 'different'
+  | 'local-only'
+  | 'global-only';
+
+/**
+ * A line of a session file, by its 1-based line number
+ */
+export interface SessionLine {
+  line: number;
+  text: string;
+}
+
+/**
+ * Differences between the local and global copies of a session
+ * Entries are matched the way syncs merge them: messages by uuid, anything
+ * else by content.
+ */
+export interface SessionDiff {
+  sessionId: string;
+  state: SessionDiffState;
+  /** Entries only the local copy has */
+  localOnly: SessionLine[];
+  /** Entries only the global copy has */
+  globalOnly: SessionLine[];
+  /** Entries both copies have, with different content */
+  changed: Array<{ local: SessionLine; global: SessionLine }>;
+  /** Number of entries identical in both copies */
+  shared: number;
+}
+
+/**
+ * Sessions a prune would archive
+ */
+export interface PrunePlan {
+  projectRoot: string;
+  policy: RetentionPolicy;
+  /** Sessions kept */
+  kept: SessionInfo[];
+  /** Sessions to archive, with the limit each one exceeds */
+  archive: Array<SessionInfo & { reason: string }>;
+}
+
+/**
+ * Result of carrying out a prune plan
+ */
+export interface PruneResult {
+  success: boolean;
+  /** IDs of the archived sessions */
+  archived: string[];
+  errors: Error[];
+}
+
+/**
+ * A file in a history bundle, relative to .claude/history
+ */
+export interface BundleFile {
+  path: string;
+  size: number;
+  /** SHA-256 hex digest of the file content */
+  hash: string;
+}
+
+/**
+ * Description of a history bundle, stored in it as manifest.json
+ */
+export interface BundleManifest {
+  format: 1;
+  /** Version of claude-sync the bundle was created with */
+  toolVersion: string;
+  /** Project root the paths in the bundled sessions refer to */
+  projectRoot: string;
+  /** Storage the history was taken from */
+  source: 'local' | 'global';
+  createdAt: string;
+  files: BundleFile[];
+}
+
+/**
+ * A project's history packed for handing over without its repository
+ * Files hold plaintext, with secrets redacted as in local history.
+ */
+export interface HistoryBundle {
+  manifest: BundleManifest;
+  /** Content of each file, by path relative to .claude/history */
+  files: Map<string, Buffer>;
+}
+
+/**
+ * What importing a bundle did to each of its files
+ */
+export interface BundleImportResult {
+  /** Files the project did not have */
+  added: string[];
+  /** Sessions merged with the project's copy */
+  merged: string[];
+  /** Files the project already had as bundled */
+  unchanged: string[];
+  /** Files that differ from the project's copy and can't be merged; the project's copy is kept */
+  conflicts: string[];
+  /** Files left out by the project's include and exclude globs */
+  excluded: string[];
+}
+
+/**
+ * Direction of a sync between global and local storage
+ */
+export type SyncDirection = 'to-local' | 'to-global' | 'both';
+
+/**
+ * Size and content hash of a file
+ */
+export interface FileFingerprint {
+  size: number;
+  /** SHA-256 hex digest of the file content */
+  hash: string;
+}
+
+/**
+ * The bytes a side of a file held at the last sync
+ * A session file whose new content still starts with them only needs its
+ * tail appended
+ */
+export interface SyncedPrefix {
+  /** Length of the synced content in bytes */
+  offset: number;
+  /** SHA-256 hex digest of the synced content */
+  hash: string;
+}
+
+/**
+ * Sync state recorded for a single conversation file
+ */
+export interface SyncManifestEntry {
+  /** Local copy as of the last sync */
+  local?: FileFingerprint;
+  /** Global copy as of the last sync */
+  global?: FileFingerprint;
+  /** Hash of the content both sides were known to share at the last sync */
+  syncedHash?: string;
+  /** ISO timestamp of the last sync */
+  syncedAt?: string;
+  /** Project root the local copy's paths refer to, when the project was cloned from elsewhere */
+  originalRoot?: string;
+  /** Bytes each side held on disk as of the last sync */
+  prefixes?: { local?: SyncedPrefix; global?: SyncedPrefix };
+}
+
+/**
+ * Record of a deleted conversation file
+ */
+export interface Tombstone {
+  /** ISO timestamp of the deletion */
+  deletedAt: string;
+  /** Side the deletion was first seen on */
+  deletedFrom: 'local' | 'global' | 'both';
+  /** Hashes of the deleted content; copies matching these are stale */
+  hashes: string[];
+}
+
+/**
+ * Contents of a project's sync manifest (.claude/history/.sync-state.json)
+ */
+export interface SyncManifestData {
+  version: 1;
+  files: Record<string, SyncManifestEntry>;
+  tombstones: Record<string, Tombstone>;
+}
+
+/**
+ * How a file has changed since it was last synced
+ */
+export type FileSyncState =
+  | 'unchanged'
+  | 'local-changed'
+  | 'global-changed'
+  | 'both-changed'
+  | 'local-only'
+  | 'global-only'
+  | 'local-deleted'
+  | 'global-deleted'
+  | 'both-deleted'
+  | 'stale';
+
+/**
+ * What a sync does with a single file
+ */
+export type SyncActionType = 'copy' | 'merge' | 'delete' | 'skip' | 'conflict';
+
+/**
+ * Planned action for a single conversation file
+ */
+export interface SyncAction {
+  /** File name relative to the history directories */
+  file: string;
+  action: SyncActionType;
+  /** Side(s) the action writes to */
+  direction: SyncDirection;
+  /** How the file changed since the last sync */
+  state: FileSyncState;
+  /** Human-readable explanation of the action */
+  reason: string;
+}
+
+/**
+ * Everything a sync would do for a project
+ */
+export interface SyncPlan {
+  projectRoot: string;
+  direction: SyncDirection;
+  /** Local history directory (.claude/history) */
+  localPath: string;
+  /** Global project directory (~/.claude/projects/<encoded-path>) */
+  globalPath: string;
+  actions: SyncAction[];
+}
+
+/**
+ * Options for StorageManager
+ */
+export interface StorageManagerOptions {
+  /** Days a deleted session stays tombstoned (default 30) */
+  tombstoneGraceDays?: number;
+  /** Whether to redact secrets from sessions synced into projects (default true) */
+  redactSecrets?: boolean;
+  /** Custom redaction rules, applied after the built-in detectors */
+  redactionRules?: RedactionRuleConfig[];
+  /** Directory holding encryption keys (default ~/.claude-sync/keys) */
+  keyStorePath?: string;
+  /** Directory pruned sessions are moved to (default ~/.claude-sync/archive) */
+  archivePath?: string;
+}
+
+/**
+ * Options for DaemonProcess
+ */
+export interface DaemonProcessOptions {
+  /** File holding the daemon's PID (default ~/.claude-sync-daemon.pid) */
+  pidFile?: string;
+  /** File the daemon's console output goes to (default ~/.claude-sync/logs/daemon.out) */
+  logFile?: string;
+  /** How long to wait for a new daemon to report it is ready (default 60s) */
+  readyTimeoutMs?: number;
+  /** How long to wait for the daemon to exit before killing it (default 10s) */
+  stopTimeoutMs?: number;
+}
+
+/**
+ * How stopping the daemon went
+ */
+export type DaemonStopResult = 'stopped' | 'killed' | 'not-running';
+
+/**
+ * Severity of a log record, from least to most severe
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * A line of the daemon's log
+ */
+export interface LogRecord {
+  /** When it was logged (ISO 8601) */
+  time: string;
+  level: LogLevel;
+  message: string;
+  project?: string;
+  direction?: SyncDirection;
+  /** Files written or deleted by a sync */
+  files?: number;
+  durationMs?: number;
+  error?: string;
+}
+
+/**
+ * Filter for reading the daemon's log
+ */
+export interface LogFilter {
+  /** Least severe level to include */
+  level?: LogLevel;
+  /** Only include records of this project */
+  project?: string;
+}
+
+/**
+ * Options for Logger
+ */
+export interface LoggerOptions {
+  /** File to append JSON lines to; without one, records are only echoed */
+  file?: string;
+  /** Least severe level recorded (default info) */
+  level?: LogLevel;
+  /** Size at which the file is rotated (default 5 MB) */
+  maxBytes?: number;
+  /** Rotated files kept, as file.1 (newest) to file.N (default 3) */
+  maxFiles?: number;
+  /** Also print records to the console (default true) */
+  echo?: boolean;
+}
+
+/**
+ * How the daemon finds projects to monitor
+ */
+export interface DiscoveryOptions {
+  /** Directory levels read below each search path (default 3, finding projects up to two levels down) */
+  scanDepth?: number;
+  /** Globs of directories not scanned or watched, relative to the search path (default .* and node_modules) */
+  exclude?: string[];
+  /** Projects monitored wherever they are, added with `claude-sync track` */
+  trackedProjects?: string[];
+}
+
+/**
+ * The daemon's settings in ~/.claude-sync-config.json
+ */
+export interface DaemonConfig extends DiscoveryOptions {
+  /** Directories scanned and watched for projects */
+  searchPaths: string[];
+  /** Whether auto-sync was left enabled */
+  enabled?: boolean;
+  /** Least severe level the daemon logs */
+  logLevel?: LogLevel;
+}
+
+/**
+ * What reloading the daemon's config changed
+ */
+export interface DaemonReloadResult {
+  /** Search paths now scanned and watched */
+  added: string[];
+  /** Search paths no longer watched, along with their projects */
+  removed: string[];
+}
+
+/**
+ * A project the daemon monitors, as reported by its status
+ */
+export interface DaemonProjectStatus {
+  root: string;
+  /** When the project last synced without errors (ISO 8601) */
+  lastSyncedAt: string | null;
+  /** Error of the latest sync, cleared by a successful one */
+  lastError: string | null;
+}
+
+/**
+ * An error the daemon ran into
+ */
+export interface DaemonError {
+  /** When it happened (ISO 8601) */
+  time: string;
+  /** Project it happened in, if any */
+  project: string | null;
+  message: string;
+}
+
+/**
+ * Status of a running SyncDaemon
+ */
+export interface DaemonStatus {
+  running: boolean;
+  /** Whether syncing on changes is paused */
+  paused: boolean;
+  pid: number;
+  startedAt: string | null;
+  searchPaths: string[];
+  /** Projects monitored outside the search paths' discovery */
+  trackedProjects: string[];
+  projectCount: number;
+  projects: string[];
+  projectDetails: DaemonProjectStatus[];
+  /** The latest errors, oldest first */
+  recentErrors: DaemonError[];
+}
+
+/**
+ * A JSON-RPC 2.0 request sent over the daemon's control socket
+ */
+export interface ControlRequest {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * A JSON-RPC 2.0 response from the daemon's control socket
+ */
+export interface ControlResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Options for calling the daemon over its control socket
+ */
+export interface CallDaemonOptions {
+  /** Socket to connect to (default ~/.claude-sync/daemon.sock) */
+  socketPath?: string;
+  /** How long to wait for the answer (default 60s, syncs can take a while) */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for SystemdService
+ */
+export interface SystemdServiceOptions {
+  /** Unit file to write (default ~/.config/systemd/user/claude-sync.service) */
+  unitPath?: string;
+  /** Runs `systemctl --user` with the given arguments and returns its output */
+  systemctl?: (args: string[]) => Promise<string>;
+}
+
+/**
+ * State of the systemd service running the daemon
+ */
+export interface ServiceStatus {
+  installed: boolean;
+  unitPath: string;
+  /** systemd's ActiveState, such as active, inactive or failed */
+  activeState?: string;
+  /** systemd's UnitFileState, such as enabled or disabled */
+  unitFileState?: string;
+}
+
+/**
+ * A custom secret detector
+ */
+export interface RedactionRuleConfig {
+  /** Name shown in the redaction marker and log */
+  name: string;
+  /** Regular expression source; a named group `secret` limits what is replaced */
+  pattern: string;
+  /** Regular expression flags (g is always added) */
+  flags?: string;
+}
+
 /**
  * Project detection result
  */
@@ -66,3 +786,42 @@ export interface ProjectInfo {
   /** Whether local storage is initialized */
   hasLocalStorage: boolean;
 }
+
+/**
+ * Encryption settings of a project, stored in .claude/encryption.json
+ * Its presence turns on encryption of .claude/history
+ */
+export interface EncryptionConfig {
+  version: 1;
+  cipher: 'aes-256-gcm';
+  /** ID of the current key */
+  keyId: string;
+  /** How the key is derived from a passphrase, when it is */
+  kdf?: {
+    name: 'scrypt';
+    /** Base64 salt */
+    salt: string;
+    N: number;
+    r: number;
+    p: number;
+  };
+}
+
+/**
+ * Where a key comes from when it is created or added
+ * With neither option, a random key is generated
+ */
+export interface KeySource {
+  /** Derive the key from a passphrase */
+  passphrase?: string;
+  /** Read the key from a file, or write a new random key there */
+  keyFile?: string;
+}
+
+/**
+ * The key a project's history is encrypted with
+ */
+export interface ProjectKey {
+  keyId: string;
+  key: Buffer;
+}
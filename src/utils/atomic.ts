@@ -0,0 +1,55 @@
+import { randomBytes } from 'node:crypto';
+import { open, rename, copyFile, unlink } from 'node:fs/promises';
+import { join, dirname, basename } from 'node:path';
+
+/**
+ * Get a temporary path next to a file, on the same filesystem so it can be
+ * renamed into place atomically
+ */
+function getTempPath(path: string): string {
+  const suffix = `${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  return join(dirname(path), `.${basename(path)}.${suffix}`);
+}
+
+/**
+ * Write a file by writing a temporary file and renaming it into place
+ * Readers see either the old content or the new content, never a mix
+ */
+export async function writeFileAtomic(
+  path: string,
+  data: string | Buffer
+): Promise<void> {
+  const tempPath = getTempPath(path);
+
+  try {
+    const handle = await open(tempPath, 'w');
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(tempPath, path);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Copy a file by copying to a temporary file and renaming it into place
+ */
+export async function copyFileAtomic(
+  sourcePath: string,
+  destPath: string
+): Promise<void> {
+  const tempPath = getTempPath(destPath);
+
+  try {
+    await copyFile(sourcePath, tempPath);
+    await rename(tempPath, destPath);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
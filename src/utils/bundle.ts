@@ -0,0 +1,161 @@
+import { readFile } from 'node:fs/promises';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import type { BundleManifest, HistoryBundle } from '../types/index.js';
+import { hashContent } from './hash.js';
+import { writeFileAtomic } from './atomic.js';
+import { createTar, readTar } from './tar.js';
+
+/**
+ * Name of the manifest inside a bundle
+ */
+export const BUNDLE_MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Directory inside a bundle holding the history files
+ */
+const HISTORY_DIR = 'history/';
+
+/**
+ * Get the version of claude-sync from its package.json
+ */
+export async function getToolVersion(): Promise<string> {
+  try {
+    const pkg = JSON.parse(
+      await readFile(new URL('../../package.json', import.meta.url), 'utf-8')
+    );
+    return typeof pkg.version === 'string' ? pkg.version : 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Check that a bundled path stays inside the history directory and leaves
+ * its dotfiles, such as the sync manifest and lock, alone
+ */
+function isSafePath(path: string): boolean {
+  return (
+    path.length > 0 &&
+    !path.startsWith('/') &&
+    !path.includes('\\') &&
+    path.split('/').every((part) => part !== '' && !part.startsWith('.'))
+  );
+}
+
+/**
+ * Create a bundle of history files, recording their hashes
+ * @param projectRoot Project root the paths in the sessions refer to
+ */
+export function createBundle(
+  projectRoot: string,
+  source: BundleManifest['source'],
+  files: Map<string, Buffer>,
+  toolVersion: string
+): HistoryBundle {
+  const paths = Array.from(files.keys()).sort();
+  return {
+    manifest: {
+      format: 1,
+      toolVersion,
+      projectRoot,
+      source,
+      createdAt: new Date().toISOString(),
+      files: paths.map((path) => ({
+        path,
+        size: files.get(path)!.length,
+        hash: hashContent(files.get(path)!),
+      })),
+    },
+    files: new Map(paths.map((path) => [path, files.get(path)!])),
+  };
+}
+
+/**
+ * Encode a bundle as a gzipped tar archive: manifest.json, then the history
+ * files under history/
+ */
+export function encodeBundle(bundle: HistoryBundle): Buffer {
+  return gzipSync(
+    createTar([
+      {
+        name: BUNDLE_MANIFEST_FILE,
+        content: Buffer.from(JSON.stringify(bundle.manifest, null, 2) + '\n'),
+      },
+      ...bundle.manifest.files.map((file) => ({
+        name: HISTORY_DIR + file.path,
+        content: bundle.files.get(file.path)!,
+      })),
+    ])
+  );
+}
+
+/**
+ * Decode a bundle, checking every file against the manifest
+ * @throws If the data is not a bundle, or a file is missing or damaged
+ */
+export function decodeBundle(data: Buffer): HistoryBundle {
+  let entries;
+  try {
+    entries = readTar(gunzipSync(data));
+  } catch {
+    throw new Error('Not a claude-sync bundle');
+  }
+
+  const manifestEntry = entries.find(
+    (entry) => entry.name === BUNDLE_MANIFEST_FILE
+  );
+  if (!manifestEntry) {
+    throw new Error(`Not a claude-sync bundle: no ${BUNDLE_MANIFEST_FILE}`);
+  }
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(manifestEntry.content.toString('utf-8'));
+  } catch {
+    throw new Error(`Could not parse the bundle's ${BUNDLE_MANIFEST_FILE}`);
+  }
+  if (manifest.format !== 1 || !Array.isArray(manifest.files)) {
+    throw new Error(`Unsupported bundle format: ${manifest.format}`);
+  }
+
+  const contents = new Map(
+    entries
+      .filter((entry) => entry.name.startsWith(HISTORY_DIR))
+      .map((entry) => [entry.name.slice(HISTORY_DIR.length), entry.content])
+  );
+  const files = new Map<string, Buffer>();
+  for (const file of manifest.files) {
+    if (!isSafePath(file.path)) {
+      throw new Error(`Invalid path in bundle: ${file.path}`);
+    }
+    const content = contents.get(file.path);
+    if (!content) {
+      throw new Error(`Bundle is damaged: ${file.path} is missing`);
+    }
+    if (hashContent(content) !== file.hash) {
+      throw new Error(
+        `Bundle is damaged: ${file.path} does not match its hash`
+      );
+    }
+    files.set(file.path, content);
+  }
+
+  return { manifest, files };
+}
+
+/**
+ * Write a bundle to a file
+ */
+export async function writeBundle(
+  path: string,
+  bundle: HistoryBundle
+): Promise<void> {
+  await writeFileAtomic(path, encodeBundle(bundle));
+}
+
+/**
+ * Read a bundle from a file
+ * @throws If the file is not a bundle, or a file in it is missing or damaged
+ */
+export async function readBundle(path: string): Promise<HistoryBundle> {
+  return decodeBundle(await readFile(path));
+}
@@ -0,0 +1,96 @@
+import { createConnection } from 'node:net';
+import type {
+  CallDaemonOptions,
+  ControlRequest,
+  ControlResponse,
+} from '../types/index.js';
+import { getControlSocketPath } from './paths.js';
+
+/**
+ * JSON-RPC 2.0 error codes used by the control socket
+ */
+export const CONTROL_ERRORS = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  failed: -32000,
+} as const;
+
+/**
+ * Split newline-delimited messages out of data received on a socket
+ * @returns The complete lines, and what is left of an incomplete one
+ */
+export function splitLines(buffered: string): {
+  lines: string[];
+  rest: string;
+} {
+  const lines = buffered.split('\n');
+  const rest = lines.pop()!;
+  return { lines: lines.filter((line) => line.trim()), rest };
+}
+
+/**
+ * Call a method of the running daemon over its control socket
+ * Requests and responses are JSON-RPC 2.0 messages, one per line.
+ * @throws If the daemon is not running, doesn't answer in time, or the
+ * method fails
+ */
+export function callDaemon<T>(
+  method: string,
+  params: Record<string, unknown> = {},
+  options: CallDaemonOptions = {}
+): Promise<T> {
+  const socketPath = options.socketPath || getControlSocketPath();
+  const timeoutMs = options.timeoutMs ?? 60_000;
+  const request: ControlRequest = { jsonrpc: '2.0', id: 1, method, params };
+
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(socketPath);
+    let buffered = '';
+    let settled = false;
+    const settle = (error: Error | null, result?: unknown) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result as T);
+      }
+    };
+
+    socket.setTimeout(timeoutMs, () =>
+      settle(new Error(`The daemon did not answer ${method} in time`))
+    );
+    socket.on('connect', () => socket.write(JSON.stringify(request) + '\n'));
+    socket.on('data', (data) => {
+      const { lines, rest } = splitLines(buffered + data.toString('utf-8'));
+      buffered = rest;
+      if (lines.length === 0) return;
+
+      let response: ControlResponse;
+      try {
+        response = JSON.parse(lines[0]);
+      } catch {
+        settle(new Error('The daemon sent an invalid response'));
+        return;
+      }
+      if (response.error) {
+        settle(new Error(response.error.message));
+      } else {
+        settle(null, response.result);
+      }
+    });
+    socket.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+        settle(new Error('The daemon is not running'));
+      } else {
+        settle(error);
+      }
+    });
+    socket.on('close', () =>
+      settle(new Error('The daemon closed the connection without answering'))
+    );
+  });
+}
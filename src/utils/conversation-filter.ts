@@ -0,0 +1,69 @@
+import type {
+  ConversationFilter,
+  ConversationListing,
+  ConversationMetadata,
+  ConversationSortField,
+} from '../types/index.js';
+
+/**
+ * Get the title a conversation is shown with: its summary, or else its first
+ * prompt
+ */
+export function getDisplayTitle(conversation: ConversationMetadata): string {
+  return conversation.title || conversation.firstPrompt || '';
+}
+
+/**
+ * Keep the conversations that meet every condition of a filter
+ */
+export function filterConversations(
+  conversations: ConversationListing[],
+  filter: ConversationFilter
+): ConversationListing[] {
+  const title = filter.title?.toLowerCase();
+
+  return conversations.filter((conversation) => {
+    const updatedAt = new Date(conversation.updatedAt).getTime();
+    if (filter.since && updatedAt < filter.since.getTime()) return false;
+    if (filter.until && updatedAt > filter.until.getTime()) return false;
+    if (filter.branch && conversation.gitBranch !== filter.branch) return false;
+    if (filter.minSize !== undefined && conversation.size < filter.minSize) {
+      return false;
+    }
+    if (filter.maxSize !== undefined && conversation.size > filter.maxSize) {
+      return false;
+    }
+    return (
+      !title || getDisplayTitle(conversation).toLowerCase().includes(title)
+    );
+  });
+}
+
+/**
+ * Sort conversations, newest, largest or longest first, or by title from A
+ * to Z
+ * @param reverse Reverse the order
+ */
+export function sortConversations(
+  conversations: ConversationListing[],
+  field: ConversationSortField = 'updated',
+  reverse = false
+): ConversationListing[] {
+  const compare = (a: ConversationListing, b: ConversationListing): number => {
+    switch (field) {
+      case 'created':
+        return b.createdAt.localeCompare(a.createdAt);
+      case 'size':
+        return b.size - a.size;
+      case 'messages':
+        return b.messageCount - a.messageCount;
+      case 'title':
+        return getDisplayTitle(a).localeCompare(getDisplayTitle(b));
+      default:
+        return b.updatedAt.localeCompare(a.updatedAt);
+    }
+  };
+
+  const sorted = [...conversations].sort(compare);
+  return reverse ? sorted.reverse() : sorted;
+}
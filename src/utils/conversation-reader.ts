@@ -0,0 +1,275 @@
+import { createReadStream } from 'node:fs';
+import { open, readFile, stat } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { basename } from 'node:path';
+import type {
+  ConversationEntry,
+  ConversationMetadata,
+} from '../types/index.js';
+import { isEncrypted } from './crypto.js';
+
+/**
+ * Options for reading a session file
+ */
+export interface ReadConversationOptions {
+  /** Decrypts the file's content, for encrypted local history */
+  decrypt?: (content: Buffer) => Promise<Buffer>;
+  /** Rewrites the file's text before it is parsed, such as to redact secrets */
+  transform?: (content: string) => string;
+}
+
+/**
+ * Bytes read to tell whether a file is encrypted
+ */
+const HEADER_PEEK_BYTES = 64;
+
+/**
+ * Check whether a file starts like content encrypted by claude-sync
+ */
+async function isEncryptedFile(path: string): Promise<boolean> {
+  const handle = await open(path, 'r');
+  try {
+    const header = Buffer.alloc(HEADER_PEEK_BYTES);
+    const { bytesRead } = await handle.read(header, 0, HEADER_PEEK_BYTES, 0);
+    return isEncrypted(header.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read the lines of a session file
+ * Plain files are streamed; encrypted and transformed files have to be
+ * read whole
+ */
+async function* readLines(
+  path: string,
+  options: ReadConversationOptions
+): AsyncGenerator<string> {
+  let text: string | null = null;
+  if (await isEncryptedFile(path)) {
+    if (!options.decrypt) {
+      throw new Error(`${path} is encrypted`);
+    }
+    text = (await options.decrypt(await readFile(path))).toString('utf-8');
+  } else if (options.transform) {
+    text = await readFile(path, 'utf-8');
+  }
+  if (text !== null) {
+    yield* (options.transform ? options.transform(text) : text).split('\n');
+    return;
+  }
+
+  const lines = createInterface({
+    input: createReadStream(path),
+    crlfDelay: Infinity,
+  });
+  yield* lines;
+}
+
+/**
+ * Get the text of a message content, or of a tool result's content
+ * Images and other non-text blocks are left out
+ */
+function getText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return '';
+  }
+  return content
+    .filter((block) => block?.type === 'text' && typeof block.text === 'string')
+    .map((block) => block.text)
+    .join('\n');
+}
+
+/**
+ * Get a string field of a parsed line
+ */
+function getString(
+  data: Record<string, unknown>,
+  field: string
+): string | undefined {
+  const value = data[field];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Parse one line of a session file into its entries
+ * Lines that are not valid JSON, and bookkeeping lines such as file history
+ * snapshots or meta messages, have no entries
+ * @param lineNumber 1-based line number, recorded on each entry
+ */
+export function parseConversationLine(
+  line: string,
+  lineNumber: number
+): ConversationEntry[] {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    return [];
+  }
+  if (typeof data !== 'object' || data === null) {
+    return [];
+  }
+
+  const base = {
+    line: lineNumber,
+    uuid: getString(data, 'uuid'),
+    parentUuid: getString(data, 'parentUuid') ?? null,
+    timestamp: getString(data, 'timestamp'),
+    sessionId: getString(data, 'sessionId'),
+    cwd: getString(data, 'cwd'),
+    gitBranch: getString(data, 'gitBranch'),
+  };
+
+  if (data.type === 'summary' && typeof data.summary === 'string') {
+    return [
+      {
+        ...base,
+        type: 'summary',
+        summary: data.summary,
+        leafUuid: getString(data, 'leafUuid'),
+      },
+    ];
+  }
+
+  const message = data.message as Record<string, unknown> | undefined;
+  if (
+    (data.type !== 'user' && data.type !== 'assistant') ||
+    typeof message !== 'object' ||
+    message === null ||
+    data.isMeta === true
+  ) {
+    return [];
+  }
+
+  const blocks = Array.isArray(message.content) ? message.content : [];
+  const text = getText(message.content);
+  const entries: ConversationEntry[] = [];
+
+  if (data.type === 'user') {
+    for (const block of blocks) {
+      if (block?.type === 'tool_result') {
+        entries.push({
+          ...base,
+          type: 'tool_result',
+          toolUseId: String(block.tool_use_id ?? ''),
+          text: getText(block.content),
+          isError: block.is_error === true,
+        });
+      }
+    }
+    if (text) {
+      entries.push({ ...base, type: 'user', text });
+    }
+    return entries;
+  }
+
+  const model = getString(message, 'model');
+  if (text) {
+    entries.push({
+      ...base,
+      type: 'assistant',
+      text,
+      model,
+      messageId: getString(message, 'id'),
+    });
+  }
+  for (const block of blocks) {
+    if (block?.type === 'tool_use') {
+      entries.push({
+        ...base,
+        type: 'tool_use',
+        toolUseId: String(block.id ?? ''),
+        name: String(block.name ?? ''),
+        input: block.input,
+        model,
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Read the entries of a session file one line at a time
+ */
+export async function* readConversation(
+  path: string,
+  options: ReadConversationOptions = {}
+): AsyncGenerator<ConversationEntry> {
+  let lineNumber = 0;
+  for await (const line of readLines(path, options)) {
+    lineNumber++;
+    if (line.trim()) {
+      yield* parseConversationLine(line, lineNumber);
+    }
+  }
+}
+
+/**
+ * Read the metadata of a session file
+ * Timestamps fall back to the file's own times when no entry has one
+ */
+export async function readConversationMetadata(
+  path: string,
+  projectPath: string,
+  options: ReadConversationOptions = {}
+): Promise<ConversationMetadata> {
+  const metadata: ConversationMetadata = {
+    id: basename(path, '.jsonl'),
+    projectPath,
+    createdAt: '',
+    updatedAt: '',
+    messageCount: 0,
+    models: [],
+  };
+  const models = new Set<string>();
+  // Claude Code writes each block of a reply on its own line
+  const replies = new Set<string>();
+
+  for await (const entry of readConversation(path, options)) {
+    if (entry.timestamp) {
+      metadata.createdAt = metadata.createdAt || entry.timestamp;
+      metadata.updatedAt = entry.timestamp;
+    }
+    metadata.gitBranch = entry.gitBranch || metadata.gitBranch;
+    metadata.cwd = metadata.cwd || entry.cwd;
+
+    switch (entry.type) {
+      case 'user':
+        metadata.messageCount++;
+        metadata.firstPrompt = metadata.firstPrompt ?? entry.text;
+        break;
+      case 'assistant':
+        if (!entry.messageId || !replies.has(entry.messageId)) {
+          metadata.messageCount++;
+        }
+        if (entry.messageId) {
+          replies.add(entry.messageId);
+        }
+        break;
+      case 'summary':
+        metadata.title = entry.summary;
+        break;
+    }
+    // Synthetic replies, such as API errors, are marked <synthetic>
+    if (
+      (entry.type === 'assistant' || entry.type === 'tool_use') &&
+      entry.model &&
+      !entry.model.startsWith('<')
+    ) {
+      models.add(entry.model);
+    }
+  }
+
+  if (!metadata.createdAt) {
+    const fileStat = await stat(path);
+    metadata.createdAt = fileStat.birthtime.toISOString();
+    metadata.updatedAt = fileStat.mtime.toISOString();
+  }
+  metadata.models = Array.from(models);
+  return metadata;
+}
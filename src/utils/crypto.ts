@@ -0,0 +1,156 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  scrypt,
+} from 'node:crypto';
+
+/**
+ * Marks a file as encrypted by claude-sync, followed by a format version
+ */
+const MAGIC = Buffer.from('CSE1');
+
+const KEY_BYTES = 32;
+const KEY_ID_BYTES = 8;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = MAGIC.length + KEY_ID_BYTES + IV_BYTES + TAG_BYTES;
+
+/**
+ * scrypt cost parameters for passphrase-derived keys
+ */
+export const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+
+/**
+ * Highest scrypt parameters accepted from a project's settings, which are
+ * committed and so could otherwise make deriving a key take any amount of
+ * memory
+ */
+export const SCRYPT_LIMITS = { N: SCRYPT_PARAMS.N, r: 16, p: 16 };
+
+/**
+ * Generate a random 256-bit key
+ */
+export function generateKey(): Buffer {
+  return randomBytes(KEY_BYTES);
+}
+
+/**
+ * Generate a random salt for deriving a key from a passphrase
+ */
+export function generateSalt(): Buffer {
+  return randomBytes(16);
+}
+
+/**
+ * Derive a 256-bit key from a passphrase with scrypt
+ */
+export function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number } = SCRYPT_PARAMS
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase,
+      salt,
+      KEY_BYTES,
+      { ...params, maxmem: 256 * params.N * params.r },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+/**
+ * Get the public identifier of a key
+ * It tells which key a file was encrypted with without revealing the key
+ */
+export function getKeyId(key: Buffer): string {
+  return createHash('sha256')
+    .update('claude-sync key id\0')
+    .update(key)
+    .digest()
+    .subarray(0, KEY_ID_BYTES)
+    .toString('hex');
+}
+
+/**
+ * Encode a key as text, for key files and exporting
+ */
+export function encodeKey(key: Buffer): string {
+  return key.toString('base64');
+}
+
+/**
+ * Decode a key written by encodeKey
+ * @throws If the text is not a 256-bit key
+ */
+export function decodeKey(text: string): Buffer {
+  const key = Buffer.from(text.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error('Invalid key: expected 32 bytes encoded as base64');
+  }
+  return key;
+}
+
+/**
+ * Check whether content was encrypted by encryptContent
+ */
+export function isEncrypted(content: Buffer): boolean {
+  return (
+    content.length >= HEADER_BYTES &&
+    content.subarray(0, MAGIC.length).equals(MAGIC)
+  );
+}
+
+/**
+ * Get the ID of the key encrypted content was encrypted with
+ */
+export function getContentKeyId(content: Buffer): string {
+  return content
+    .subarray(MAGIC.length, MAGIC.length + KEY_ID_BYTES)
+    .toString('hex');
+}
+
+/**
+ * Encrypt content with AES-256-GCM
+ * Layout: magic, key ID, IV, authentication tag, ciphertext
+ */
+export function encryptContent(content: Buffer, key: Buffer): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const keyId = Buffer.from(getKeyId(key), 'hex');
+  // The header is authenticated too, so it can't be swapped
+  cipher.setAAD(Buffer.concat([MAGIC, keyId]));
+  const ciphertext = Buffer.concat([cipher.update(content), cipher.final()]);
+
+  return Buffer.concat([MAGIC, keyId, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypt content written by encryptContent
+ * @throws If the key doesn't match or the content was tampered with
+ */
+export function decryptContent(content: Buffer, key: Buffer): Buffer {
+  const keyId = getContentKeyId(content);
+  if (keyId !== getKeyId(key)) {
+    throw new Error(`Content was encrypted with a different key (${keyId})`);
+  }
+
+  let offset = MAGIC.length + KEY_ID_BYTES;
+  const iv = content.subarray(offset, (offset += IV_BYTES));
+  const tag = content.subarray(offset, (offset += TAG_BYTES));
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(content.subarray(0, MAGIC.length + KEY_ID_BYTES));
+  decipher.setAuthTag(tag);
+
+  try {
+    return Buffer.concat([
+      decipher.update(content.subarray(offset)),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new Error('Encrypted content is corrupt or was tampered with');
+  }
+}
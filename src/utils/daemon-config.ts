@@ -0,0 +1,158 @@
+import { readFile } from 'node:fs/promises';
+import { basename, relative, isAbsolute, sep } from 'node:path';
+import type { DaemonConfig, LogLevel } from '../types/index.js';
+import { writeFileAtomic } from './atomic.js';
+import { matchesGlob } from './glob.js';
+import { LOG_LEVELS } from './logs.js';
+import { getDaemonConfigPath, resolvePath } from './paths.js';
+
+/**
+ * Directory levels read below each search path when looking for projects
+ */
+export const DEFAULT_SCAN_DEPTH = 3;
+
+/**
+ * Directories not scanned or watched for projects unless the config says
+ * otherwise
+ */
+export const DEFAULT_SCAN_EXCLUDE = ['.*', 'node_modules'];
+
+/**
+ * Check whether a value is an array of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
+}
+
+/**
+ * Read the daemon's config
+ * @returns null when there is no config yet
+ * @throws If the file is not valid JSON or holds an invalid setting
+ */
+export async function readDaemonConfig(
+  configPath: string = getDaemonConfigPath()
+): Promise<DaemonConfig | null> {
+  let text: string;
+  try {
+    text = await readFile(configPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  let config: Record<string, unknown>;
+  try {
+    config = JSON.parse(text);
+  } catch {
+    throw new Error(`Could not parse ${configPath}`);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`Invalid settings in ${configPath}`);
+  }
+
+  const {
+    searchPaths,
+    enabled,
+    logLevel,
+    scanDepth,
+    exclude,
+    trackedProjects,
+  } = config;
+  if (!isStringArray(searchPaths)) {
+    throw new Error(`Invalid setting \`searchPaths\` in ${configPath}`);
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    throw new Error(`Invalid setting \`enabled\` in ${configPath}`);
+  }
+  if (logLevel !== undefined && !LOG_LEVELS.includes(logLevel as LogLevel)) {
+    throw new Error(`Invalid setting \`logLevel\` in ${configPath}`);
+  }
+  if (
+    scanDepth !== undefined &&
+    (!Number.isInteger(scanDepth) || (scanDepth as number) < 1)
+  ) {
+    throw new Error(`Invalid setting \`scanDepth\` in ${configPath}`);
+  }
+  if (exclude !== undefined && !isStringArray(exclude)) {
+    throw new Error(`Invalid setting \`exclude\` in ${configPath}`);
+  }
+  if (trackedProjects !== undefined && !isStringArray(trackedProjects)) {
+    throw new Error(`Invalid setting \`trackedProjects\` in ${configPath}`);
+  }
+  return config as unknown as DaemonConfig;
+}
+
+/**
+ * Write the daemon's config
+ * It is replaced atomically, so a running daemon never reloads half of it.
+ */
+export async function writeDaemonConfig(
+  config: DaemonConfig,
+  configPath: string = getDaemonConfigPath()
+): Promise<void> {
+  await writeFileAtomic(configPath, JSON.stringify(config, null, 2) + '\n');
+}
+
+/**
+ * Compare two lists of search paths
+ * Paths are compared once resolved, so relative and absolute forms match.
+ */
+export function diffPaths(
+  before: string[],
+  after: string[]
+): { added: string[]; removed: string[] } {
+  const previous = new Set(before.map((path) => resolvePath(path)));
+  const next = new Set(after.map((path) => resolvePath(path)));
+  return {
+    added: [...next].filter((path) => !previous.has(path)),
+    removed: [...previous].filter((path) => !next.has(path)),
+  };
+}
+
+/**
+ * Check whether a path is a directory or inside it
+ */
+export function isWithin(path: string, directory: string): boolean {
+  const rel = relative(resolvePath(directory), resolvePath(path));
+  return rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/**
+ * Check whether a directory below a search path is left out of discovery
+ * .claude directories are never left out, they are what marks a project.
+ * @param path Path relative to the search path
+ * @param exclude Globs of directories to leave out
+ */
+export function isExcludedFromScan(path: string, exclude: string[]): boolean {
+  return (
+    path !== '' && basename(path) !== '.claude' && matchesGlob(path, exclude)
+  );
+}
+
+/**
+ * Check whether scanning a search path finds a project
+ * The project has to be within the scan depth, and neither it nor a
+ * directory on the way to it may be excluded.
+ */
+export function isDiscoverable(
+  projectRoot: string,
+  searchPath: string,
+  scanDepth: number,
+  exclude: string[]
+): boolean {
+  if (!isWithin(projectRoot, searchPath)) {
+    return false;
+  }
+  const rel = relative(resolvePath(searchPath), resolvePath(projectRoot));
+  const segments = rel ? rel.split(sep) : [];
+  if (segments.length >= scanDepth) {
+    return false;
+  }
+  return segments.every(
+    (_, i) => !isExcludedFromScan(segments.slice(0, i + 1).join('/'), exclude)
+  );
+}
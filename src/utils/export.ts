@@ -0,0 +1,421 @@
+import type {
+  ConversationEntry,
+  ConversationMetadata,
+  ExportFormat,
+  ToolResultEntry,
+  ToolUseEntry,
+} from '../types/index.js';
+import { getDisplayTitle } from './conversation-filter.js';
+import { formatTimestamp, truncate } from './format.js';
+import { summarizeToolInput } from './transcript.js';
+
+/**
+ * One speaker's turn in a conversation: what they wrote and the tools they
+ * called, in order
+ */
+interface Turn {
+  speaker: 'user' | 'assistant';
+  timestamp?: string;
+  model?: string;
+  items: TurnItem[];
+}
+
+type TurnItem =
+  | { type: 'text'; text: string }
+  | { type: 'tool'; call: ToolUseEntry; result?: ToolResultEntry }
+  | { type: 'result'; result: ToolResultEntry };
+
+/**
+ * Group the entries of a conversation into turns
+ * Tool results are attached to their calls; results without a call are kept
+ * where they are.
+ */
+function groupTurns(entries: ConversationEntry[]): Turn[] {
+  const results = new Map<string, ToolResultEntry>();
+  const calls = new Set<string>();
+  for (const entry of entries) {
+    if (entry.type === 'tool_result') {
+      results.set(entry.toolUseId, entry);
+    } else if (entry.type === 'tool_use') {
+      calls.add(entry.toolUseId);
+    }
+  }
+
+  const turns: Turn[] = [];
+  const getTurn = (
+    speaker: Turn['speaker'],
+    entry: ConversationEntry,
+    model?: string
+  ): Turn => {
+    const last = turns[turns.length - 1];
+    if (speaker === 'assistant' && last?.speaker === 'assistant') {
+      return last;
+    }
+    const turn: Turn = {
+      speaker,
+      timestamp: entry.timestamp,
+      model,
+      items: [],
+    };
+    turns.push(turn);
+    return turn;
+  };
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case 'user':
+        getTurn('user', entry).items.push({ type: 'text', text: entry.text });
+        break;
+      case 'assistant':
+        getTurn('assistant', entry, entry.model).items.push({
+          type: 'text',
+          text: entry.text,
+        });
+        break;
+      case 'tool_use':
+        getTurn('assistant', entry, entry.model).items.push({
+          type: 'tool',
+          call: entry,
+          result: results.get(entry.toolUseId),
+        });
+        break;
+      case 'tool_result':
+        if (!calls.has(entry.toolUseId)) {
+          getTurn('assistant', entry).items.push({
+            type: 'result',
+            result: entry,
+          });
+        }
+        break;
+    }
+  }
+  return turns;
+}
+
+/**
+ * Diff two blocks of text line by line
+ * Lines both share at the start and end are context; the rest is shown as
+ * removed and added.
+ */
+function diffText(before: string, after: string): string[] {
+  const oldLines = before ? before.split('\n') : [];
+  const newLines = after ? after.split('\n') : [];
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < oldLines.length - start &&
+    end < newLines.length - start &&
+    oldLines[oldLines.length - 1 - end] === newLines[newLines.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return [
+    ...oldLines.slice(0, start).map((line) => ` ${line}`),
+    ...oldLines.slice(start, oldLines.length - end).map((line) => `-${line}`),
+    ...newLines.slice(start, newLines.length - end).map((line) => `+${line}`),
+    ...oldLines.slice(oldLines.length - end).map((line) => ` ${line}`),
+  ];
+}
+
+/**
+ * Get the change an edit tool call makes to a file, as diff lines
+ * Handles Claude Code's Edit, MultiEdit and Write tools; separate edits are
+ * split by @@ lines.
+ * @returns null for other tools
+ */
+export function getEditDiff(entry: ToolUseEntry): string[] | null {
+  if (typeof entry.input !== 'object' || entry.input === null) {
+    return null;
+  }
+  const input = entry.input as Record<string, unknown>;
+  const asText = (value: unknown) => (typeof value === 'string' ? value : '');
+
+  switch (entry.name) {
+    case 'Edit':
+      return diffText(asText(input.old_string), asText(input.new_string));
+    case 'MultiEdit':
+      if (!Array.isArray(input.edits)) {
+        return null;
+      }
+      return input.edits.flatMap((edit, i) => [
+        ...(i > 0 ? ['@@'] : []),
+        ...diffText(asText(edit?.old_string), asText(edit?.new_string)),
+      ]);
+    case 'Write':
+      return diffText('', asText(input.content));
+    default:
+      return null;
+  }
+}
+
+/**
+ * Describe a tool call in a few words, such as "Read src/index.ts (12 lines)"
+ */
+function describeToolCall(
+  call: ToolUseEntry,
+  result?: ToolResultEntry
+): string {
+  const summary = summarizeToolInput(call.input);
+  let outcome = 'no result';
+  if (result?.isError) {
+    outcome = 'error';
+  } else if (result) {
+    const lines = result.text ? result.text.split('\n').length : 0;
+    outcome = `${lines} line${lines === 1 ? '' : 's'}`;
+  }
+  return `${call.name}${summary ? ' ' + summary : ''} (${outcome})`;
+}
+
+/**
+ * Get the metadata shown at the top of an export, as label and value pairs
+ */
+function getMetadataFields(
+  metadata: ConversationMetadata
+): Array<[string, string]> {
+  const fields: Array<[string, string | undefined]> = [
+    ['Session', metadata.id],
+    ['Project', metadata.projectPath],
+    ['Started', formatTimestamp(metadata.createdAt)],
+    ['Updated', formatTimestamp(metadata.updatedAt)],
+    ['Branch', metadata.gitBranch],
+    ['Models', metadata.models.join(', ')],
+    ['Messages', String(metadata.messageCount)],
+  ];
+  return fields.filter((field): field is [string, string] => !!field[1]);
+}
+
+/**
+ * Get the title of an exported conversation
+ */
+function getTitle(metadata: ConversationMetadata): string {
+  return truncate(getDisplayTitle(metadata), 100) || 'Untitled conversation';
+}
+
+/**
+ * Get the heading of a turn, such as "Assistant · claude-sonnet-4 · 2024-01-31 14:05"
+ */
+function getTurnHeading(turn: Turn): string {
+  return [
+    turn.speaker === 'user' ? 'User' : 'Assistant',
+    turn.model,
+    turn.timestamp && formatTimestamp(turn.timestamp),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Wrap text in a Markdown code fence longer than any backtick run inside it
+ */
+function fence(text: string, language = ''): string {
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a conversation as a Markdown transcript
+ * Tool calls are folded into <details> blocks, open for edits so their diff
+ * shows.
+ */
+export function renderMarkdown(
+  metadata: ConversationMetadata,
+  entries: ConversationEntry[]
+): string {
+  const lines = [`# ${getTitle(metadata)}`, ''];
+  for (const [label, value] of getMetadataFields(metadata)) {
+    lines.push(`- **${label}:** ${value}`);
+  }
+  lines.push('', '---');
+
+  const renderResult = (result: ToolResultEntry) => [
+    '',
+    result.isError ? '**Error**' : '**Result**',
+    '',
+    fence(result.text || '(empty)'),
+  ];
+
+  for (const turn of groupTurns(entries)) {
+    lines.push('', `## ${getTurnHeading(turn)}`);
+    for (const item of turn.items) {
+      lines.push('');
+      if (item.type === 'text') {
+        lines.push(item.text);
+      } else if (item.type === 'result') {
+        lines.push(
+          '<details>',
+          '<summary>Tool result</summary>',
+          ...renderResult(item.result),
+          '',
+          '</details>'
+        );
+      } else {
+        const diff = getEditDiff(item.call);
+        lines.push(
+          diff ? '<details open>' : '<details>',
+          `<summary>${escapeHtml(describeToolCall(item.call, item.result))}</summary>`,
+          '',
+          diff
+            ? fence(diff.join('\n'), 'diff')
+            : fence(JSON.stringify(item.call.input, null, 2) ?? '', 'json'),
+          ...(item.result ? renderResult(item.result) : []),
+          '',
+          '</details>'
+        );
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+const HTML_STYLE = `
+body { font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 860px; margin: 2em auto; padding: 0 1em; color: #1f2328; }
+h1 { font-size: 1.6em; margin-bottom: 0.3em; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.2em 1em; color: #59636e; font-size: 0.9em; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+section { border-top: 1px solid #d1d9e0; padding: 0.5em 0; }
+h2 { font-size: 1em; margin: 0.6em 0; }
+.user h2 { color: #1a7f37; }
+.assistant h2 { color: #0969da; }
+.text { white-space: pre-wrap; margin: 0.5em 0; }
+details { margin: 0.5em 0; border: 1px solid #d1d9e0; border-radius: 6px; padding: 0.3em 0.8em; }
+summary { cursor: pointer; font-family: ui-monospace, monospace; font-size: 0.9em; }
+pre { background: #f6f8fa; padding: 0.6em; overflow-x: auto; font-size: 0.85em; }
+.error pre { background: #ffebe9; }
+.diff .add { background: #dafbe1; display: block; }
+.diff .del { background: #ffebe9; display: block; }
+.diff .hunk { color: #59636e; display: block; }
+`.trim();
+
+/**
+ * Render a conversation as a standalone HTML page
+ * Styles are inlined so the file can be shared on its own.
+ */
+export function renderHtml(
+  metadata: ConversationMetadata,
+  entries: ConversationEntry[]
+): string {
+  const title = escapeHtml(getTitle(metadata));
+  const renderResult = (result: ToolResultEntry) =>
+    `<div${result.isError ? ' class="error"' : ''}><pre>${escapeHtml(result.text || '(empty)')}</pre></div>`;
+  const renderDiff = (diff: string[]) => {
+    const classes: Record<string, string> = {
+      '+': 'add',
+      '-': 'del',
+      '@': 'hunk',
+    };
+    const lines = diff.map((line) => {
+      const className = classes[line[0]];
+      return className
+        ? `<span class="${className}">${escapeHtml(line)}</span>`
+        : escapeHtml(line);
+    });
+    return `<pre class="diff">${lines.join('\n')}</pre>`;
+  };
+
+  const body: string[] = [
+    `<h1>${title}</h1>`,
+    '<dl>',
+    ...getMetadataFields(metadata).map(
+      ([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`
+    ),
+    '</dl>',
+  ];
+
+  for (const turn of groupTurns(entries)) {
+    body.push(
+      `<section class="${turn.speaker}">`,
+      `<h2>${escapeHtml(getTurnHeading(turn))}</h2>`
+    );
+    for (const item of turn.items) {
+      if (item.type === 'text') {
+        body.push(`<div class="text">${escapeHtml(item.text)}</div>`);
+      } else if (item.type === 'result') {
+        body.push(
+          '<details><summary>Tool result</summary>',
+          renderResult(item.result),
+          '</details>'
+        );
+      } else {
+        const diff = getEditDiff(item.call);
+        body.push(
+          `<details${diff ? ' open' : ''}><summary>${escapeHtml(describeToolCall(item.call, item.result))}</summary>`,
+          diff
+            ? renderDiff(diff)
+            : `<pre>${escapeHtml(JSON.stringify(item.call.input, null, 2) ?? '')}</pre>`,
+          item.result ? renderResult(item.result) : '',
+          '</details>'
+        );
+      }
+    }
+    body.push('</section>');
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    ...body.filter(Boolean),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render a conversation as JSON: its metadata and parsed entries
+ */
+export function renderJson(
+  metadata: ConversationMetadata,
+  entries: ConversationEntry[]
+): string {
+  return JSON.stringify({ metadata, entries }, null, 2) + '\n';
+}
+
+/**
+ * Render a conversation in an export format
+ */
+export function renderExport(
+  format: ExportFormat,
+  metadata: ConversationMetadata,
+  entries: ConversationEntry[]
+): string {
+  switch (format) {
+    case 'html':
+      return renderHtml(metadata, entries);
+    case 'json':
+      return renderJson(metadata, entries);
+    default:
+      return renderMarkdown(metadata, entries);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Format a byte count for display, such as 1.5 KB
+ */
+export function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${size} B` : `${size.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Format an ISO timestamp as a local date and time, such as 2024-01-31 14:05
+ * @param seconds Include the seconds, as in 2024-01-31 14:05:09
+ */
+export function formatTimestamp(timestamp: string, seconds = false): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) {
+    return timestamp;
+  }
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}` +
+    (seconds ? `:${pad(date.getSeconds())}` : '')
+  );
+}
+
+/**
+ * Shorten text to its first line and at most the given length
+ */
+export function truncate(text: string, length: number): string {
+  const line = text.trim().split('\n')[0];
+  return line.length > length ? line.slice(0, length - 1) + '…' : line;
+}
@@ -126,6 +126,7 @@ export function getRecommendedGitignoreEntries(): string[] {
     '/.claude/history/',
     '/.claude/*.log',
     '/.claude/cache/',
+    '/.claude/exports/',
   ];
 }
 
@@ -145,3 +146,26 @@ export async function isGitIgnored(
     return false;
   }
 }
+
+/**
+ * List the files changed in the last commits of a repository
+ * Only files under the directory are listed, relative to it.
+ * @returns Changed files, or an empty list outside a git repository
+ */
+export async function getRecentlyChangedFiles(
+  directory: string,
+  commits: number
+): Promise<string[]> {
+  try {
+    // No pathspec: it would pick the last commits touching the path instead
+    const { stdout } = await execAsync(
+      `git log -n ${Math.floor(commits)} --name-only --relative --format=`,
+      { cwd: directory, maxBuffer: 16 * 1024 * 1024 }
+    );
+    return Array.from(
+      new Set(stdout.split('\n').map((line) => line.trim()).filter(Boolean))
+    );
+  } catch {
+    return [];
+  }
+}
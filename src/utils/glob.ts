@@ -0,0 +1,38 @@
+/**
+ * Convert a glob to a regular expression matching whole paths
+ * `**` matches any number of directories, `*` and `?` match within a single
+ * path segment. A glob without a slash matches the last segment at any depth,
+ * as in .gitignore.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = glob.includes('/') ? '' : '(?:.*/)?';
+  const pattern = glob.replace(/^\//, '');
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a path matches any of the given globs
+ */
+export function matchesGlob(path: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(path));
+}
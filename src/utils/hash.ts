@@ -0,0 +1,30 @@
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import type { FileFingerprint } from '../types/index.js';
+
+/**
+ * Compute the SHA-256 hex digest of some content
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Fingerprint content by size and hash
+ */
+export function fingerprintContent(content: Buffer): FileFingerprint {
+  return { size: content.length, hash: hashContent(content) };
+}
+
+/**
+ * Fingerprint a file on disk, or return null if it cannot be read
+ */
+export async function fingerprintFile(
+  path: string
+): Promise<FileFingerprint | null> {
+  try {
+    return fingerprintContent(await readFile(path));
+  } catch {
+    return null;
+  }
+}
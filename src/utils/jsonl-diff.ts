@@ -0,0 +1,66 @@
+import type { SessionLine } from '../types/index.js';
+import { parseJsonlEntries } from './jsonl-merge.js';
+
+/**
+ * Differences between two copies of a session file
+ */
+export interface JsonlDiff {
+  /** Entries only the first copy has */
+  onlyA: SessionLine[];
+  /** Entries only the second copy has */
+  onlyB: SessionLine[];
+  /** Entries both copies have, with different content */
+  changed: Array<{ a: SessionLine; b: SessionLine }>;
+  /** Number of entries identical in both copies */
+  shared: number;
+}
+
+/**
+ * Parse session content into its entries by key, with their line numbers
+ * When a key occurs more than once, its first line is kept
+ */
+function indexLines(content: string): Map<string, SessionLine> {
+  const lines = content.split('\n');
+  const byKey = new Map<string, SessionLine>();
+  let index = 0;
+
+  for (const entry of parseJsonlEntries(content)) {
+    // Entries come in file order, so each is found after the previous one
+    while (lines[index].replace(/\r$/, '') !== entry.line) {
+      index++;
+    }
+    if (!byKey.has(entry.key)) {
+      byKey.set(entry.key, { line: index + 1, text: entry.line });
+    }
+    index++;
+  }
+  return byKey;
+}
+
+/**
+ * Compare two copies of a session file entry by entry
+ * Entries are matched as when merging: messages by uuid, summaries by the
+ * message they summarize, and anything else by content
+ */
+export function diffJsonl(a: string, b: string): JsonlDiff {
+  const linesA = indexLines(a);
+  const linesB = indexLines(b);
+  const diff: JsonlDiff = { onlyA: [], onlyB: [], changed: [], shared: 0 };
+
+  for (const [key, lineA] of linesA) {
+    const lineB = linesB.get(key);
+    if (!lineB) {
+      diff.onlyA.push(lineA);
+    } else if (lineA.text === lineB.text) {
+      diff.shared++;
+    } else {
+      diff.changed.push({ a: lineA, b: lineB });
+    }
+  }
+  for (const [key, lineB] of linesB) {
+    if (!linesA.has(key)) {
+      diff.onlyB.push(lineB);
+    }
+  }
+  return diff;
+}
@@ -0,0 +1,221 @@
+/**
+ * A single line of a Claude Code session file
+ */
+export interface JsonlEntry {
+  /** Identity used to deduplicate the entry across copies */
+  key: string;
+  /** The raw line, without its trailing newline */
+  line: string;
+  /** Message uuid, when the entry has one */
+  uuid?: string;
+  /** uuid of the message this entry follows, when it has one */
+  parentUuid?: string;
+  /** ISO timestamp, inherited from the previous entry when missing */
+  timestamp: string;
+}
+
+/**
+ * Result of merging two copies of a session file
+ */
+export interface JsonlMergeResult {
+  /** The merged file content */
+  content: string;
+  /** Number of lines in the result that were not present in the destination */
+  linesAdded: number;
+  /** Whether the result differs from the destination content */
+  changed: boolean;
+}
+
+/**
+ * Derive the identity of a parsed session line
+ * Messages are keyed by uuid, summaries by the leaf they summarize, and
+ * anything else by its exact content
+ */
+function getEntryKey(data: Record<string, unknown>, line: string): string {
+  if (typeof data.uuid === 'string') {
+    return `uuid:${data.uuid}`;
+  }
+  if (data.type === 'summary' && typeof data.leafUuid === 'string') {
+    return `summary:${data.leafUuid}`;
+  }
+  return `line:${line}`;
+}
+
+/**
+ * Parse JSONL content into entries
+ * A trailing line without a newline that does not parse is treated as a
+ * write in progress and dropped
+ */
+export function parseJsonlEntries(content: string): JsonlEntry[] {
+  const entries: JsonlEntry[] = [];
+  const lines = content.split('\n');
+  const lastIndex = lines.length - 1;
+  let previousTimestamp = '';
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.replace(/\r$/, '');
+    if (line.trim() === '') {
+      return;
+    }
+
+    let data: Record<string, unknown> | null = null;
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        data = parsed;
+      }
+    } catch {
+      if (index === lastIndex) {
+        return; // Partially written last line
+      }
+    }
+
+    if (!data) {
+      entries.push({ key: `line:${line}`, line, timestamp: previousTimestamp });
+      return;
+    }
+
+    const timestamp =
+      typeof data.timestamp === 'string' ? data.timestamp : previousTimestamp;
+    previousTimestamp = timestamp;
+
+    entries.push({
+      key: getEntryKey(data, line),
+      line,
+      uuid: typeof data.uuid === 'string' ? data.uuid : undefined,
+      parentUuid:
+        typeof data.parentUuid === 'string' ? data.parentUuid : undefined,
+      timestamp,
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Count the non-empty lines of JSONL content
+ */
+export function countJsonlLines(content: string): number {
+  return parseJsonlEntries(content).length;
+}
+
+/**
+ * Serialize entries back to JSONL content
+ */
+function serializeEntries(entries: JsonlEntry[]): string {
+  return entries.length > 0
+    ? entries.map((entry) => entry.line).join('\n') + '\n'
+    : '';
+}
+
+/**
+ * Order diverged entries so that every message follows its parent
+ * Entries are visited by timestamp (then key) so the result does not depend
+ * on which copy is the destination
+ */
+function orderCausally(
+  entries: JsonlEntry[],
+  alreadyEmitted: Set<string>
+): JsonlEntry[] {
+  const byUuid = new Map<string, JsonlEntry>();
+  for (const entry of entries) {
+    if (entry.uuid) {
+      byUuid.set(entry.uuid, entry);
+    }
+  }
+
+  const sorted = [...entries].sort((a, b) => {
+    if (a.timestamp !== b.timestamp) {
+      return a.timestamp < b.timestamp ? -1 : 1;
+    }
+    return a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+  });
+
+  const emitted = new Set(alreadyEmitted);
+  const visiting = new Set<string>();
+  const ordered: JsonlEntry[] = [];
+
+  const visit = (entry: JsonlEntry): void => {
+    if (emitted.has(entry.key) || visiting.has(entry.key)) {
+      return;
+    }
+    visiting.add(entry.key);
+
+    const parent = entry.parentUuid ? byUuid.get(entry.parentUuid) : undefined;
+    if (parent) {
+      visit(parent);
+    }
+
+    visiting.delete(entry.key);
+    emitted.add(entry.key);
+    ordered.push(entry);
+  };
+
+  for (const entry of sorted) {
+    visit(entry);
+  }
+
+  return ordered;
+}
+
+/**
+ * Merge two copies of a session file into their union
+ *
+ * When one copy already contains every entry of the other it wins as-is,
+ * which covers the common append-only case. Otherwise the shared prefix is
+ * kept and the remaining entries of both copies are written in causal order.
+ */
+export function mergeJsonl(
+  destContent: string,
+  sourceContent: string
+): JsonlMergeResult {
+  const destEntries = parseJsonlEntries(destContent);
+  const sourceEntries = parseJsonlEntries(sourceContent);
+  const destKeys = new Set(destEntries.map((entry) => entry.key));
+  const sourceKeys = new Set(sourceEntries.map((entry) => entry.key));
+
+  // Destination already has everything
+  if (sourceEntries.every((entry) => destKeys.has(entry.key))) {
+    return { content: destContent, linesAdded: 0, changed: false };
+  }
+
+  // Source is a superset of the destination
+  if (destEntries.every((entry) => sourceKeys.has(entry.key))) {
+    const linesAdded = sourceEntries.filter(
+      (entry) => !destKeys.has(entry.key)
+    ).length;
+    return { content: sourceContent, linesAdded, changed: true };
+  }
+
+  // Both copies diverged: keep the common prefix, then merge the rest
+  let prefixLength = 0;
+  while (
+    prefixLength < destEntries.length &&
+    prefixLength < sourceEntries.length &&
+    destEntries[prefixLength].key === sourceEntries[prefixLength].key
+  ) {
+    prefixLength++;
+  }
+
+  const prefix = destEntries.slice(0, prefixLength);
+  const remaining = new Map<string, JsonlEntry>();
+  for (const entry of [
+    ...destEntries.slice(prefixLength),
+    ...sourceEntries.slice(prefixLength),
+  ]) {
+    if (!remaining.has(entry.key)) {
+      remaining.set(entry.key, entry);
+    }
+  }
+
+  const merged = [
+    ...prefix,
+    ...orderCausally(
+      Array.from(remaining.values()),
+      new Set(prefix.map((entry) => entry.key))
+    ),
+  ];
+  const linesAdded = merged.filter((entry) => !destKeys.has(entry.key)).length;
+
+  return { content: serializeEntries(merged), linesAdded, changed: true };
+}
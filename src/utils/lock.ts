@@ -0,0 +1,158 @@
+import { randomUUID } from 'node:crypto';
+import { link, open, readFile, rename, unlink, stat } from 'node:fs/promises';
+import { hostname } from 'node:os';
+
+/**
+ * Options for acquiring a lock
+ */
+export interface LockOptions {
+  /** How long to wait for the lock before giving up (default 30s) */
+  timeoutMs?: number;
+  /**
+   * Age after which a lock is considered abandoned when its holder runs on
+   * another host or is unknown (default 5 minutes)
+   */
+  staleMs?: number;
+  /** Delay between attempts (default 100ms) */
+  retryMs?: number;
+}
+
+/**
+ * Contents of a lock file
+ */
+interface LockInfo {
+  pid: number;
+  hostname: string;
+  createdAt: string;
+}
+
+/**
+ * Check whether a process is still running
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Check whether an existing lock was abandoned by its holder
+ * A holder on this host keeps the lock for as long as it runs, however long
+ * that is. Only the locks of holders that can't be checked expire with age.
+ * @returns The content of the abandoned lock, or null if it is held or gone
+ */
+async function readStaleLock(
+  lockPath: string,
+  staleMs: number
+): Promise<string | null> {
+  let content: string;
+  try {
+    content = await readFile(lockPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let info: LockInfo | null = null;
+  try {
+    info = JSON.parse(content) as LockInfo;
+  } catch {
+    // Unreadable or half-written lock: fall back to its age
+  }
+  if (info?.hostname === hostname() && Number.isInteger(info.pid)) {
+    return isProcessAlive(info.pid) ? null : content;
+  }
+
+  try {
+    const lockStat = await stat(lockPath);
+    return Date.now() - lockStat.mtimeMs > staleMs ? content : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove an abandoned lock, unless another waiter has replaced it already
+ * The lock is moved aside before it is checked, so the lock checked is the
+ * one removed, and a lock taken in the meantime is put back.
+ */
+async function removeStaleLock(lockPath: string, stale: string): Promise<void> {
+  const aside = `${lockPath}.${randomUUID()}.stale`;
+  try {
+    await rename(lockPath, aside);
+  } catch {
+    return; // Removed by another waiter
+  }
+
+  const content = await readFile(aside, 'utf-8').catch(() => null);
+  if (content !== stale) {
+    await link(aside, lockPath).catch(() => {});
+  }
+  await unlink(aside).catch(() => {});
+}
+
+/**
+ * Acquire an advisory lock by exclusively creating a lock file
+ * @returns A function that releases the lock
+ */
+export async function acquireLock(
+  lockPath: string,
+  options: LockOptions = {}
+): Promise<() => Promise<void>> {
+  const timeoutMs = options.timeoutMs ?? 30_000;
+  const staleMs = options.staleMs ?? 5 * 60_000;
+  const retryMs = options.retryMs ?? 100;
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, 'wx');
+      const info: LockInfo = {
+        pid: process.pid,
+        hostname: hostname(),
+        createdAt: new Date().toISOString(),
+      };
+      await handle.writeFile(JSON.stringify(info));
+      await handle.close();
+
+      return async () => {
+        await unlink(lockPath).catch(() => {});
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const stale = await readStaleLock(lockPath, staleMs);
+    if (stale !== null) {
+      await removeStaleLock(lockPath, stale);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, retryMs));
+  }
+}
+
+/**
+ * Run a function while holding an advisory lock
+ */
+export async function withLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: LockOptions = {}
+): Promise<T> {
+  const release = await acquireLock(lockPath, options);
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
+}
@@ -0,0 +1,177 @@
+import { open, readFile, stat } from 'node:fs/promises';
+import type { LogFilter, LogLevel, LogRecord } from '../types/index.js';
+import { formatTimestamp } from './format.js';
+
+/**
+ * Log levels, from least to most severe
+ */
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Rotated files kept next to the daemon's log
+ */
+export const DEFAULT_LOG_FILES = 3;
+
+/**
+ * Check whether a record is at least as severe as a level
+ */
+export function isAtLeast(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+/**
+ * Get the files of a rotated log, oldest first
+ * @param maxFiles Rotated files kept next to the log
+ */
+export function getLogFiles(file: string, maxFiles: number): string[] {
+  const rotated = Array.from(
+    { length: maxFiles },
+    (_, i) => `${file}.${maxFiles - i}`
+  );
+  return [...rotated, file];
+}
+
+/**
+ * Parse a line of the log
+ * @returns null for lines that aren't log records
+ */
+export function parseLogRecord(line: string): LogRecord | null {
+  try {
+    const record = JSON.parse(line);
+    return record &&
+      typeof record.time === 'string' &&
+      typeof record.message === 'string' &&
+      LOG_LEVELS.includes(record.level)
+      ? record
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a record passes a filter
+ */
+export function matchesLogFilter(
+  record: LogRecord,
+  filter: LogFilter
+): boolean {
+  if (filter.level && !isAtLeast(record.level, filter.level)) {
+    return false;
+  }
+  return !filter.project || record.project === filter.project;
+}
+
+/**
+ * Parse the records in a chunk of log text that pass a filter
+ */
+export function parseLogRecords(
+  text: string,
+  filter: LogFilter = {}
+): LogRecord[] {
+  return text
+    .split('\n')
+    .map(parseLogRecord)
+    .filter(
+      (record): record is LogRecord =>
+        record !== null && matchesLogFilter(record, filter)
+    );
+}
+
+/**
+ * Read the records of a log and its rotated files, oldest first
+ * Missing files are skipped.
+ */
+export async function readLogRecords(
+  file: string,
+  maxFiles: number,
+  filter: LogFilter = {}
+): Promise<LogRecord[]> {
+  const records: LogRecord[] = [];
+  for (const path of getLogFiles(file, maxFiles)) {
+    try {
+      records.push(...parseLogRecords(await readFile(path, 'utf-8'), filter));
+    } catch {
+      // Not rotated that many times yet
+    }
+  }
+  return records;
+}
+
+/**
+ * Format a record as a line for the terminal
+ */
+export function formatLogRecord(record: LogRecord): string {
+  const fields = [
+    record.project && `project=${record.project}`,
+    record.direction && `direction=${record.direction}`,
+    record.files !== undefined && `files=${record.files}`,
+    record.durationMs !== undefined && `duration=${record.durationMs}ms`,
+    record.error && `error=${JSON.stringify(record.error)}`,
+  ].filter(Boolean);
+
+  return [
+    formatTimestamp(record.time, true),
+    record.level.toUpperCase().padEnd(5),
+    record.message,
+    ...fields,
+  ].join(' ');
+}
+
+/**
+ * Follow a log as it grows, like tail -f
+ * When the log is rotated, reading starts over at the new file.
+ * @param onText Called with each chunk of complete lines appended
+ * @returns A function that stops following
+ */
+export function followLog(
+  file: string,
+  onText: (text: string) => void,
+  intervalMs = 500
+): () => void {
+  let offset: number | null = null;
+  let inode: number | null = null;
+  let partial = '';
+  let reading = false;
+
+  const poll = async () => {
+    if (reading) return;
+    reading = true;
+    try {
+      const { size, ino } = await stat(file).catch(() => ({
+        size: 0,
+        ino: null,
+      }));
+      if (offset === null || ino !== inode || size < offset) {
+        // Start at the end the first time, and at the top of a new file
+        offset = offset === null ? size : 0;
+        inode = ino;
+        partial = '';
+      }
+      if (size > offset) {
+        const handle = await open(file, 'r');
+        try {
+          const buffer = Buffer.alloc(size - offset);
+          await handle.read(buffer, 0, buffer.length, offset);
+          offset = size;
+          const text = partial + buffer.toString('utf-8');
+          const end = text.lastIndexOf('\n') + 1;
+          partial = text.slice(end);
+          if (end > 0) {
+            onText(text.slice(0, end));
+          }
+        } finally {
+          await handle.close();
+        }
+      }
+    } catch {
+      // Rotated away between stat and open; picked up on the next poll
+    } finally {
+      reading = false;
+    }
+  };
+
+  void poll();
+  const timer = setInterval(() => void poll(), intervalMs);
+  return () => clearInterval(timer);
+}
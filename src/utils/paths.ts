@@ -1,6 +1,6 @@
 import { homedir, platform } from 'node:os';
-import { join, resolve } from 'node:path';
-import { access, constants } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { access, constants, open, readdir, stat } from 'node:fs/promises';
 
 /**
  * Get the default global Claude Code storage path based on OS
@@ -11,6 +11,71 @@ export function getGlobalStoragePath(): string {
   return join(home, '.claude');
 }
 
+/**
+ * Get the directory where encryption keys for history are kept
+ */
+export function getKeyStorePath(): string {
+  return join(homedir(), '.claude-sync', 'keys');
+}
+
+/**
+ * Get the directory pruned sessions are archived in
+ */
+export function getArchivePath(): string {
+  return join(homedir(), '.claude-sync', 'archive');
+}
+
+/**
+ * Get the directory search indexes are kept in
+ */
+export function getIndexPath(): string {
+  return join(homedir(), '.claude-sync', 'index');
+}
+
+/**
+ * Get the daemon's config, holding the search paths saved by enable
+ */
+export function getDaemonConfigPath(): string {
+  return join(homedir(), '.claude-sync-config.json');
+}
+
+/**
+ * Get the file holding the PID of the running daemon
+ */
+export function getDaemonPidPath(): string {
+  return join(homedir(), '.claude-sync-daemon.pid');
+}
+
+/**
+ * Get the log the daemon writes its records to
+ */
+export function getDaemonLogPath(): string {
+  return join(homedir(), '.claude-sync', 'logs', 'daemon.log');
+}
+
+/**
+ * Get the file the background daemon's console output goes to, which
+ * catches crashes and anything written outside the log
+ */
+export function getDaemonOutputPath(): string {
+  return join(homedir(), '.claude-sync', 'logs', 'daemon.out');
+}
+
+/**
+ * Get the Unix socket the running daemon is controlled through
+ */
+export function getControlSocketPath(): string {
+  return join(homedir(), '.claude-sync', 'daemon.sock');
+}
+
+/**
+ * Get the systemd user unit file of the daemon service
+ */
+export function getServiceUnitPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(configHome, 'systemd', 'user', 'claude-sync.service');
+}
+
 /**
  * Get the local .claude directory path for a project
  */
@@ -18,6 +83,13 @@ export function getLocalStoragePath(projectRoot: string): string {
   return join(projectRoot, '.claude');
 }
 
+/**
+ * Get the directory a project's conversations are exported to by default
+ */
+export function getExportsPath(projectRoot: string): string {
+  return join(getLocalStoragePath(projectRoot), 'exports');
+}
+
 /**
  * Get the history subdirectory within a storage location
  */
@@ -69,8 +141,9 @@ export function normalizePath(path: string): string {
  * -Users-macbookair-Projects-myproject
  */
 export function encodeProjectPath(projectPath: string): string {
-  // Replace all slashes with dashes (including leading slash becomes leading dash)
-  return projectPath.replace(/\//g, '-');
+  // Every character other than a letter or digit becomes a dash, so
+  // ~/code/my.app and ~/code/my-app share a directory name
+  return projectPath.replace(/[^a-zA-Z0-9]/g, '-');
 }
 
 /**
@@ -81,3 +154,165 @@ export function getGlobalProjectPath(globalStoragePath: string, projectRoot: str
   const encoded = encodeProjectPath(projectRoot);
   return join(globalStoragePath, 'projects', encoded);
 }
+
+/**
+ * Bytes read from the start of a session when looking for its cwd
+ */
+const SESSION_HEAD_BYTES = 64 * 1024;
+
+/**
+ * Read the working directory recorded in the sessions of a global project
+ * directory
+ * @returns The first cwd found, or null if no session records one
+ */
+export async function readProjectCwd(
+  globalProjectPath: string
+): Promise<string | null> {
+  let files: string[];
+  try {
+    files = (await readdir(globalProjectPath))
+      .filter((file) => file.endsWith('.jsonl'))
+      .sort();
+  } catch {
+    return null;
+  }
+
+  for (const file of files) {
+    let head: string;
+    try {
+      const handle = await open(join(globalProjectPath, file), 'r');
+      try {
+        const buffer = Buffer.alloc(SESSION_HEAD_BYTES);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+        head = buffer.toString('utf-8', 0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    } catch {
+      continue;
+    }
+
+    for (const line of head.split('\n')) {
+      try {
+        const data = JSON.parse(line);
+        if (typeof data.cwd === 'string' && data.cwd) {
+          return data.cwd;
+        }
+      } catch {
+        // Skip blank lines and a line cut off by the read
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Global project directories resolved by session cwd, by storage path and
+ * project root, with the mtime of the projects directory when they were
+ * looked for
+ */
+const resolvedProjectPaths = new Map<
+  string,
+  { path: string; projectsMtime: number }
+>();
+
+/**
+ * Find the global storage directory Claude Code uses for a project
+ *
+ * The encoded name is tried first. Since the encoding can't be reversed, a
+ * directory with a different name is found by the cwd recorded in its
+ * sessions. Falls back to the encoded name for projects without sessions yet.
+ *
+ * What the search finds is remembered. A directory found is used again while
+ * its sessions still record the project's cwd; finding none holds until a
+ * directory is added to or removed from the projects directory.
+ */
+export async function resolveGlobalProjectPath(
+  globalStoragePath: string,
+  projectRoot: string
+): Promise<string> {
+  const expected = getGlobalProjectPath(globalStoragePath, projectRoot);
+  if (await pathExists(expected)) {
+    return expected;
+  }
+
+  const projectsPath = join(globalStoragePath, 'projects');
+  let projectsMtime: number;
+  try {
+    projectsMtime = (await stat(projectsPath)).mtimeMs;
+  } catch {
+    return expected;
+  }
+
+  const key = `${globalStoragePath}\0${projectRoot}`;
+  const cached = resolvedProjectPaths.get(key);
+  if (cached?.path === expected) {
+    if (cached.projectsMtime === projectsMtime) {
+      return expected;
+    }
+  } else if (cached && (await readProjectCwd(cached.path)) === projectRoot) {
+    return cached.path;
+  }
+
+  let entries: string[];
+  try {
+    entries = (await readdir(projectsPath, { withFileTypes: true }))
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+  } catch {
+    return expected;
+  }
+
+  let found = expected;
+  for (const name of entries) {
+    const candidate = join(projectsPath, name);
+    if ((await readProjectCwd(candidate)) === projectRoot) {
+      found = candidate;
+      break;
+    }
+  }
+
+  resolvedProjectPaths.set(key, { path: found, projectsMtime });
+  return found;
+}
+
+/**
+ * List the files below a directory, as '/'-separated paths relative to it
+ * Dotfiles and dot-directories are skipped; a missing directory is empty
+ */
+export async function listFilesRecursive(directoryPath: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(directoryPath, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+    if (entry.isDirectory()) {
+      const nested = await listFilesRecursive(join(directoryPath, entry.name));
+      files.push(...nested.map((file) => `${entry.name}/${file}`));
+    } else if (entry.isFile()) {
+      files.push(entry.name);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Get the ID of the session a synced file belongs to, from its path
+ * relative to the history directory
+ */
+export function getSessionId(file: string): string {
+  const [kind, name] = file.split('/');
+  if (name === undefined) {
+    return basename(kind).replace(/\.jsonl?$/, '');
+  }
+  return kind === 'todos' ? name.split('-agent-')[0] : name;
+}
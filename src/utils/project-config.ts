@@ -0,0 +1,173 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  ProjectSyncConfig,
+  RedactionRuleConfig,
+  SyncDirection,
+} from '../types/index.js';
+import { getLocalStoragePath, getSessionId, pathExists } from './paths.js';
+import { matchesGlob } from './glob.js';
+import { compileRedactionRules } from './redact.js';
+
+/**
+ * File in a project's .claude directory holding its sync settings
+ */
+export const PROJECT_CONFIG_FILE = 'sync.json';
+
+const DIRECTIONS: readonly string[] = ['to-local', 'to-global', 'both'];
+
+const RETENTION_KEYS: readonly string[] = [
+  'maxAgeDays',
+  'maxSessions',
+  'maxTotalSizeMB',
+  'keepRecentCommits',
+];
+
+/**
+ * Get the path of a project's sync settings
+ */
+export function getProjectConfigPath(projectRoot: string): string {
+  return join(getLocalStoragePath(projectRoot), PROJECT_CONFIG_FILE);
+}
+
+/**
+ * Check whether a value is an array of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
+}
+
+/**
+ * Check the settings read from a sync.json
+ * @returns The name of the first invalid setting, or null
+ */
+function findInvalidSetting(config: Record<string, unknown>): string | null {
+  const { enabled, direction, include, exclude, redactSecrets } = config;
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') return 'enabled';
+  if (
+    direction !== undefined &&
+    !DIRECTIONS.includes(direction as SyncDirection)
+  ) {
+    return 'direction';
+  }
+  if (include !== undefined && !isStringArray(include)) return 'include';
+  if (exclude !== undefined && !isStringArray(exclude)) return 'exclude';
+  if (redactSecrets !== undefined && typeof redactSecrets !== 'boolean') {
+    return 'redactSecrets';
+  }
+
+  const rules = config.redactionRules;
+  if (rules !== undefined) {
+    if (
+      !Array.isArray(rules) ||
+      !rules.every(
+        (rule) =>
+          typeof rule?.name === 'string' && typeof rule?.pattern === 'string'
+      )
+    ) {
+      return 'redactionRules';
+    }
+    try {
+      compileRedactionRules(rules);
+    } catch {
+      return 'redactionRules';
+    }
+  }
+
+  const retention = config.retention as Record<string, unknown> | undefined;
+  if (retention !== undefined) {
+    if (typeof retention !== 'object' || retention === null) return 'retention';
+    for (const [key, value] of Object.entries(retention)) {
+      if (
+        !RETENTION_KEYS.includes(key) ||
+        typeof value !== 'number' ||
+        value < 0
+      ) {
+        return `retention.${key}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Load a project's sync settings from .claude/sync.json
+ * @returns An empty object when the project has no settings of its own
+ * @throws If the file is not valid JSON or holds an invalid setting
+ */
+export async function loadProjectConfig(
+  projectRoot: string
+): Promise<ProjectSyncConfig> {
+  const configPath = getProjectConfigPath(projectRoot);
+  if (!(await pathExists(configPath))) {
+    return {};
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(await readFile(configPath, 'utf-8'));
+  } catch {
+    throw new Error(`Could not parse ${configPath}`);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`Invalid settings in ${configPath}`);
+  }
+
+  const invalid = findInvalidSetting(config as Record<string, unknown>);
+  if (invalid) {
+    throw new Error(`Invalid setting \`${invalid}\` in ${configPath}`);
+  }
+  return config as ProjectSyncConfig;
+}
+
+/**
+ * Check whether a history file, relative to .claude/history, is synced
+ * under a project's include and exclude globs
+ * Excluding a session file also excludes the session's companion data.
+ */
+export function isFileIncluded(
+  file: string,
+  config: Pick<ProjectSyncConfig, 'include' | 'exclude'>
+): boolean {
+  if (config.include?.length && !matchesGlob(file, config.include)) {
+    return false;
+  }
+  if (!config.exclude?.length) {
+    return true;
+  }
+  return (
+    !matchesGlob(file, config.exclude) &&
+    !matchesGlob(`${getSessionId(file)}.jsonl`, config.exclude)
+  );
+}
+
+/**
+ * Get the redaction rules of a project: the global rules, with the
+ * project's own rules added or replacing global rules of the same name
+ */
+export function mergeRedactionRules(
+  global: RedactionRuleConfig[],
+  project: RedactionRuleConfig[] = []
+): RedactionRuleConfig[] {
+  return [
+    ...global.filter((rule) => !project.some((r) => r.name === rule.name)),
+    ...project,
+  ];
+}
+
+/**
+ * Narrow a requested sync direction to the directions a project allows
+ * @returns null when the project syncs in neither of the requested directions
+ */
+export function restrictDirection(
+  requested: SyncDirection,
+  allowed: SyncDirection
+): SyncDirection | null {
+  if (allowed === 'both') return requested;
+  if (requested === 'both' || requested === allowed) return allowed;
+  return null;
+}
@@ -0,0 +1,324 @@
+import type { RedactionRuleConfig } from '../types/index.js';
+
+/**
+ * A secret detector
+ * If the pattern has a named group `secret`, only that part of a match is
+ * replaced, so surrounding context such as a variable name is kept.
+ */
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  /** Extra check a match must pass, for detectors a regex can't express */
+  test?: (match: string) => boolean;
+}
+
+/**
+ * A redaction applied to a file, without the secret itself
+ */
+export interface Redaction {
+  /** 1-based line number in the file */
+  line: number;
+  rule: string;
+}
+
+/**
+ * Result of redacting a file's content
+ */
+export interface RedactionResult {
+  content: string;
+  redactions: Redaction[];
+}
+
+/**
+ * Keys of session entries that hold identifiers, signatures or encoded
+ * attachments rather than text, and must not be altered
+ */
+const SKIPPED_KEYS = new Set([
+  'uuid',
+  'parentUuid',
+  'leafUuid',
+  'sessionId',
+  'requestId',
+  'id',
+  'tool_use_id',
+  'signature',
+  'data',
+]);
+
+/**
+ * Minimum Shannon entropy, in bits per character, of a high-entropy secret
+ * Hex digests and UUIDs stay below it
+ */
+const MIN_ENTROPY = 4.5;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+function getEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Detectors applied to every synced session
+ */
+export const BUILTIN_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: 'private-key',
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  {
+    name: 'aws-access-key',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    name: 'aws-secret-key',
+    pattern:
+      /aws_secret_access_key["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})/gi,
+  },
+  {
+    name: 'github-token',
+    pattern:
+      /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+  },
+  {
+    name: 'bearer-token',
+    pattern: /\bBearer\s+(?<secret>[A-Za-z0-9._~+/-]{20,}=*)/g,
+  },
+  {
+    name: 'high-entropy',
+    pattern:
+      /(?<![A-Za-z0-9+_-])[A-Za-z0-9+_-]{32,200}={0,2}(?![A-Za-z0-9+_=-])/g,
+    test: (match) =>
+      /[a-z]/.test(match) &&
+      /[A-Z]/.test(match) &&
+      /[0-9]/.test(match) &&
+      getEntropy(match) >= MIN_ENTROPY,
+  },
+];
+
+/**
+ * Compile custom rules from the configuration
+ * @throws If a pattern is not a valid regular expression
+ */
+export function compileRedactionRules(
+  rules: RedactionRuleConfig[]
+): RedactionRule[] {
+  return rules.map((rule) => {
+    try {
+      const flags = rule.flags || '';
+      return {
+        name: rule.name,
+        pattern: new RegExp(
+          rule.pattern,
+          flags.includes('g') ? flags : flags + 'g'
+        ),
+      };
+    } catch {
+      throw new Error(`Invalid redaction rule ${rule.name}: ${rule.pattern}`);
+    }
+  });
+}
+
+/**
+ * Replace the secrets one rule finds in a string
+ * @param onRedact Called with the position, text and replacement of each
+ * secret replaced
+ */
+function redactRule(
+  text: string,
+  rule: RedactionRule,
+  onRedact: (offset: number, match: string, replacement: string) => void
+): string {
+  rule.pattern.lastIndex = 0;
+  return text.replace(rule.pattern, (...args) => {
+    const match = args[0] as string;
+    if (match.startsWith('[REDACTED:') || (rule.test && !rule.test(match))) {
+      return match;
+    }
+
+    // Named groups, when the pattern has any, come after the input
+    const groups = args[args.length - 1];
+    const hasGroups = typeof groups === 'object';
+    const offset = args[args.length - (hasGroups ? 3 : 2)] as number;
+    const secret = hasGroups
+      ? (groups as Record<string, string | undefined>).secret
+      : undefined;
+    const marker = `[REDACTED:${rule.name}]`;
+    const replacement = secret ? match.replace(secret, marker) : marker;
+    onRedact(offset, match, replacement);
+    return replacement;
+  });
+}
+
+/**
+ * Replace secrets in a string
+ * @returns The redacted string and the names of the rules that matched
+ */
+export function redactText(
+  text: string,
+  rules: RedactionRule[]
+): { text: string; matched: string[] } {
+  const matched: string[] = [];
+  let result = text;
+
+  for (const rule of rules) {
+    result = redactRule(result, rule, () => matched.push(rule.name));
+  }
+
+  return { text: result, matched };
+}
+
+/**
+ * Count the line breaks in a string
+ */
+function countNewlines(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+/**
+ * Redact a plain text file as a whole, so secrets spanning lines such as
+ * PEM keys are found
+ * Each redaction reports the line of the original content it started on.
+ */
+function redactPlainText(
+  text: string,
+  rules: RedactionRule[]
+): RedactionResult {
+  const redactions: Redaction[] = [];
+  // Line of the original content each line of the result starts with
+  const lines = text.split('\n').map((_, index) => index + 1);
+  let result = text;
+
+  for (const rule of rules) {
+    const before = result;
+    const joined: { line: number; count: number }[] = [];
+    result = redactRule(before, rule, (offset, match, replacement) => {
+      const line = countNewlines(before.slice(0, offset));
+      redactions.push({ line: lines[line], rule: rule.name });
+      joined.push({
+        line,
+        count: countNewlines(match) - countNewlines(replacement),
+      });
+    });
+
+    // Lines a secret spanned are now part of the line it started on
+    for (const { line, count } of joined.reverse()) {
+      lines.splice(line + 1, count);
+    }
+  }
+
+  redactions.sort((a, b) => a.line - b.line);
+  return { content: result, redactions };
+}
+
+/**
+ * Redact every string of a JSON value, except identifiers and attachments
+ * @returns The new value, or the same value when nothing changed
+ */
+function redactValue(
+  value: unknown,
+  rules: RedactionRule[],
+  matched: string[]
+): unknown {
+  if (typeof value === 'string') {
+    const result = redactText(value, rules);
+    matched.push(...result.matched);
+    return result.text;
+  }
+  if (Array.isArray(value)) {
+    let changed = false;
+    const result = value.map((item) => {
+      const redacted = redactValue(item, rules, matched);
+      changed = changed || redacted !== item;
+      return redacted;
+    });
+    return changed ? result : value;
+  }
+  if (value && typeof value === 'object') {
+    let changed = false;
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const redacted = SKIPPED_KEYS.has(key)
+        ? item
+        : redactValue(item, rules, matched);
+      changed = changed || redacted !== item;
+      result[key] = redacted;
+    }
+    return changed ? result : value;
+  }
+  return value;
+}
+
+/**
+ * Redact a line of JSON, falling back to plain text if it doesn't parse
+ */
+function redactLine(
+  line: string,
+  rules: RedactionRule[]
+): { text: string; matched: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    return redactText(line, rules);
+  }
+
+  const matched: string[] = [];
+  const redacted = redactValue(data, rules, matched);
+  return {
+    text: redacted === data ? line : JSON.stringify(redacted),
+    matched,
+  };
+}
+
+/**
+ * Redact secrets from a synced file
+ *
+ * Session lines are redacted value by value so they stay valid JSON and
+ * lines without secrets are kept byte-for-byte. Other files, such as
+ * file-history snapshots, are redacted as text.
+ */
+export function redactContent(
+  file: string,
+  content: string,
+  rules: RedactionRule[]
+): RedactionResult {
+  const redactions: Redaction[] = [];
+
+  if (file.endsWith('.json')) {
+    const result = redactLine(content, rules);
+    for (const rule of result.matched) {
+      redactions.push({ line: 1, rule });
+    }
+    return { content: result.text, redactions };
+  }
+
+  if (!file.endsWith('.jsonl')) {
+    return redactPlainText(content, rules);
+  }
+
+  const lines = content.split('\n').map((line, index) => {
+    const result = redactLine(line, rules);
+    for (const rule of result.matched) {
+      redactions.push({ line: index + 1, rule });
+    }
+    return result.text;
+  });
+
+  return { content: lines.join('\n'), redactions };
+}
@@ -0,0 +1,176 @@
+import { basename, dirname } from 'node:path';
+
+/**
+ * Characters that can be part of a path, used to find path boundaries
+ */
+const PATH_CHAR = '[\\w.~-]';
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Collect the cwd values recorded in a session
+ */
+function getSessionCwds(content: string): string[] {
+  const cwds = new Set<string>();
+
+  for (const line of content.split('\n')) {
+    if (!line.includes('"cwd"')) {
+      continue;
+    }
+    try {
+      const data = JSON.parse(line);
+      if (typeof data.cwd === 'string' && data.cwd) {
+        cwds.add(data.cwd);
+      }
+    } catch {
+      // Skip lines that can't be parsed
+    }
+  }
+
+  return Array.from(cwds);
+}
+
+/**
+ * Detect the project root a session was recorded in, when it differs from
+ * the current project root
+ *
+ * The shortest recorded cwd is taken as the root, since sessions started in a
+ * subdirectory have longer ones. If that cwd has an ancestor with the same
+ * name as the current project directory, the ancestor is used instead.
+ * Returns null when the session already refers to the current root.
+ */
+export function detectOriginalRoot(
+  content: string,
+  projectRoot: string
+): string | null {
+  const cwds = getSessionCwds(content).sort((a, b) => a.length - b.length);
+  if (cwds.length === 0) {
+    return null;
+  }
+
+  const cwd = cwds[0];
+  if (cwd === projectRoot || cwd.startsWith(projectRoot + '/')) {
+    return null;
+  }
+
+  const projectName = basename(projectRoot);
+  for (let dir = cwd; dir !== dirname(dir); dir = dirname(dir)) {
+    if (basename(dir) === projectName) {
+      return dir;
+    }
+  }
+
+  return cwd;
+}
+
+/**
+ * Replace a root directory in every string of a JSON value
+ * @returns The new value, or the same value when nothing changed
+ */
+function relocateValue(
+  value: unknown,
+  pattern: RegExp,
+  toRoot: string
+): unknown {
+  if (typeof value === 'string') {
+    return value.replace(pattern, toRoot);
+  }
+  if (Array.isArray(value)) {
+    let changed = false;
+    const result = value.map((item) => {
+      const relocated = relocateValue(item, pattern, toRoot);
+      changed = changed || relocated !== item;
+      return relocated;
+    });
+    return changed ? result : value;
+  }
+  if (value && typeof value === 'object') {
+    let changed = false;
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const relocated = relocateValue(item, pattern, toRoot);
+      changed = changed || relocated !== item;
+      result[key] = relocated;
+    }
+    return changed ? result : value;
+  }
+  return value;
+}
+
+/**
+ * Rewrite the paths a session line refers to: its cwd, the input of tool
+ * calls and the structured tool results
+ */
+function relocateEntry(
+  data: Record<string, unknown>,
+  pattern: RegExp,
+  toRoot: string
+): boolean {
+  let changed = false;
+
+  if (typeof data.cwd === 'string') {
+    const cwd = data.cwd.replace(pattern, toRoot);
+    changed = cwd !== data.cwd;
+    data.cwd = cwd;
+  }
+
+  const message = data.message as { content?: unknown } | undefined;
+  if (message && Array.isArray(message.content)) {
+    for (const block of message.content) {
+      if (block && block.type === 'tool_use' && 'input' in block) {
+        const input = relocateValue(block.input, pattern, toRoot);
+        changed = changed || input !== block.input;
+        block.input = input;
+      }
+    }
+  }
+
+  if ('toolUseResult' in data) {
+    const result = relocateValue(data.toolUseResult, pattern, toRoot);
+    changed = changed || result !== data.toolUseResult;
+    data.toolUseResult = result;
+  }
+
+  return changed;
+}
+
+/**
+ * Rewrite the paths recorded in a session from one project root to another
+ * Lines that do not mention the root are left byte-for-byte untouched
+ */
+export function relocateSessionPaths(
+  content: string,
+  fromRoot: string,
+  toRoot: string
+): string {
+  if (fromRoot === toRoot || !content.includes(fromRoot)) {
+    return content;
+  }
+
+  const pattern = new RegExp(
+    `(?<!${PATH_CHAR}|/)${escapeRegExp(fromRoot)}(?!${PATH_CHAR})`,
+    'g'
+  );
+
+  return content
+    .split('\n')
+    .map((line) => {
+      if (!line.includes(fromRoot)) {
+        return line;
+      }
+      try {
+        const data = JSON.parse(line);
+        return relocateEntry(data, pattern, toRoot)
+          ? JSON.stringify(data)
+          : line;
+      } catch {
+        return line;
+      }
+    })
+    .join('\n');
+}
@@ -0,0 +1,62 @@
+import type {
+  ConversationEntry,
+  SearchQuery,
+  SearchRole,
+} from '../types/index.js';
+
+/**
+ * Split text into the lowercased words a search index holds
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Get the searchable text of an entry and who wrote it
+ * Summaries are not searched
+ */
+export function getSearchableText(
+  entry: ConversationEntry
+): { role: SearchRole; text: string } | null {
+  switch (entry.type) {
+    case 'user':
+    case 'assistant':
+      return { role: entry.type, text: entry.text };
+    case 'tool_use':
+      return {
+        role: 'tool',
+        text: `${entry.name} ${JSON.stringify(entry.input ?? null)}`,
+      };
+    case 'tool_result':
+      return { role: 'tool', text: entry.text };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Create a test for whether a line matches a query
+ * @throws If the query is an invalid regular expression
+ */
+export function createLineMatcher(
+  query: SearchQuery
+): (line: string) => boolean {
+  if (query.regex) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(query.pattern, query.caseSensitive ? '' : 'i');
+    } catch {
+      throw new Error(`Invalid regular expression: ${query.pattern}`);
+    }
+    return (line) => pattern.test(line);
+  }
+
+  if (query.caseSensitive) {
+    return (line) => line.includes(query.pattern);
+  }
+  const text = query.pattern.toLowerCase();
+  return (line) => line.toLowerCase().includes(text);
+}
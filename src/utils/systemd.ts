@@ -0,0 +1,87 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Name of the systemd user unit running the daemon
+ */
+export const SERVICE_UNIT_NAME = 'claude-sync.service';
+
+/**
+ * Quote an argument for a unit file's ExecStart line
+ * Percent signs and dollar signs are doubled so systemd doesn't expand them.
+ */
+export function quoteUnitArg(arg: string): string {
+  const escaped = arg
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/%/g, '%%')
+    .replace(/\$/g, '$$$$');
+  return `"${escaped}"`;
+}
+
+/**
+ * Render a systemd user unit that runs a command as the sync daemon
+ * The daemon reports readiness with sd_notify, is restarted when it fails,
+ * its output goes to the journal, and reloading it sends SIGHUP so the
+ * daemon rereads its config.
+ * @param command The program to run followed by its arguments
+ */
+export function renderServiceUnit(command: string[]): string {
+  return [
+    '[Unit]',
+    'Description=Claude Sync conversation history daemon',
+    'After=default.target',
+    '',
+    '[Service]',
+    'Type=notify',
+    // systemd-notify runs as a child of the daemon, not as the daemon itself
+    'NotifyAccess=all',
+    `ExecStart=${command.map(quoteUnitArg).join(' ')}`,
+    'ExecReload=/bin/kill -HUP $MAINPID',
+    'Restart=on-failure',
+    'RestartSec=5',
+    'StandardOutput=journal',
+    'StandardError=journal',
+    '',
+    '[Install]',
+    'WantedBy=default.target',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Send a state change to systemd, when running as a Type=notify service
+ * @param state A notification such as READY=1 or STOPPING=1
+ * @returns Whether the notification was sent
+ */
+export async function notifySystemd(state: string): Promise<boolean> {
+  if (!process.env.NOTIFY_SOCKET) {
+    return false;
+  }
+  try {
+    await execFileAsync('systemd-notify', [state]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Run systemctl against the user's service manager
+ * @returns What systemctl printed
+ * @throws With systemctl's error output if it fails
+ */
+export async function runSystemctl(args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('systemctl', ['--user', ...args]);
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(
+      `systemctl --user ${args.join(' ')} failed` +
+        (stderr ? `: ${stderr}` : '')
+    );
+  }
+}
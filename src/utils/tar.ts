@@ -0,0 +1,147 @@
+/**
+ * A file stored in a tar archive
+ */
+export interface TarEntry {
+  name: string;
+  content: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+const NAME_LENGTH = 100;
+const PREFIX_LENGTH = 155;
+
+/**
+ * Split a path into the name and prefix fields of a ustar header
+ * @throws If the path is too long for a ustar header
+ */
+function splitName(name: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(name) <= NAME_LENGTH) {
+    return { name, prefix: '' };
+  }
+  for (let i = name.indexOf('/'); i !== -1; i = name.indexOf('/', i + 1)) {
+    const prefix = name.slice(0, i);
+    const rest = name.slice(i + 1);
+    if (
+      Buffer.byteLength(prefix) <= PREFIX_LENGTH &&
+      Buffer.byteLength(rest) <= NAME_LENGTH
+    ) {
+      return { name: rest, prefix };
+    }
+  }
+  throw new Error(`Path too long for a tar archive: ${name}`);
+}
+
+/**
+ * Write a number as a zero-padded octal field
+ */
+function writeOctal(
+  header: Buffer,
+  value: number,
+  offset: number,
+  length: number
+): void {
+  header.write(
+    value.toString(8).padStart(length - 1, '0') + '\0',
+    offset,
+    length,
+    'ascii'
+  );
+}
+
+/**
+ * Read a NUL-terminated string field
+ */
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf-8');
+}
+
+/**
+ * Create the ustar header of a regular file
+ */
+function createHeader(entry: TarEntry, mtime: number): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  const { name, prefix } = splitName(entry.name);
+
+  header.write(name, 0, NAME_LENGTH, 'utf-8');
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, entry.content.length, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.write('0', 156, 1, 'ascii');
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  header.write(prefix, 345, PREFIX_LENGTH, 'utf-8');
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(' ', 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+  return header;
+}
+
+/**
+ * Create an uncompressed tar archive of regular files
+ * @throws If a path is too long for a ustar header
+ */
+export function createTar(entries: TarEntry[], mtime = new Date()): Buffer {
+  const seconds = Math.floor(mtime.getTime() / 1000);
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    blocks.push(createHeader(entry, seconds), entry.content);
+    const padding =
+      (BLOCK_SIZE - (entry.content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    blocks.push(Buffer.alloc(padding));
+  }
+  // An archive ends with two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Read the regular files of a tar archive
+ * Directories, links and extended headers are skipped.
+ * @throws If the archive is truncated or a header is damaged
+ */
+export function readTar(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const checksum = parseInt(readString(header, 148, 8).trim(), 8);
+    const actual =
+      header.reduce((sum, byte) => sum + byte, 0) -
+      header.subarray(148, 156).reduce((sum, byte) => sum + byte, 0) +
+      8 * 0x20;
+    if (checksum !== actual) {
+      throw new Error('Damaged tar archive: bad header checksum');
+    }
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const start = offset + BLOCK_SIZE;
+    if (start + size > archive.length) {
+      throw new Error('Damaged tar archive: truncated file');
+    }
+
+    const type = String.fromCharCode(header[156]);
+    if (type === '0' || type === '\0') {
+      const name = readString(header, 0, NAME_LENGTH);
+      const prefix = readString(header, 345, PREFIX_LENGTH);
+      entries.push({
+        name: prefix ? `${prefix}/${name}` : name,
+        content: Buffer.from(archive.subarray(start, start + size)),
+      });
+    }
+    offset = start + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return entries;
+}
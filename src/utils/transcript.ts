@@ -0,0 +1,171 @@
+import chalk from 'chalk';
+import type {
+  ConversationEntry,
+  ToolResultEntry,
+  ToolUseEntry,
+} from '../types/index.js';
+import { formatTimestamp, truncate } from './format.js';
+
+/**
+ * Options for rendering a transcript
+ */
+export interface TranscriptOptions {
+  /** Show the input and output of every tool call instead of a one-line summary */
+  expandTools?: boolean;
+}
+
+/**
+ * Input fields that best describe a tool call, in order of preference
+ */
+const SUMMARY_FIELDS = [
+  'file_path',
+  'path',
+  'command',
+  'pattern',
+  'url',
+  'query',
+  'description',
+  'prompt',
+];
+
+/**
+ * Describe a tool call's input in a few words, such as the file it reads
+ */
+export function summarizeToolInput(input: unknown): string {
+  if (typeof input !== 'object' || input === null) {
+    return '';
+  }
+  const fields = input as Record<string, unknown>;
+  for (const field of SUMMARY_FIELDS) {
+    if (typeof fields[field] === 'string') {
+      return truncate(fields[field] as string, 60);
+    }
+  }
+  return '';
+}
+
+/**
+ * Describe a tool call's result in a few words
+ */
+function summarizeToolResult(result: ToolResultEntry | undefined): string {
+  if (!result) {
+    return chalk.gray('(no result)');
+  }
+  if (result.isError) {
+    return chalk.red('(error)');
+  }
+  const lines = result.text ? result.text.split('\n').length : 0;
+  return chalk.gray(`(${lines} line${lines === 1 ? '' : 's'})`);
+}
+
+/**
+ * Indent every line of a block of text
+ */
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => prefix + line)
+    .join('\n');
+}
+
+/**
+ * Render a tool call, collapsed to one line unless expanded
+ */
+function formatToolUse(
+  entry: ToolUseEntry,
+  result: ToolResultEntry | undefined,
+  options: TranscriptOptions
+): string[] {
+  if (!options.expandTools) {
+    const summary = summarizeToolInput(entry.input);
+    return [
+      `  ${chalk.yellow('▸')} ${chalk.bold(entry.name)}` +
+        `${summary ? ' ' + summary : ''} ${summarizeToolResult(result)}`,
+    ];
+  }
+
+  const lines = [`  ${chalk.yellow('▾')} ${chalk.bold(entry.name)}`];
+  lines.push(
+    chalk.gray(indent(JSON.stringify(entry.input, null, 2) ?? '', '    '))
+  );
+  if (result) {
+    const output = result.text || '(empty)';
+    lines.push(indent(result.isError ? chalk.red(output) : output, '    │ '));
+  }
+  return lines;
+}
+
+/**
+ * Render the heading of a turn in the conversation
+ */
+function formatHeading(
+  speaker: string,
+  timestamp: string | undefined,
+  detail?: string
+): string {
+  const parts = [detail, timestamp && formatTimestamp(timestamp)].filter(
+    Boolean
+  );
+  return `\n${speaker}${parts.length > 0 ? chalk.gray(' · ' + parts.join(' · ')) : ''}`;
+}
+
+/**
+ * Render a conversation as readable text for the terminal
+ * Consecutive entries of one assistant turn share a heading, and tool calls
+ * are shown with their results
+ */
+export function formatTranscript(
+  entries: ConversationEntry[],
+  options: TranscriptOptions = {}
+): string {
+  const results = new Map<string, ToolResultEntry>();
+  const calls = new Set<string>();
+  for (const entry of entries) {
+    if (entry.type === 'tool_result') {
+      results.set(entry.toolUseId, entry);
+    } else if (entry.type === 'tool_use') {
+      calls.add(entry.toolUseId);
+    }
+  }
+
+  const lines: string[] = [];
+  let speaker: 'user' | 'assistant' | null = null;
+  const startAssistantTurn = (entry: ConversationEntry, model?: string) => {
+    if (speaker !== 'assistant') {
+      lines.push(
+        formatHeading(chalk.blue.bold('Assistant'), entry.timestamp, model)
+      );
+      speaker = 'assistant';
+    }
+  };
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case 'user':
+        lines.push(formatHeading(chalk.green.bold('User'), entry.timestamp));
+        lines.push(entry.text);
+        speaker = 'user';
+        break;
+      case 'assistant':
+        startAssistantTurn(entry, entry.model);
+        lines.push(entry.text);
+        break;
+      case 'tool_use':
+        startAssistantTurn(entry, entry.model);
+        lines.push(
+          ...formatToolUse(entry, results.get(entry.toolUseId), options)
+        );
+        break;
+      case 'tool_result':
+        // Results are shown with their calls; only orphans are shown here
+        if (!calls.has(entry.toolUseId)) {
+          lines.push(
+            `  ${chalk.yellow('◂')} ${chalk.gray('tool result')} ${summarizeToolResult(entry)}`
+          );
+        }
+        break;
+    }
+  }
+
+  return lines.join('\n').trimStart();
+}
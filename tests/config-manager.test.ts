@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { ConfigManager } from '../src/core/config-manager.js';
-import { unlink } from 'node:fs/promises';
+import { mkdir, rm, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 
 describe('ConfigManager', () => {
   let configManager: ConfigManager;
@@ -105,6 +107,128 @@ describe('ConfigManager', () => {
     });
   });
 
+  describe('tombstoneGraceDays', () => {
+    it('should default to 30 days', () => {
+      expect(configManager.getTombstoneGraceDays()).toBe(30);
+    });
+
+    it('should set the grace period', () => {
+      configManager.setTombstoneGraceDays(7);
+      expect(configManager.getTombstoneGraceDays()).toBe(7);
+    });
+  });
+
+  describe('redaction', () => {
+    it('should redact secrets by default', () => {
+      expect(configManager.isRedactSecretsEnabled()).toBe(true);
+      expect(configManager.getRedactionRules()).toEqual([]);
+    });
+
+    it('should add, replace and remove custom rules', () => {
+      configManager.addRedactionRule({ name: 'ticket', pattern: 'ACME-\\d+' });
+      configManager.addRedactionRule({ name: 'ticket', pattern: 'ACME-\\w+' });
+
+      expect(configManager.getRedactionRules()).toEqual([
+        { name: 'ticket', pattern: 'ACME-\\w+' },
+      ]);
+
+      configManager.removeRedactionRule('ticket');
+      expect(configManager.getRedactionRules()).toEqual([]);
+    });
+
+    it('should reject invalid patterns', () => {
+      expect(() =>
+        configManager.addRedactionRule({ name: 'broken', pattern: '(' })
+      ).toThrow('Invalid redaction rule');
+    });
+
+    it('should pass redaction settings to the storage manager', () => {
+      configManager.setRedactSecrets(false);
+
+      expect(configManager.getStorageManagerOptions()).toMatchObject({
+        tombstoneGraceDays: 30,
+        redactSecrets: false,
+      });
+    });
+  });
+
+  describe('retention', () => {
+    it('should apply project limits over the global ones', () => {
+      configManager.setRetentionPolicy({ maxAgeDays: 90, maxSessions: 100 });
+      configManager.setRetentionPolicy({ maxSessions: 10 }, '/work/project');
+
+      expect(configManager.getRetentionPolicy()).toEqual({
+        maxAgeDays: 90,
+        maxSessions: 100,
+      });
+      expect(configManager.getRetentionPolicy('/work/project')).toEqual({
+        maxAgeDays: 90,
+        maxSessions: 10,
+      });
+      expect(configManager.getRetentionPolicy('/work/other')).toEqual({
+        maxAgeDays: 90,
+        maxSessions: 100,
+      });
+    });
+
+    it('should not prune automatically by default', () => {
+      expect(configManager.isAutoPruneEnabled()).toBe(false);
+
+      configManager.setAutoPrune(true);
+      expect(configManager.isAutoPruneEnabled()).toBe(true);
+    });
+  });
+
+  describe('getProjectConfig', () => {
+    let projectRoot: string;
+
+    beforeEach(async () => {
+      projectRoot = join(tmpdir(), `claude-test-${Date.now()}`);
+      await mkdir(join(projectRoot, '.claude'), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should use the global configuration without sync.json', async () => {
+      const config = await configManager.getProjectConfig(projectRoot);
+
+      expect(config.projectRoot).toBe(projectRoot);
+      expect(config.enabled).toBe(true);
+      expect(config.direction).toBe('both');
+      expect(config.include).toEqual([]);
+      expect(config.exclude).toEqual([]);
+      expect(config.redactSecrets).toBe(true);
+    });
+
+    it('should merge the project settings over the global ones', async () => {
+      configManager.setRetentionPolicy({ maxAgeDays: 90, maxSessions: 100 });
+      configManager.addRedactionRule({ name: 'ticket', pattern: 'ACME-\\d+' });
+      await writeFile(
+        join(projectRoot, '.claude', 'sync.json'),
+        JSON.stringify({
+          enabled: false,
+          direction: 'to-global',
+          exclude: ['file-history/**'],
+          redactionRules: [{ name: 'account', pattern: '\\d{12}' }],
+          retention: { maxSessions: 10 },
+        })
+      );
+
+      const config = await configManager.getProjectConfig(projectRoot);
+
+      expect(config.enabled).toBe(false);
+      expect(config.direction).toBe('to-global');
+      expect(config.exclude).toEqual(['file-history/**']);
+      expect(config.redactionRules.map((rule) => rule.name)).toEqual([
+        'ticket',
+        'account',
+      ]);
+      expect(config.retention).toEqual({ maxAgeDays: 90, maxSessions: 10 });
+    });
+  });
+
   describe('reset', () => {
     it('should reset configuration to defaults', () => {
       configManager.setMode('global');
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, stat, access } from 'node:fs/promises';
+import { createConnection } from 'node:net';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { ControlServer } from '../src/core/control-server.js';
+import { callDaemon } from '../src/utils/control.js';
+import type { SyncDaemon } from '../src/core/daemon.js';
+
+/**
+ * Send raw lines to a socket and collect the response lines
+ */
+function sendRaw(
+  socketPath: string,
+  data: string,
+  count: number
+): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(socketPath, () => socket.write(data));
+    let received = '';
+    socket.on('data', (chunk) => {
+      received += chunk.toString('utf-8');
+      const lines = received.split('\n').filter(Boolean);
+      if (lines.length >= count) {
+        socket.destroy();
+        resolve(lines);
+      }
+    });
+    socket.on('error', reject);
+  });
+}
+
+describe('ControlServer', () => {
+  let testDir: string;
+  let socketPath: string;
+  let server: ControlServer;
+  let calls: string[];
+  let paused: boolean;
+
+  const daemon = {
+    getStatus: () => ({ running: true, paused, projects: ['/work/app'] }),
+    syncNow: async (project: string, direction?: string) => {
+      calls.push(`syncNow ${project} ${direction}`);
+      if (project === '/missing') {
+        throw new Error('Not monitoring /missing');
+      }
+      return {
+        success: false,
+        filesProcessed: 1,
+        errors: [new Error('could not write a.jsonl')],
+      };
+    },
+    rescan: async () => ['/work/new'],
+    pause: () => {
+      paused = true;
+    },
+    resume: async () => {
+      paused = false;
+    },
+  } as unknown as SyncDaemon;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    socketPath = join(testDir, 'run', 'daemon.sock');
+    calls = [];
+    paused = false;
+    server = new ControlServer(daemon, socketPath);
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should answer status requests', async () => {
+    await server.listen();
+
+    expect(await callDaemon('getStatus', {}, { socketPath })).toEqual({
+      running: true,
+      paused: false,
+      projects: ['/work/app'],
+    });
+  });
+
+  it('should only let the user connect', async () => {
+    await server.listen();
+
+    expect((await stat(socketPath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should pause and resume the daemon', async () => {
+    await server.listen();
+
+    expect(await callDaemon('pause', {}, { socketPath })).toEqual({
+      paused: true,
+    });
+    expect(paused).toBe(true);
+    expect(await callDaemon('resume', {}, { socketPath })).toEqual({
+      paused: false,
+    });
+    expect(paused).toBe(false);
+  });
+
+  it('should sync on demand, sending error messages', async () => {
+    await server.listen();
+
+    const result = await callDaemon(
+      'syncNow',
+      { project: '/work/app', direction: 'to-local' },
+      { socketPath }
+    );
+
+    expect(calls).toEqual(['syncNow /work/app to-local']);
+    expect(result).toEqual({
+      success: false,
+      filesProcessed: 1,
+      errors: ['could not write a.jsonl'],
+    });
+  });
+
+  it('should report what the daemon throws', async () => {
+    await server.listen();
+
+    await expect(
+      callDaemon('syncNow', { project: '/missing' }, { socketPath })
+    ).rejects.toThrow('Not monitoring /missing');
+  });
+
+  it('should reject bad parameters and unknown methods', async () => {
+    await server.listen();
+
+    await expect(callDaemon('syncNow', {}, { socketPath })).rejects.toThrow(
+      'needs a project path'
+    );
+    await expect(
+      callDaemon(
+        'syncNow',
+        { project: '/work/app', direction: 'sideways' },
+        { socketPath }
+      )
+    ).rejects.toThrow('Invalid sync direction');
+    await expect(callDaemon('reboot', {}, { socketPath })).rejects.toThrow(
+      'Unknown method: reboot'
+    );
+    expect(calls).toEqual([]);
+  });
+
+  it('should answer several requests on one connection in order', async () => {
+    await server.listen();
+
+    const lines = await sendRaw(
+      socketPath,
+      'not json\n' +
+        JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'rescan' }) +
+        '\n' +
+        JSON.stringify({ id: 8, method: 'pause' }) +
+        '\n',
+      3
+    );
+
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32700, message: 'Invalid JSON' },
+      },
+      { jsonrpc: '2.0', id: 7, result: { added: ['/work/new'] } },
+      {
+        jsonrpc: '2.0',
+        id: 8,
+        error: { code: -32600, message: 'Invalid request' },
+      },
+    ]);
+  });
+
+  it('should shut down after answering a shutdown request', async () => {
+    let shutdown = false;
+    await server.listen(() => {
+      shutdown = true;
+    });
+
+    expect(await callDaemon('shutdown', {}, { socketPath })).toEqual({
+      stopping: true,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(shutdown).toBe(true);
+  });
+
+  it('should remove the socket when closed', async () => {
+    await server.listen();
+    await server.close();
+
+    await expect(access(socketPath)).rejects.toThrow();
+  });
+
+  it('should report that the daemon is not running', async () => {
+    await expect(callDaemon('getStatus', {}, { socketPath })).rejects.toThrow(
+      'The daemon is not running'
+    );
+  });
+});
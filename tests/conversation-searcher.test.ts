@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { SearchIndex } from '../src/core/search-index.js';
+import { ConversationSearcher } from '../src/core/conversation-searcher.js';
+import type { ConversationSource } from '../src/types/index.js';
+
+const SESSION = [
+  {
+    type: 'user',
+    uuid: 'a',
+    timestamp: '2024-01-01T10:00:00.000Z',
+    cwd: '/work/project',
+    message: { role: 'user', content: 'Why does the auth check fail?' },
+  },
+  {
+    type: 'assistant',
+    uuid: 'b',
+    timestamp: '2024-01-01T10:00:05.000Z',
+    message: {
+      role: 'assistant',
+      content: [
+        {
+          type: 'text',
+          text: 'Looking at it.\nThe auth bug is in the middleware.\nLet me fix it.',
+        },
+        {
+          type: 'tool_use',
+          id: 't1',
+          name: 'Read',
+          input: { file_path: 'src/auth.ts' },
+        },
+      ],
+    },
+  },
+];
+
+describe('ConversationSearcher', () => {
+  let testDir: string;
+  let local: ConversationSource;
+  let global: ConversationSource;
+  let searcher: ConversationSearcher;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-searcher-test-${Date.now()}`);
+    local = { side: 'local', path: join(testDir, 'local') };
+    global = { side: 'global', path: join(testDir, 'global') };
+    await mkdir(local.path, { recursive: true });
+    await mkdir(global.path, { recursive: true });
+    searcher = new ConversationSearcher(
+      new SearchIndex(join(testDir, 'index'))
+    );
+
+    const content =
+      SESSION.map((line) => JSON.stringify(line)).join('\n') + '\n';
+    await writeFile(join(local.path, 'session.jsonl'), content);
+    await writeFile(join(global.path, 'session.jsonl'), content);
+    await writeFile(
+      join(global.path, 'other.jsonl'),
+      JSON.stringify({
+        ...SESSION[0],
+        message: { role: 'user', content: 'Unrelated' },
+      }) + '\n'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should return matching lines with their context', async () => {
+    const matches = await searcher.search([local, global], {
+      pattern: 'auth bug',
+    });
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({
+      sessionId: 'session',
+      side: 'local',
+      role: 'assistant',
+      line: 2,
+      timestamp: '2024-01-01T10:00:05.000Z',
+      before: ['Looking at it.'],
+      text: 'The auth bug is in the middleware.',
+      after: ['Let me fix it.'],
+    });
+  });
+
+  it('should search a session found on both sides once', async () => {
+    const matches = await searcher.search([local, global], { pattern: 'auth' });
+
+    expect(matches.map((m) => [m.side, m.role])).toEqual([
+      ['local', 'user'],
+      ['local', 'assistant'],
+      ['local', 'tool'],
+    ]);
+  });
+
+  it('should filter by role', async () => {
+    const matches = await searcher.search([local], {
+      pattern: 'auth',
+      roles: ['user', 'tool'],
+    });
+
+    expect(matches.map((m) => m.role)).toEqual(['user', 'tool']);
+  });
+
+  it('should match regular expressions', async () => {
+    const matches = await searcher.search([global], {
+      pattern: '^(why|unrel)',
+      regex: true,
+      context: 0,
+    });
+
+    expect(matches.map((m) => m.sessionId)).toEqual(['other', 'session']);
+    expect(matches[1].cwd).toBe('/work/project');
+  });
+
+  it('should stop at the limit', async () => {
+    const matches = await searcher.search([local], {
+      pattern: 'auth',
+      limit: 2,
+    });
+
+    expect(matches).toHaveLength(2);
+  });
+});
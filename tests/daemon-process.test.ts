@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, rm, writeFile, readFile, access } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { DaemonProcess } from '../src/core/daemon-process.js';
+import { isProcessAlive } from '../src/utils/lock.js';
+import { notifySystemd } from '../src/utils/systemd.js';
+
+vi.mock('../src/utils/systemd.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils/systemd.js')>()),
+  notifySystemd: vi.fn(async () => false),
+}));
+
+/**
+ * Arguments running a daemon stand-in that reports ready and stays up
+ */
+function daemonArgs(onSigterm = 'process.exit(0)'): string[] {
+  return [
+    '-e',
+    `process.on('SIGTERM', () => { ${onSigterm} });` +
+      "console.log('daemon up');" +
+      "process.send({ type: 'ready' });" +
+      'setInterval(() => {}, 1000);',
+  ];
+}
+
+describe('DaemonProcess', () => {
+  let testDir: string;
+  let pidFile: string;
+  let logFile: string;
+  let pids: number[];
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    pidFile = join(testDir, 'daemon.pid');
+    logFile = join(testDir, 'logs', 'daemon.log');
+    pids = [];
+  });
+
+  afterEach(async () => {
+    for (const pid of pids) {
+      if (isProcessAlive(pid)) {
+        process.kill(pid, 'SIGKILL');
+      }
+    }
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should report no daemon without a PID file', async () => {
+    const daemonProcess = new DaemonProcess({ pidFile, logFile });
+    expect(await daemonProcess.getPid()).toBeNull();
+  });
+
+  it('should remove a stale PID file', async () => {
+    // PIDs this high are not handed out
+    await writeFile(pidFile, '2147483646');
+    const daemonProcess = new DaemonProcess({ pidFile, logFile });
+
+    expect(await daemonProcess.getPid()).toBeNull();
+    await expect(access(pidFile)).rejects.toThrow();
+  });
+
+  it('should start a daemon and send its output to the log file', async () => {
+    const daemonProcess = new DaemonProcess({ pidFile, logFile });
+    const pid = await daemonProcess.start(daemonArgs());
+    pids.push(pid);
+
+    expect(isProcessAlive(pid)).toBe(true);
+    expect(await readFile(logFile, 'utf-8')).toContain('daemon up');
+  });
+
+  it('should fail when the daemon exits before it is ready', async () => {
+    const daemonProcess = new DaemonProcess({ pidFile, logFile });
+
+    await expect(
+      daemonProcess.start([
+        '-e',
+        "console.error('bad config'); process.exit(3)",
+      ])
+    ).rejects.toThrow(/exited with code 3.*daemon\.log/);
+    expect(await readFile(logFile, 'utf-8')).toContain('bad config');
+  });
+
+  it('should fail with the error the daemon reports', async () => {
+    const daemonProcess = new DaemonProcess({ pidFile, logFile });
+
+    await expect(
+      daemonProcess.start([
+        '-e',
+        "process.send({ type: 'error', message: 'no paths' }); setInterval(() => {}, 1000);",
+      ])
+    ).rejects.toThrow('Daemon failed to start: no paths');
+  });
+
+  it('should give up on a daemon that never becomes ready', async () => {
+    const daemonProcess = new DaemonProcess({
+      pidFile,
+      logFile,
+      readyTimeoutMs: 200,
+    });
+
+    await expect(
+      daemonProcess.start(['-e', 'setInterval(() => {}, 1000);'])
+    ).rejects.toThrow('did not become ready in time');
+  });
+
+  it('should stop a daemon that shuts down cleanly', async () => {
+    const daemonProcess = new DaemonProcess({ pidFile, logFile });
+    const pid = await daemonProcess.start(daemonArgs());
+    pids.push(pid);
+    await writeFile(pidFile, String(pid));
+
+    expect(await daemonProcess.stop()).toBe('stopped');
+    expect(isProcessAlive(pid)).toBe(false);
+    await expect(access(pidFile)).rejects.toThrow();
+  });
+
+  it('should kill a daemon that ignores SIGTERM', async () => {
+    const daemonProcess = new DaemonProcess({
+      pidFile,
+      logFile,
+      stopTimeoutMs: 300,
+    });
+    const pid = await daemonProcess.start(daemonArgs(''));
+    pids.push(pid);
+    await writeFile(pidFile, String(pid));
+
+    expect(await daemonProcess.stop()).toBe('killed');
+    expect(isProcessAlive(pid)).toBe(false);
+  });
+
+  it('should report when no daemon is running to stop', async () => {
+    const daemonProcess = new DaemonProcess({ pidFile, logFile });
+    expect(await daemonProcess.stop()).toBe('not-running');
+  });
+
+  it('should remove its PID file when the daemon fails to start', async () => {
+    const daemonProcess = new DaemonProcess({ pidFile, logFile });
+    const daemon = {
+      start: async () => {
+        throw new Error('cannot watch');
+      },
+      stop: async () => {},
+    };
+
+    await expect(daemonProcess.serve(daemon)).rejects.toThrow('cannot watch');
+    await expect(access(pidFile)).rejects.toThrow();
+  });
+
+  it('should report ready once listening and before the initial syncs', async () => {
+    const daemonProcess = new DaemonProcess({ pidFile, logFile });
+    const signals = ['SIGTERM', 'SIGINT', 'SIGHUP'] as const;
+    const listeners = signals.map((signal) => process.listeners(signal));
+    const events: string[] = [];
+    const send = vi.fn((message: { type: string }) => {
+      events.push(message.type);
+      return true;
+    });
+    process.send = send as unknown as typeof process.send;
+    vi.mocked(notifySystemd).mockImplementation(async (state) => {
+      events.push(state);
+      return false;
+    });
+
+    try {
+      await daemonProcess.serve(
+        {
+          start: async () => {
+            // Signal handlers are installed before starting
+            events.push(`start (${process.listenerCount('SIGTERM')} handlers)`);
+          },
+          stop: async () => {},
+          syncAll: async () => {
+            events.push('syncAll');
+          },
+        },
+        {
+          listen: async () => {
+            events.push('listen');
+          },
+          close: async () => {},
+        }
+      );
+    } finally {
+      delete process.send;
+      signals.forEach((signal, i) => {
+        for (const listener of process.listeners(signal)) {
+          if (!listeners[i].includes(listener)) {
+            process.off(signal, listener);
+          }
+        }
+      });
+    }
+
+    expect(events).toEqual([
+      `start (${listeners[0].length + 1} handlers)`,
+      'listen',
+      'ready',
+      'READY=1',
+      'syncAll',
+    ]);
+  });
+
+  it("should log the signals it receives to the daemon's logger", async () => {
+    const daemonProcess = new DaemonProcess({ pidFile, logFile });
+    const signals = ['SIGTERM', 'SIGINT', 'SIGHUP'] as const;
+    const listeners = signals.map((signal) => process.listeners(signal));
+    const logger = { info: vi.fn() };
+    const reload = vi.fn(async () => {});
+
+    try {
+      await daemonProcess.serve(
+        { start: async () => {}, stop: async () => {}, reload },
+        undefined,
+        logger
+      );
+      process.emit('SIGHUP');
+    } finally {
+      signals.forEach((signal, i) => {
+        for (const listener of process.listeners(signal)) {
+          if (!listeners[i].includes(listener)) {
+            process.off(signal, listener);
+          }
+        }
+      });
+    }
+
+    expect(logger.info).toHaveBeenCalledWith(
+      'Received SIGHUP, reloading config'
+    );
+    expect(reload).toHaveBeenCalled();
+  });
+});
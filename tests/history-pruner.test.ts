@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { access, mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { StorageManager } from '../src/core/storage-manager.js';
+import { HistoryPruner } from '../src/core/history-pruner.js';
+import { getGlobalProjectPath } from '../src/utils/paths.js';
+
+const execAsync = promisify(exec);
+
+const NOW = new Date('2024-06-30T00:00:00.000Z').getTime();
+
+describe('HistoryPruner', () => {
+  let testDir: string;
+  let projectRoot: string;
+  let historyPath: string;
+  let storageManager: StorageManager;
+  let pruner: HistoryPruner;
+
+  /**
+   * Write a local session whose last entry is on the given day of June 2024
+   */
+  const writeSession = async (id: string, day: number, padding = 0) => {
+    const day2 = String(day).padStart(2, '0');
+    const entry = JSON.stringify({
+      uuid: id,
+      timestamp: `2024-06-${day2}T00:00:00.000Z`,
+      message: 'x'.repeat(padding),
+    });
+    await writeFile(join(historyPath, `${id}.jsonl`), entry + '\n');
+  };
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-prune-test-${Date.now()}`);
+    projectRoot = join(testDir, 'project');
+    historyPath = join(projectRoot, '.claude', 'history');
+    await mkdir(historyPath, { recursive: true });
+    storageManager = new StorageManager(join(testDir, 'global'), {
+      archivePath: join(testDir, 'archive'),
+    });
+    pruner = new HistoryPruner(storageManager);
+
+    await writeSession('newest', 29);
+    await writeSession('middle', 20);
+    await writeSession('oldest', 1);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  const archivedIds = async (
+    policy: Parameters<HistoryPruner['planPrune']>[1]
+  ) =>
+    (await pruner.planPrune(projectRoot, policy, NOW)).archive.map(
+      (session) => session.id
+    );
+
+  it('should archive sessions older than the age limit', async () => {
+    const plan = await pruner.planPrune(projectRoot, { maxAgeDays: 14 }, NOW);
+
+    expect(plan.archive.map((session) => session.id)).toEqual(['oldest']);
+    expect(plan.archive[0].reason).toContain('14 days');
+    expect(plan.kept.map((session) => session.id)).toEqual([
+      'newest',
+      'middle',
+    ]);
+  });
+
+  it('should keep the newest sessions up to the count limit', async () => {
+    expect(await archivedIds({ maxSessions: 1 })).toEqual(['middle', 'oldest']);
+  });
+
+  it('should keep the newest sessions up to the size limit', async () => {
+    await writeSession('middle', 20, 1024 * 1024);
+
+    // The large session doesn't fit, and the older ones make way for it
+    expect(await archivedIds({ maxTotalSizeMB: 1 })).toEqual([
+      'middle',
+      'oldest',
+    ]);
+  });
+
+  it('should keep sessions changed in recent commits', async () => {
+    const git = (command: string) => execAsync(command, { cwd: projectRoot });
+    await git('git init -q');
+    await git('git config user.email test@example.com');
+    await git('git config user.name Test');
+    await git('git add -A && git commit -qm "Add history"');
+    await writeSession('newest', 30);
+    await git('git add -A && git commit -qm "Continue session"');
+
+    expect(await archivedIds({ maxSessions: 0, keepRecentCommits: 1 })).toEqual(
+      ['middle', 'oldest']
+    );
+    expect(await archivedIds({ maxSessions: 0, keepRecentCommits: 2 })).toEqual(
+      []
+    );
+  });
+
+  it('should not keep sessions committed before the recent commits', async () => {
+    const git = (command: string) => execAsync(command, { cwd: projectRoot });
+    await git('git init -q');
+    await git('git config user.email test@example.com');
+    await git('git config user.name Test');
+    await git('git add -A && git commit -qm "Add history"');
+    for (const change of ['one', 'two']) {
+      await writeFile(join(projectRoot, 'README.md'), change);
+      await git('git add -A && git commit -qm "Unrelated change"');
+    }
+
+    expect(await archivedIds({ maxSessions: 0, keepRecentCommits: 2 })).toEqual(
+      ['newest', 'middle', 'oldest']
+    );
+  });
+
+  it('should move archived sessions out of both sides', async () => {
+    await storageManager.syncToGlobal(projectRoot);
+    const globalFile = join(
+      getGlobalProjectPath(join(testDir, 'global'), projectRoot),
+      'oldest.jsonl'
+    );
+
+    const plan = await pruner.planPrune(projectRoot, { maxSessions: 2 }, NOW);
+    const result = await pruner.prune(plan);
+
+    expect(result.success).toBe(true);
+    expect(result.archived).toEqual(['oldest']);
+    await expect(access(join(historyPath, 'oldest.jsonl'))).rejects.toThrow();
+    await expect(access(globalFile)).rejects.toThrow();
+    await expect(
+      access(join(storageManager.getArchiveDir(projectRoot), 'oldest.jsonl'))
+    ).resolves.toBeUndefined();
+
+    // The archived session is not synced back
+    await storageManager.syncToLocal(projectRoot, { bidirectional: true });
+    await expect(access(join(historyPath, 'oldest.jsonl'))).rejects.toThrow();
+  });
+});
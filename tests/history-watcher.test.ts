@@ -4,6 +4,7 @@ import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { HistoryWatcher } from '../src/core/watcher.js';
 import { StorageManager } from '../src/core/storage-manager.js';
+import { encodeProjectPath } from '../src/utils/paths.js';
 
 describe('HistoryWatcher', () => {
   let testDir: string;
@@ -79,7 +80,7 @@ describe('HistoryWatcher', () => {
 
     it('should call callback on file events', async () => {
       // Create global project directory using Claude Code's structure
-      const encodedPath = projectRoot.replace(/^\//, '').replace(/\//g, '-');
+      const encodedPath = encodeProjectPath(projectRoot);
       const globalProjectPath = join(globalPath, 'projects', encodedPath);
       await mkdir(globalProjectPath, { recursive: true });
 
@@ -118,7 +119,7 @@ describe('HistoryWatcher', () => {
   describe('file synchronization', () => {
     it('should sync new files from global to local', async () => {
       // Create global project directory using Claude Code's structure
-      const encodedPath = projectRoot.replace(/^\//, '').replace(/\//g, '-');
+      const encodedPath = encodeProjectPath(projectRoot);
       const globalProjectPath = join(globalPath, 'projects', encodedPath);
       await mkdir(globalProjectPath, { recursive: true });
 
@@ -178,7 +179,7 @@ describe('HistoryWatcher', () => {
       await new Promise((resolve) => setTimeout(resolve, 4000));
 
       // Check if file was synced to global
-      const encodedPath = projectRoot.replace(/^\//, '').replace(/\//g, '-');
+      const encodedPath = encodeProjectPath(projectRoot);
       const globalProjectPath = join(globalPath, 'projects', encodedPath);
       await mkdir(globalProjectPath, { recursive: true });
 
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { KeyManager, ENCRYPTION_CONFIG_FILE } from '../src/core/key-manager.js';
+import { decodeKey, getKeyId } from '../src/utils/crypto.js';
+
+describe('KeyManager', () => {
+  let testDir: string;
+  let projectRoot: string;
+  let keyManager: KeyManager;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-keys-test-${Date.now()}`);
+    projectRoot = join(testDir, 'project');
+    await mkdir(projectRoot, { recursive: true });
+    keyManager = new KeyManager(join(testDir, 'keys'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should report projects without encryption', async () => {
+    expect(await keyManager.loadConfig(projectRoot)).toBeNull();
+    expect(await keyManager.getProjectKey(projectRoot)).toBeNull();
+  });
+
+  it('should create a key and record its ID in the project', async () => {
+    const result = await keyManager.initKey(projectRoot);
+
+    const config = JSON.parse(
+      await readFile(
+        join(projectRoot, '.claude', ENCRYPTION_CONFIG_FILE),
+        'utf-8'
+      )
+    );
+    expect(result.created).toBe(true);
+    expect(config.keyId).toBe(result.keyId);
+    expect(JSON.stringify(config)).not.toContain(result.key.toString('base64'));
+    expect((await keyManager.getProjectKey(projectRoot))?.key).toEqual(
+      result.key
+    );
+  });
+
+  it('should write a new key file and accept it on another machine', async () => {
+    const keyFile = join(testDir, 'team.key');
+    const { keyId } = await keyManager.initKey(projectRoot, { keyFile });
+
+    const teammate = new KeyManager(join(testDir, 'teammate-keys'));
+    await expect(teammate.getProjectKey(projectRoot)).rejects.toThrow('No key');
+
+    const result = await teammate.initKey(projectRoot, { keyFile });
+    expect(result.created).toBe(false);
+    expect(result.keyId).toBe(keyId);
+    expect((await teammate.getProjectKey(projectRoot))?.keyId).toBe(keyId);
+  });
+
+  it('should derive the key from a passphrase', async () => {
+    const { keyId } = await keyManager.initKey(projectRoot, {
+      passphrase: 'correct horse battery staple',
+    });
+
+    const teammate = new KeyManager(join(testDir, 'teammate-keys'));
+    await expect(
+      teammate.initKey(projectRoot, { passphrase: 'wrong' })
+    ).rejects.toThrow('does not match');
+
+    const result = await teammate.initKey(projectRoot, {
+      passphrase: 'correct horse battery staple',
+    });
+    expect(result.keyId).toBe(keyId);
+  });
+
+  it('should reject unsafe key derivation settings', async () => {
+    await keyManager.initKey(projectRoot, { passphrase: 'correct horse' });
+    const configPath = join(projectRoot, '.claude', ENCRYPTION_CONFIG_FILE);
+    const config = JSON.parse(await readFile(configPath, 'utf-8'));
+    expect(await keyManager.loadConfig(projectRoot)).toEqual(config);
+
+    for (const kdf of [
+      { ...config.kdf, name: 'pbkdf2' },
+      { ...config.kdf, N: 2 ** 30 },
+      { ...config.kdf, N: 1000 },
+      { ...config.kdf, r: 0 },
+      { ...config.kdf, p: 1e6 },
+      { ...config.kdf, salt: '' },
+      { ...config.kdf, salt: 'not base64!' },
+    ]) {
+      await writeFile(configPath, JSON.stringify({ ...config, kdf }));
+      await expect(keyManager.loadConfig(projectRoot)).rejects.toThrow(
+        'Unsupported encryption settings'
+      );
+    }
+  });
+
+  it('should reject a key that does not match the project', async () => {
+    await keyManager.initKey(projectRoot);
+    const otherKeyFile = join(testDir, 'other.key');
+    await new KeyManager(join(testDir, 'other-keys')).initKey(
+      join(testDir, 'other'),
+      { keyFile: otherKeyFile }
+    );
+
+    await expect(
+      keyManager.initKey(projectRoot, { keyFile: otherKeyFile })
+    ).rejects.toThrow('does not match');
+  });
+
+  it('should find a key given in the environment', async () => {
+    const { key } = await keyManager.initKey(projectRoot);
+    const teammate = new KeyManager(join(testDir, 'teammate-keys'));
+
+    process.env.CLAUDE_SYNC_KEY = key.toString('base64');
+    try {
+      expect((await teammate.getProjectKey(projectRoot))?.key).toEqual(key);
+    } finally {
+      delete process.env.CLAUDE_SYNC_KEY;
+    }
+  });
+
+  it('should rotate keys and keep the previous key', async () => {
+    const previous = await keyManager.initKey(projectRoot);
+
+    const rotated = await keyManager.rotateKey(projectRoot);
+
+    expect(rotated.keyId).not.toBe(previous.keyId);
+    expect((await keyManager.getProjectKey(projectRoot))?.keyId).toBe(
+      rotated.keyId
+    );
+    expect(await keyManager.getStoredKey(previous.keyId)).toEqual(previous.key);
+  });
+
+  it('should export the key as text', async () => {
+    const { key } = await keyManager.initKey(projectRoot);
+
+    const exported = await keyManager.exportKey(projectRoot);
+
+    expect(getKeyId(decodeKey(exported))).toBe(getKeyId(key));
+  });
+
+  it('should refuse to rotate or export without encryption', async () => {
+    await expect(keyManager.rotateKey(projectRoot)).rejects.toThrow(
+      'not encrypted'
+    );
+    await expect(keyManager.exportKey(projectRoot)).rejects.toThrow(
+      'not encrypted'
+    );
+  });
+});
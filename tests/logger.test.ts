@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, rm, readFile, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { Logger } from '../src/core/logger.js';
+import type { SyncResult } from '../src/types/index.js';
+
+describe('Logger', () => {
+  let testDir: string;
+  let file: string;
+
+  const readRecords = async (path = file) =>
+    (await readFile(path, 'utf-8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    file = join(testDir, 'logs', 'daemon.log');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should write records as JSON lines', async () => {
+    const logger = new Logger({ file, echo: false });
+    logger.info('Monitoring project: /work/app', { project: '/work/app' });
+    logger.error('Sync error for /work/app', new Error('disk full'), {
+      project: '/work/app',
+    });
+    await logger.flush();
+
+    const records = await readRecords();
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      level: 'info',
+      message: 'Monitoring project: /work/app',
+      project: '/work/app',
+    });
+    expect(new Date(records[0].time).getTime()).not.toBeNaN();
+    expect(records[1]).toMatchObject({ level: 'error', error: 'disk full' });
+  });
+
+  it('should leave out records below its level', async () => {
+    const logger = new Logger({ file, level: 'warn', echo: false });
+    logger.debug('Change detected');
+    logger.info('Starting...');
+    logger.warn('Global projects directory not found');
+    await logger.flush();
+
+    expect((await readRecords()).map((record) => record.message)).toEqual([
+      'Global projects directory not found',
+    ]);
+  });
+
+  it('should record the outcome of a sync', async () => {
+    const logger = new Logger({ file, echo: false });
+    const result: SyncResult = {
+      success: false,
+      filesProcessed: 2,
+      filesDeleted: 1,
+      linesCopied: 10,
+      linesMerged: 3,
+      bytesTransferred: 512,
+      errors: [new Error('a.jsonl is locked')],
+      duration: 42,
+    };
+    logger.sync('/work/app', 'to-global', result);
+    await logger.flush();
+
+    const [record] = await readRecords();
+    expect(record).toMatchObject({
+      level: 'warn',
+      project: '/work/app',
+      direction: 'to-global',
+      files: 3,
+      durationMs: 42,
+      error: 'a.jsonl is locked',
+    });
+    expect(record.message).toContain('2 file(s) updated, 1 deleted');
+  });
+
+  it('should rotate the file when it grows too big', async () => {
+    const logger = new Logger({
+      file,
+      maxBytes: 300,
+      maxFiles: 2,
+      echo: false,
+    });
+    for (let i = 0; i < 20; i++) {
+      logger.info(`Record number ${i} with some padding to fill the log`);
+    }
+    await logger.flush();
+
+    expect((await readdir(join(testDir, 'logs'))).sort()).toEqual([
+      'daemon.log',
+      'daemon.log.1',
+      'daemon.log.2',
+    ]);
+    const latest = await readRecords();
+    expect(latest[latest.length - 1].message).toContain('Record number 19');
+    const previous = await readRecords(`${file}.1`);
+    const last = previous[previous.length - 1].message;
+    expect(last).toContain(`Record number ${19 - latest.length}`);
+  });
+
+  it('should echo records to the console', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const logger = new Logger();
+
+    logger.info('Starting...');
+    logger.error('Sync error for /work/app', new Error('disk full'));
+
+    expect(log).toHaveBeenCalledWith('[claude-local daemon] Starting...');
+    expect(error).toHaveBeenCalledWith(
+      '[claude-local daemon] Sync error for /work/app: disk full'
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, readdir, rm, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { SearchIndex } from '../src/core/search-index.js';
+import type { ConversationSource } from '../src/types/index.js';
+
+const session = (...texts: string[]) =>
+  texts
+    .map((text, i) =>
+      JSON.stringify({
+        type: 'user',
+        uuid: `u${i}`,
+        message: { role: 'user', content: text },
+      })
+    )
+    .join('\n') + '\n';
+
+describe('SearchIndex', () => {
+  let testDir: string;
+  let indexPath: string;
+  let source: ConversationSource;
+  let searchIndex: SearchIndex;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-search-test-${Date.now()}`);
+    indexPath = join(testDir, 'index');
+    source = { side: 'global', path: join(testDir, 'sessions') };
+    await mkdir(source.path, { recursive: true });
+    searchIndex = new SearchIndex(indexPath);
+
+    await writeFile(
+      join(source.path, 'auth.jsonl'),
+      session('Fix the authentication bug', 'in the constructor')
+    );
+    await writeFile(
+      join(source.path, 'docs.jsonl'),
+      session('Update the README')
+    );
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should index the words of every session', async () => {
+    const index = await searchIndex.update(source);
+
+    expect(Object.keys(index.files).sort()).toEqual([
+      'auth.jsonl',
+      'docs.jsonl',
+    ]);
+    expect(index.terms['the']).toEqual(['auth.jsonl', 'docs.jsonl']);
+    expect(index.terms['constructor']).toEqual(['auth.jsonl']);
+    expect(await readdir(indexPath)).toHaveLength(1);
+  });
+
+  it('should find the sessions that may contain some text', async () => {
+    const index = await searchIndex.update(source);
+
+    expect(searchIndex.findSessions(index, 'auth bug')).toEqual(['auth.jsonl']);
+    expect(searchIndex.findSessions(index, 'the')).toEqual([
+      'auth.jsonl',
+      'docs.jsonl',
+    ]);
+    expect(searchIndex.findSessions(index, 'missing')).toEqual([]);
+  });
+
+  it('should re-index only sessions that changed', async () => {
+    await searchIndex.update(source);
+    await writeFile(
+      join(source.path, 'docs.jsonl'),
+      session('Add a changelog')
+    );
+    await unlink(join(source.path, 'auth.jsonl'));
+
+    const index = await new SearchIndex(indexPath).update(source);
+
+    expect(Object.keys(index.files)).toEqual(['docs.jsonl']);
+    expect(index.terms['readme']).toBeUndefined();
+    expect(index.terms['authentication']).toBeUndefined();
+    expect(index.terms['changelog']).toEqual(['docs.jsonl']);
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { exec } from 'node:child_process';
@@ -7,6 +7,14 @@ import { promisify } from 'node:util';
 import { SyncDaemon } from '../src/core/daemon.js';
 import { StorageManager } from '../src/core/storage-manager.js';
 import { ConfigManager } from '../src/core/config-manager.js';
+import { Logger } from '../src/core/logger.js';
+import { notifySystemd } from '../src/utils/systemd.js';
+import { getGlobalProjectPath } from '../src/utils/paths.js';
+
+vi.mock('../src/utils/systemd.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils/systemd.js')>()),
+  notifySystemd: vi.fn(async () => false),
+}));
 
 const execAsync = promisify(exec);
 
@@ -81,6 +89,28 @@ describe('SyncDaemon', () => {
     });
   });
 
+  describe('readiness', () => {
+    it('should leave the initial syncs until asked for them', async () => {
+      await mkdir(join(searchPath, 'project', '.claude', 'history'), { recursive: true });
+      const events: string[] = [];
+      const logger = new Logger({ echo: false });
+      vi.spyOn(logger, 'sync').mockImplementation(() => {
+        events.push('sync');
+      });
+      vi.mocked(notifySystemd).mockImplementation(async (state) => {
+        events.push(state);
+        return false;
+      });
+
+      daemon = new SyncDaemon([searchPath], logger);
+      await daemon.start();
+      expect(events).toEqual([]);
+
+      await daemon.syncAll();
+      expect(events).toEqual(['sync']);
+    });
+  });
+
   describe('project discovery', () => {
     it('should discover existing projects with .claude folders', async () => {
       // Create a project with .claude folder
@@ -199,6 +229,29 @@ describe('SyncDaemon', () => {
       const status = daemon.getStatus();
       expect(status.projectCount).toBe(1);
     });
+
+    it('should sync when only companion data changes globally', async () => {
+      const project = join(searchPath, 'project');
+      await mkdir(join(project, '.claude', 'history'), { recursive: true });
+      const projectPath = getGlobalProjectPath(join(testDir, 'global'), project);
+      await mkdir(projectPath, { recursive: true });
+      await writeFile(
+        join(projectPath, 'session-1.jsonl'),
+        JSON.stringify({ type: 'user', sessionId: 'session-1', cwd: project }) + '\n'
+      );
+      const todosPath = join(testDir, 'global', 'todos');
+      await mkdir(todosPath, { recursive: true });
+
+      daemon = new SyncDaemon([searchPath]);
+      await daemon.start();
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      await writeFile(join(todosPath, 'session-1-agent-session-1.json'), '[]');
+      await new Promise((resolve) => setTimeout(resolve, 6000));
+
+      const localTodo = join(project, '.claude', 'history', 'todos', 'session-1-agent-session-1.json');
+      await expect(readFile(localTodo, 'utf-8')).resolves.toBe('[]');
+    }, 15000);
   });
 
   describe('status', () => {
@@ -301,4 +354,198 @@ describe('SyncDaemon', () => {
       expect(status.running).toBe(true);
     });
   });
+
+  describe('control', () => {
+    it('should report the projects it monitors in detail', async () => {
+      const project = join(searchPath, 'project');
+      await mkdir(join(project, '.claude', 'history'), { recursive: true });
+
+      daemon = new SyncDaemon([searchPath]);
+      await daemon.start();
+      await daemon.syncAll();
+
+      const status = daemon.getStatus();
+      expect(status.paused).toBe(false);
+      expect(status.pid).toBe(process.pid);
+      expect(status.startedAt).not.toBeNull();
+      expect(status.searchPaths).toEqual([searchPath]);
+      // Synced once the daemon is up
+      expect(status.projectDetails).toEqual([
+        { root: project, lastSyncedAt: expect.any(String), lastError: null },
+      ]);
+      expect(status.recentErrors).toEqual([]);
+    });
+
+    it('should sync a project on demand', async () => {
+      const project = join(searchPath, 'project');
+      await mkdir(join(project, '.claude', 'history'), { recursive: true });
+
+      daemon = new SyncDaemon([searchPath]);
+      await daemon.start();
+      // Written after the initial sync, before the watcher's debounce is up
+      await writeFile(
+        join(project, '.claude', 'history', 'on-demand.jsonl'),
+        '{"uuid":"a"}\n'
+      );
+      const result = await daemon.syncNow(project, 'to-global');
+
+      expect(result.success).toBe(true);
+      expect(result.filesProcessed).toBe(1);
+      expect(daemon.getStatus().projectDetails[0].lastSyncedAt).not.toBeNull();
+    });
+
+    it('should refuse to sync a project it does not monitor', async () => {
+      daemon = new SyncDaemon([searchPath]);
+      await daemon.start();
+
+      await expect(daemon.syncNow(join(testDir, 'elsewhere'))).rejects.toThrow(
+        'Not monitoring'
+      );
+    });
+
+    it('should pause and resume', async () => {
+      daemon = new SyncDaemon([searchPath]);
+      await daemon.start();
+
+      daemon.pause();
+      expect(daemon.getStatus().paused).toBe(true);
+
+      await daemon.resume();
+      expect(daemon.getStatus().paused).toBe(false);
+    });
+
+    it('should find new projects when rescanning', async () => {
+      daemon = new SyncDaemon([searchPath]);
+      await daemon.start();
+      expect(daemon.getStatus().projectCount).toBe(0);
+
+      const project = join(searchPath, 'later');
+      await mkdir(join(project, '.claude', 'history'), { recursive: true });
+
+      expect(await daemon.rescan()).toEqual([project]);
+      expect(await daemon.rescan()).toEqual([]);
+    });
+  });
+
+  describe('reloading config', () => {
+    let configFile: string;
+
+    beforeEach(() => {
+      configFile = join(testDir, 'daemon-config.json');
+    });
+
+    it('should add and remove search paths', async () => {
+      const otherPath = join(testDir, 'other');
+      const kept = join(searchPath, 'kept');
+      const added = join(otherPath, 'added');
+      await mkdir(join(kept, '.claude', 'history'), { recursive: true });
+      await mkdir(join(added, '.claude', 'history'), { recursive: true });
+      await writeFile(configFile, JSON.stringify({ searchPaths: [searchPath] }));
+
+      daemon = new SyncDaemon([searchPath], undefined, configFile);
+      await daemon.start();
+      expect(daemon.getStatus().projects).toEqual([kept]);
+
+      await writeFile(configFile, JSON.stringify({ searchPaths: [searchPath, otherPath] }));
+      expect(await daemon.reload()).toEqual({ added: [otherPath], removed: [] });
+      expect(daemon.getStatus().projects.sort()).toEqual([added, kept].sort());
+
+      await writeFile(configFile, JSON.stringify({ searchPaths: [otherPath] }));
+      expect(await daemon.reload()).toEqual({ added: [], removed: [searchPath] });
+      expect(daemon.getStatus().projects).toEqual([added]);
+      expect(daemon.getStatus().searchPaths).toEqual([otherPath]);
+    });
+
+    it('should keep the current config when the new one is invalid', async () => {
+      await writeFile(configFile, JSON.stringify({ searchPaths: [searchPath] }));
+      daemon = new SyncDaemon([searchPath], undefined, configFile);
+      await daemon.start();
+
+      await writeFile(configFile, '{"searchPaths": [');
+      expect(await daemon.reload()).toBeNull();
+      expect(daemon.getStatus().searchPaths).toEqual([searchPath]);
+      expect(daemon.getStatus().recentErrors[0].message).toContain('Could not parse');
+    });
+
+    it('should reload when the config file changes', async () => {
+      const otherPath = join(testDir, 'other');
+      const project = join(otherPath, 'project');
+      await mkdir(join(project, '.claude', 'history'), { recursive: true });
+      await writeFile(configFile, JSON.stringify({ searchPaths: [searchPath] }));
+
+      daemon = new SyncDaemon([searchPath], undefined, configFile);
+      await daemon.start();
+      await writeFile(configFile, JSON.stringify({ searchPaths: [otherPath] }));
+
+      // Wait for the watcher to notice
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+
+      expect(daemon.getStatus().searchPaths).toEqual([otherPath]);
+      expect(daemon.getStatus().projects).toEqual([project]);
+    }, 10000);
+  });
+
+  describe('discovery settings', () => {
+    it('should scan as deep as configured', async () => {
+      const nested = join(searchPath, 'monorepo', 'packages', 'app');
+      await mkdir(join(nested, '.claude', 'history'), { recursive: true });
+
+      daemon = new SyncDaemon([searchPath]);
+      await daemon.start();
+      expect(daemon.getStatus().projects).toEqual([]);
+      await daemon.stop();
+
+      daemon = new SyncDaemon([searchPath], undefined, undefined, { scanDepth: 4 });
+      await daemon.start();
+      expect(daemon.getStatus().projects).toEqual([nested]);
+    });
+
+    it('should skip excluded directories', async () => {
+      const vendored = join(searchPath, 'vendor', 'lib');
+      const hidden = join(searchPath, '.hidden');
+      await mkdir(join(vendored, '.claude', 'history'), { recursive: true });
+      await mkdir(join(hidden, '.claude', 'history'), { recursive: true });
+
+      daemon = new SyncDaemon([searchPath], undefined, undefined, { exclude: ['vendor'] });
+      await daemon.start();
+      expect(daemon.getStatus().projects).toEqual([hidden]);
+    });
+
+    it('should monitor tracked projects outside the search paths', async () => {
+      const elsewhere = join(testDir, 'elsewhere');
+      await mkdir(join(elsewhere, '.claude', 'history'), { recursive: true });
+
+      daemon = new SyncDaemon([searchPath], undefined, undefined, {
+        trackedProjects: [elsewhere, join(testDir, 'missing')],
+      });
+      await daemon.start();
+
+      const status = daemon.getStatus();
+      expect(status.projects).toEqual([elsewhere]);
+      expect(status.trackedProjects).toEqual([elsewhere, join(testDir, 'missing')]);
+    });
+
+    it('should apply new discovery settings on reload', async () => {
+      const configFile = join(testDir, 'daemon-config.json');
+      const elsewhere = join(testDir, 'elsewhere');
+      const vendored = join(searchPath, 'vendor');
+      await mkdir(join(elsewhere, '.claude', 'history'), { recursive: true });
+      await mkdir(join(vendored, '.claude', 'history'), { recursive: true });
+      await writeFile(
+        configFile,
+        JSON.stringify({ searchPaths: [searchPath], trackedProjects: [elsewhere] })
+      );
+
+      daemon = new SyncDaemon([searchPath], undefined, configFile, {
+        trackedProjects: [elsewhere],
+      });
+      await daemon.start();
+      expect(daemon.getStatus().projects.sort()).toEqual([elsewhere, vendored].sort());
+
+      await writeFile(configFile, JSON.stringify({ searchPaths: [searchPath], exclude: ['vendor'] }));
+      await daemon.reload();
+      expect(daemon.getStatus().projects).toEqual([]);
+      expect(daemon.getStatus().trackedProjects).toEqual([]);
+    });
+  });
 });
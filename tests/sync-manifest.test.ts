@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { SyncManifest, SYNC_MANIFEST_FILE } from '../src/core/sync-manifest.js';
+
+const print = (hash: string) => ({ size: hash.length, hash });
+
+describe('SyncManifest', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('getState', () => {
+    it('should report files present on one side only', () => {
+      const manifest = new SyncManifest(testDir);
+
+      expect(manifest.getState('a.jsonl', print('x'), null)).toBe('local-only');
+      expect(manifest.getState('a.jsonl', null, print('x'))).toBe('global-only');
+    });
+
+    it('should report identical copies as unchanged', () => {
+      const manifest = new SyncManifest(testDir);
+
+      expect(manifest.getState('a.jsonl', print('x'), print('x'))).toBe(
+        'unchanged'
+      );
+    });
+
+    it('should treat differing copies without history as changed on both', () => {
+      const manifest = new SyncManifest(testDir);
+
+      expect(manifest.getState('a.jsonl', print('x'), print('y'))).toBe(
+        'both-changed'
+      );
+    });
+
+    it('should tell which side changed since the last sync', () => {
+      const manifest = new SyncManifest(testDir);
+      manifest.record('a.jsonl', print('base'), print('base'), 'base');
+
+      expect(manifest.getState('a.jsonl', print('new'), print('base'))).toBe(
+        'local-changed'
+      );
+      expect(manifest.getState('a.jsonl', print('base'), print('new'))).toBe(
+        'global-changed'
+      );
+      expect(manifest.getState('a.jsonl', print('l'), print('g'))).toBe(
+        'both-changed'
+      );
+    });
+  });
+
+  describe('prefixes', () => {
+    it('should keep the prefix of a side only while it is unchanged', () => {
+      const manifest = new SyncManifest(testDir);
+      manifest.record('a.jsonl', print('x'), print('x'), 'x');
+      manifest.recordPrefix('a.jsonl', 'local', { offset: 1, hash: 'x' });
+      manifest.recordPrefix('a.jsonl', 'global', { offset: 1, hash: 'x' });
+
+      manifest.record('a.jsonl', print('x'), print('y'), 'x');
+
+      expect(manifest.get('a.jsonl')?.prefixes).toEqual({
+        local: { offset: 1, hash: 'x' },
+        global: undefined,
+      });
+    });
+  });
+
+  describe('tombstones', () => {
+    it('should replace the sync entry with a tombstone', () => {
+      const manifest = new SyncManifest(testDir);
+      manifest.record('a.jsonl', print('x'), print('x'), 'x');
+
+      manifest.addTombstone('a.jsonl', 'local', ['x', 'x']);
+
+      expect(manifest.get('a.jsonl')).toBeUndefined();
+      expect(manifest.getTombstone('a.jsonl')?.hashes).toEqual(['x']);
+      expect(manifest.getTombstonedFiles()).toEqual(['a.jsonl']);
+    });
+
+    it('should prune tombstones older than the grace period', async () => {
+      const manifest = new SyncManifest(testDir);
+      manifest.addTombstone('a.jsonl', 'both', ['x']);
+
+      expect(manifest.pruneTombstones(60_000)).toBe(0);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      expect(manifest.pruneTombstones(0)).toBe(1);
+      expect(manifest.getTombstone('a.jsonl')).toBeUndefined();
+    });
+  });
+
+  describe('persistence', () => {
+    it('should round-trip through disk', async () => {
+      const manifest = new SyncManifest(testDir);
+      manifest.record('a.jsonl', print('x'), print('x'), 'x');
+      await manifest.save();
+
+      const loaded = await SyncManifest.load(testDir);
+
+      expect(loaded.get('a.jsonl')?.syncedHash).toBe('x');
+      expect(loaded.get('a.jsonl')?.local).toEqual(print('x'));
+    });
+
+    it('should start empty when the manifest is corrupt', async () => {
+      const { writeFile } = await import('node:fs/promises');
+      await writeFile(join(testDir, SYNC_MANIFEST_FILE), '{not json');
+
+      const loaded = await SyncManifest.load(testDir);
+
+      expect(loaded.getFiles()).toHaveLength(0);
+    });
+
+    it('should keep the manifest out of git', async () => {
+      await new SyncManifest(testDir).save();
+
+      const gitignore = await readFile(join(testDir, '.gitignore'), 'utf-8');
+      expect(gitignore).toContain(SYNC_MANIFEST_FILE);
+    });
+  });
+});
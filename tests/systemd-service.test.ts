@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, readFile, writeFile, access } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { SystemdService } from '../src/core/systemd-service.js';
+
+describe('SystemdService', () => {
+  let testDir: string;
+  let unitPath: string;
+  let calls: string[][];
+  let showOutput: string;
+
+  const systemctl = async (args: string[]): Promise<string> => {
+    calls.push(args);
+    return args[0] === 'show' ? showOutput : '';
+  };
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    unitPath = join(testDir, 'systemd', 'user', 'claude-sync.service');
+    calls = [];
+    showOutput = 'ActiveState=active\nUnitFileState=enabled\n';
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should write the unit and enable and start the service', async () => {
+    const service = new SystemdService({ unitPath, systemctl });
+    await service.install(['/usr/bin/node', '/cli.js', 'daemon']);
+
+    const unit = await readFile(unitPath, 'utf-8');
+    expect(unit).toContain('ExecStart="/usr/bin/node" "/cli.js" "daemon"');
+    expect(calls).toEqual([
+      ['daemon-reload'],
+      ['enable', 'claude-sync.service'],
+      ['restart', 'claude-sync.service'],
+    ]);
+  });
+
+  it('should stop the service and remove the unit', async () => {
+    await mkdir(join(testDir, 'systemd', 'user'), { recursive: true });
+    await writeFile(unitPath, '[Unit]\n');
+    const service = new SystemdService({ unitPath, systemctl });
+
+    expect(await service.uninstall()).toBe(true);
+    await expect(access(unitPath)).rejects.toThrow();
+    expect(calls).toEqual([
+      ['disable', '--now', 'claude-sync.service'],
+      ['daemon-reload'],
+    ]);
+  });
+
+  it('should leave systemd alone when uninstalling a missing service', async () => {
+    const service = new SystemdService({ unitPath, systemctl });
+
+    expect(await service.uninstall()).toBe(false);
+    expect(calls).toEqual([]);
+  });
+
+  it('should report the state of an installed service', async () => {
+    const service = new SystemdService({ unitPath, systemctl });
+    await service.install(['/usr/bin/node', '/cli.js', 'daemon']);
+
+    expect(await service.getStatus()).toEqual({
+      installed: true,
+      unitPath,
+      activeState: 'active',
+      unitFileState: 'enabled',
+    });
+  });
+
+  it('should report a missing service without asking systemd', async () => {
+    const service = new SystemdService({ unitPath, systemctl });
+
+    expect(await service.getStatus()).toEqual({ installed: false, unitPath });
+    expect(calls).toEqual([]);
+  });
+
+  it('should still report an installed service when systemd is unreachable', async () => {
+    const service = new SystemdService({
+      unitPath,
+      systemctl: async () => {
+        throw new Error('Failed to connect to bus');
+      },
+    });
+    await mkdir(join(testDir, 'systemd', 'user'), { recursive: true });
+    await writeFile(unitPath, '[Unit]\n');
+
+    expect(await service.getStatus()).toEqual({ installed: true, unitPath });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, readFile, readdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { writeFileAtomic, copyFileAtomic } from '../src/utils/atomic.js';
+
+describe('Atomic File Utilities', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should replace the file content', async () => {
+      const path = join(testDir, 'session.jsonl');
+      await writeFile(path, 'old\n');
+
+      await writeFileAtomic(path, 'new\n');
+
+      expect(await readFile(path, 'utf-8')).toBe('new\n');
+    });
+
+    it('should not leave temporary files behind', async () => {
+      await writeFileAtomic(join(testDir, 'session.jsonl'), 'content\n');
+
+      expect(await readdir(testDir)).toEqual(['session.jsonl']);
+    });
+
+    it('should clean up when the destination directory is missing', async () => {
+      await expect(
+        writeFileAtomic(join(testDir, 'missing', 'session.jsonl'), 'x')
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('copyFileAtomic', () => {
+    it('should copy a file into place', async () => {
+      const source = join(testDir, 'source.jsonl');
+      const dest = join(testDir, 'dest.jsonl');
+      await writeFile(source, 'content\n');
+
+      await copyFileAtomic(source, dest);
+
+      expect(await readFile(dest, 'utf-8')).toBe('content\n');
+      expect((await readdir(testDir)).sort()).toEqual([
+        'dest.jsonl',
+        'source.jsonl',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { gzipSync } from 'node:zlib';
+import {
+  createBundle,
+  decodeBundle,
+  encodeBundle,
+} from '../src/utils/bundle.js';
+import { createTar } from '../src/utils/tar.js';
+
+describe('bundle', () => {
+  const files = new Map([
+    ['b.jsonl', Buffer.from('{"type":"user"}\n')],
+    ['todos/b-agent-b.json', Buffer.from('[]')],
+  ]);
+
+  it('should record the project, version and file hashes', () => {
+    const bundle = createBundle('/work/app', 'local', files, '1.2.3');
+
+    expect(bundle.manifest).toMatchObject({
+      format: 1,
+      toolVersion: '1.2.3',
+      projectRoot: '/work/app',
+      source: 'local',
+    });
+    expect(bundle.manifest.files).toEqual([
+      {
+        path: 'b.jsonl',
+        size: 16,
+        hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+      },
+      {
+        path: 'todos/b-agent-b.json',
+        size: 2,
+        hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+      },
+    ]);
+  });
+
+  it('should decode what it encodes', () => {
+    const bundle = createBundle('/work/app', 'global', files, '1.2.3');
+
+    expect(decodeBundle(encodeBundle(bundle))).toEqual(bundle);
+  });
+
+  it('should reject data that is not a bundle', () => {
+    expect(() => decodeBundle(Buffer.from('not a bundle'))).toThrow(
+      'Not a claude-sync bundle'
+    );
+  });
+
+  it('should reject files that do not match their hash', () => {
+    const bundle = createBundle('/work/app', 'local', files, '1.2.3');
+    bundle.files.set('b.jsonl', Buffer.from('tampered'));
+
+    expect(() => decodeBundle(encodeBundle(bundle))).toThrow(
+      'b.jsonl does not match its hash'
+    );
+  });
+
+  it('should reject paths outside the history directory', () => {
+    const manifest = {
+      format: 1,
+      toolVersion: '1.2.3',
+      projectRoot: '/work/app',
+      source: 'local',
+      createdAt: new Date().toISOString(),
+      files: [{ path: '../escape.jsonl', size: 0, hash: '' }],
+    };
+    const data = gzipSync(
+      createTar([
+        {
+          name: 'manifest.json',
+          content: Buffer.from(JSON.stringify(manifest)),
+        },
+      ])
+    );
+
+    expect(() => decodeBundle(data)).toThrow('Invalid path in bundle');
+  });
+
+  it('should reject the dotfiles of the history directory', () => {
+    for (const path of ['.sync-state.json', '.sync.lock', 'todos/.manifest']) {
+      const crafted = createBundle(
+        '/work/app',
+        'local',
+        new Map([[path, Buffer.from('{}')]]),
+        '1.2.3'
+      );
+
+      expect(() => decodeBundle(encodeBundle(crafted))).toThrow(
+        `Invalid path in bundle: ${path}`
+      );
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterConversations,
+  getDisplayTitle,
+  sortConversations,
+} from '../src/utils/conversation-filter.js';
+import type { ConversationListing } from '../src/types/index.js';
+
+const conversation = (
+  id: string,
+  fields: Partial<ConversationListing>
+): ConversationListing => ({
+  id,
+  projectPath: '/work/project',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  messageCount: 0,
+  models: [],
+  sides: ['local'],
+  size: 0,
+  ...fields,
+});
+
+const CONVERSATIONS = [
+  conversation('login', {
+    title: 'Fix the login bug',
+    updatedAt: '2024-03-01T00:00:00.000Z',
+    gitBranch: 'fix-login',
+    messageCount: 10,
+    size: 2048,
+  }),
+  conversation('docs', {
+    firstPrompt: 'Write the README',
+    createdAt: '2024-01-15T00:00:00.000Z',
+    updatedAt: '2024-01-20T00:00:00.000Z',
+    gitBranch: 'main',
+    messageCount: 30,
+    size: 512,
+  }),
+  conversation('refactor', {
+    title: 'Refactor the API',
+    updatedAt: '2024-02-01T00:00:00.000Z',
+    gitBranch: 'main',
+    messageCount: 5,
+    size: 8192,
+  }),
+];
+
+const ids = (conversations: ConversationListing[]) =>
+  conversations.map((c) => c.id);
+
+describe('conversation filter utilities', () => {
+  describe('getDisplayTitle', () => {
+    it('should prefer the summary title over the first prompt', () => {
+      expect(getDisplayTitle(CONVERSATIONS[0])).toBe('Fix the login bug');
+      expect(getDisplayTitle(CONVERSATIONS[1])).toBe('Write the README');
+      expect(getDisplayTitle(conversation('empty', {}))).toBe('');
+    });
+  });
+
+  describe('filterConversations', () => {
+    it('should keep every conversation without conditions', () => {
+      expect(ids(filterConversations(CONVERSATIONS, {}))).toEqual([
+        'login',
+        'docs',
+        'refactor',
+      ]);
+    });
+
+    it('should filter by date', () => {
+      const filter = {
+        since: new Date('2024-01-20T00:00:00.000Z'),
+        until: new Date('2024-02-15T00:00:00.000Z'),
+      };
+
+      expect(ids(filterConversations(CONVERSATIONS, filter))).toEqual([
+        'docs',
+        'refactor',
+      ]);
+    });
+
+    it('should filter by branch', () => {
+      expect(
+        ids(filterConversations(CONVERSATIONS, { branch: 'main' }))
+      ).toEqual(['docs', 'refactor']);
+    });
+
+    it('should filter by size', () => {
+      expect(
+        ids(
+          filterConversations(CONVERSATIONS, { minSize: 1024, maxSize: 4096 })
+        )
+      ).toEqual(['login']);
+    });
+
+    it('should filter by title, ignoring case', () => {
+      expect(
+        ids(filterConversations(CONVERSATIONS, { title: 'readme' }))
+      ).toEqual(['docs']);
+    });
+  });
+
+  describe('sortConversations', () => {
+    it('should sort by last update, newest first', () => {
+      expect(ids(sortConversations(CONVERSATIONS))).toEqual([
+        'login',
+        'refactor',
+        'docs',
+      ]);
+    });
+
+    it('should sort by other fields', () => {
+      expect(ids(sortConversations(CONVERSATIONS, 'size'))).toEqual([
+        'refactor',
+        'login',
+        'docs',
+      ]);
+      expect(ids(sortConversations(CONVERSATIONS, 'messages'))).toEqual([
+        'docs',
+        'login',
+        'refactor',
+      ]);
+      expect(ids(sortConversations(CONVERSATIONS, 'title'))).toEqual([
+        'login',
+        'refactor',
+        'docs',
+      ]);
+      expect(ids(sortConversations(CONVERSATIONS, 'created'))).toEqual([
+        'docs',
+        'login',
+        'refactor',
+      ]);
+    });
+
+    it('should reverse the order', () => {
+      expect(ids(sortConversations(CONVERSATIONS, 'updated', true))).toEqual([
+        'docs',
+        'refactor',
+        'login',
+      ]);
+    });
+  });
+});
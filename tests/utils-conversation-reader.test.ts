@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  parseConversationLine,
+  readConversation,
+  readConversationMetadata,
+} from '../src/utils/conversation-reader.js';
+import {
+  encryptContent,
+  generateKey,
+  decryptContent,
+} from '../src/utils/crypto.js';
+import type { ConversationEntry } from '../src/types/index.js';
+
+const base = {
+  sessionId: 'session',
+  cwd: '/work/project',
+  gitBranch: 'main',
+};
+
+const SESSION = [
+  { type: 'summary', summary: 'Fix the login bug', leafUuid: 'd' },
+  {
+    ...base,
+    type: 'user',
+    uuid: 'a',
+    parentUuid: null,
+    timestamp: '2024-01-01T10:00:00.000Z',
+    message: { role: 'user', content: 'Why does login fail?' },
+  },
+  {
+    ...base,
+    type: 'assistant',
+    uuid: 'b',
+    parentUuid: 'a',
+    timestamp: '2024-01-01T10:00:05.000Z',
+    message: {
+      id: 'msg_1',
+      role: 'assistant',
+      model: 'claude-sonnet-4-5',
+      content: [
+        { type: 'thinking', thinking: 'Let me look' },
+        { type: 'text', text: 'Let me check the handler.' },
+        {
+          type: 'tool_use',
+          id: 'toolu_1',
+          name: 'Read',
+          input: { file_path: 'src/login.ts' },
+        },
+      ],
+    },
+  },
+  {
+    ...base,
+    type: 'user',
+    uuid: 'c',
+    parentUuid: 'b',
+    timestamp: '2024-01-01T10:00:06.000Z',
+    message: {
+      role: 'user',
+      content: [
+        {
+          type: 'tool_result',
+          tool_use_id: 'toolu_1',
+          content: [{ type: 'text', text: 'export function login() {}' }],
+        },
+      ],
+    },
+  },
+  { type: 'file-history-snapshot', messageId: 'c', snapshot: {} },
+  {
+    ...base,
+    gitBranch: 'fix-login',
+    type: 'assistant',
+    uuid: 'd',
+    parentUuid: 'c',
+    timestamp: '2024-01-01T10:01:00.000Z',
+    message: {
+      id: 'msg_2',
+      role: 'assistant',
+      model: 'claude-opus-4-1',
+      content: [{ type: 'text', text: 'Found it.' }],
+    },
+  },
+];
+
+describe('conversation reader', () => {
+  let testDir: string;
+  let sessionFile: string;
+  const content = SESSION.map((line) => JSON.stringify(line)).join('\n') + '\n';
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    sessionFile = join(testDir, 'session.jsonl');
+    await writeFile(sessionFile, content);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  const collect = async (
+    entries: AsyncIterable<ConversationEntry>
+  ): Promise<ConversationEntry[]> => {
+    const result: ConversationEntry[] = [];
+    for await (const entry of entries) {
+      result.push(entry);
+    }
+    return result;
+  };
+
+  describe('parseConversationLine', () => {
+    it('should split an assistant reply into text and tool calls', () => {
+      const entries = parseConversationLine(JSON.stringify(SESSION[2]), 3);
+
+      expect(entries.map((entry) => entry.type)).toEqual([
+        'assistant',
+        'tool_use',
+      ]);
+      expect(entries[0]).toMatchObject({
+        line: 3,
+        uuid: 'b',
+        text: 'Let me check the handler.',
+        model: 'claude-sonnet-4-5',
+        messageId: 'msg_1',
+      });
+      expect(entries[1]).toMatchObject({
+        toolUseId: 'toolu_1',
+        name: 'Read',
+        input: { file_path: 'src/login.ts' },
+      });
+    });
+
+    it('should read tool results', () => {
+      const [entry] = parseConversationLine(JSON.stringify(SESSION[3]), 4);
+
+      expect(entry).toMatchObject({
+        type: 'tool_result',
+        toolUseId: 'toolu_1',
+        text: 'export function login() {}',
+        isError: false,
+      });
+    });
+
+    it('should skip malformed and bookkeeping lines', () => {
+      expect(parseConversationLine('{"type":', 1)).toEqual([]);
+      expect(parseConversationLine(JSON.stringify(SESSION[4]), 5)).toEqual([]);
+      expect(
+        parseConversationLine(
+          JSON.stringify({ ...SESSION[1], isMeta: true }),
+          2
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('readConversation', () => {
+    it('should yield the entries of a session file in order', async () => {
+      const entries = await collect(readConversation(sessionFile));
+
+      expect(entries.map((entry) => entry.type)).toEqual([
+        'summary',
+        'user',
+        'assistant',
+        'tool_use',
+        'tool_result',
+        'assistant',
+      ]);
+      expect(entries.map((entry) => entry.line)).toEqual([1, 2, 3, 3, 4, 6]);
+    });
+
+    it('should decrypt encrypted files', async () => {
+      const key = generateKey();
+      const encryptedFile = join(testDir, 'encrypted.jsonl');
+      await writeFile(encryptedFile, encryptContent(Buffer.from(content), key));
+
+      await expect(collect(readConversation(encryptedFile))).rejects.toThrow(
+        'is encrypted'
+      );
+
+      const entries = await collect(
+        readConversation(encryptedFile, {
+          decrypt: async (data) => decryptContent(data, key),
+        })
+      );
+      expect(entries).toHaveLength(6);
+    });
+  });
+
+  describe('readConversationMetadata', () => {
+    it('should summarize a session', async () => {
+      const metadata = await readConversationMetadata(
+        sessionFile,
+        '/work/project'
+      );
+
+      expect(metadata).toEqual({
+        id: 'session',
+        projectPath: '/work/project',
+        createdAt: '2024-01-01T10:00:00.000Z',
+        updatedAt: '2024-01-01T10:01:00.000Z',
+        messageCount: 3,
+        title: 'Fix the login bug',
+        firstPrompt: 'Why does login fail?',
+        gitBranch: 'fix-login',
+        models: ['claude-sonnet-4-5', 'claude-opus-4-1'],
+        cwd: '/work/project',
+      });
+    });
+
+    it('should count a reply split across lines once', async () => {
+      const reply = SESSION[5] as { message: { content: unknown } };
+      const split = [
+        SESSION[1],
+        {
+          ...SESSION[5],
+          uuid: 'e',
+          message: {
+            ...reply.message,
+            content: [{ type: 'text', text: 'One' }],
+          },
+        },
+        {
+          ...SESSION[5],
+          uuid: 'f',
+          message: {
+            ...reply.message,
+            content: [{ type: 'text', text: 'Two' }],
+          },
+        },
+      ];
+      await writeFile(
+        sessionFile,
+        split.map((line) => JSON.stringify(line)).join('\n') + '\n'
+      );
+
+      const metadata = await readConversationMetadata(sessionFile, '/work');
+
+      expect(metadata.messageCount).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeKey,
+  decryptContent,
+  deriveKey,
+  encodeKey,
+  encryptContent,
+  generateKey,
+  getContentKeyId,
+  getKeyId,
+  isEncrypted,
+} from '../src/utils/crypto.js';
+
+const FAST_SCRYPT = { N: 1024, r: 8, p: 1 };
+
+describe('crypto utilities', () => {
+  describe('encryptContent', () => {
+    it('should round-trip content', () => {
+      const key = generateKey();
+      const content = Buffer.from('{"uuid":"a"}\n');
+
+      const encrypted = encryptContent(content, key);
+
+      expect(isEncrypted(encrypted)).toBe(true);
+      expect(encrypted.includes(content)).toBe(false);
+      expect(decryptContent(encrypted, key).equals(content)).toBe(true);
+    });
+
+    it('should record the key ID in the header', () => {
+      const key = generateKey();
+
+      expect(getContentKeyId(encryptContent(Buffer.from('x'), key))).toBe(
+        getKeyId(key)
+      );
+    });
+
+    it('should use a fresh IV for each encryption', () => {
+      const key = generateKey();
+      const content = Buffer.from('same content');
+
+      expect(
+        encryptContent(content, key).equals(encryptContent(content, key))
+      ).toBe(false);
+    });
+  });
+
+  describe('decryptContent', () => {
+    it('should reject a different key', () => {
+      const encrypted = encryptContent(Buffer.from('secret'), generateKey());
+
+      expect(() => decryptContent(encrypted, generateKey())).toThrow(
+        'different key'
+      );
+    });
+
+    it('should reject tampered content', () => {
+      const key = generateKey();
+      const encrypted = encryptContent(Buffer.from('secret'), key);
+      encrypted[encrypted.length - 1] ^= 1;
+
+      expect(() => decryptContent(encrypted, key)).toThrow('tampered');
+    });
+  });
+
+  describe('isEncrypted', () => {
+    it('should not detect plain session files', () => {
+      expect(isEncrypted(Buffer.from('{"uuid":"a"}\n'))).toBe(false);
+      expect(isEncrypted(Buffer.alloc(0))).toBe(false);
+    });
+  });
+
+  describe('keys', () => {
+    it('should derive the same key from the same passphrase and salt', async () => {
+      const salt = Buffer.alloc(16, 1);
+
+      const first = await deriveKey('correct horse', salt, FAST_SCRYPT);
+      const second = await deriveKey('correct horse', salt, FAST_SCRYPT);
+      const other = await deriveKey('battery staple', salt, FAST_SCRYPT);
+
+      expect(first.equals(second)).toBe(true);
+      expect(first.equals(other)).toBe(false);
+    });
+
+    it('should encode and decode keys', () => {
+      const key = generateKey();
+
+      expect(decodeKey(encodeKey(key) + '\n').equals(key)).toBe(true);
+      expect(() => decodeKey('too short')).toThrow('Invalid key');
+    });
+  });
+});
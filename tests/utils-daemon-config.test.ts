@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  diffPaths,
+  isDiscoverable,
+  isExcludedFromScan,
+  isWithin,
+  readDaemonConfig,
+  writeDaemonConfig,
+} from '../src/utils/daemon-config.js';
+
+describe('Daemon Config Utilities', () => {
+  let testDir: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `daemon-config-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    configPath = join(testDir, 'config.json');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('readDaemonConfig', () => {
+    it('should return null without a config', async () => {
+      expect(await readDaemonConfig(configPath)).toBeNull();
+    });
+
+    it('should read a config written by writeDaemonConfig', async () => {
+      const config = {
+        searchPaths: ['/work', '/home/me/code'],
+        enabled: true,
+        logLevel: 'debug' as const,
+      };
+      await writeDaemonConfig(config, configPath);
+
+      expect(await readDaemonConfig(configPath)).toEqual(config);
+      expect(await readFile(configPath, 'utf-8')).toMatch(/\n$/);
+    });
+
+    it('should reject a config that is not JSON', async () => {
+      await writeFile(configPath, '{"searchPaths": [');
+      await expect(readDaemonConfig(configPath)).rejects.toThrow(
+        'Could not parse'
+      );
+    });
+
+    it('should reject invalid settings', async () => {
+      await writeFile(configPath, JSON.stringify({ searchPaths: '/work' }));
+      await expect(readDaemonConfig(configPath)).rejects.toThrow(
+        'Invalid setting `searchPaths`'
+      );
+
+      await writeFile(
+        configPath,
+        JSON.stringify({ searchPaths: [], logLevel: 'loud' })
+      );
+      await expect(readDaemonConfig(configPath)).rejects.toThrow(
+        'Invalid setting `logLevel`'
+      );
+
+      await writeFile(
+        configPath,
+        JSON.stringify({ searchPaths: [], scanDepth: 0 })
+      );
+      await expect(readDaemonConfig(configPath)).rejects.toThrow(
+        'Invalid setting `scanDepth`'
+      );
+
+      await writeFile(
+        configPath,
+        JSON.stringify({ searchPaths: [], trackedProjects: '/work/app' })
+      );
+      await expect(readDaemonConfig(configPath)).rejects.toThrow(
+        'Invalid setting `trackedProjects`'
+      );
+    });
+  });
+
+  describe('diffPaths', () => {
+    it('should find added and removed paths', () => {
+      expect(diffPaths(['/a', '/b'], ['/b', '/c'])).toEqual({
+        added: ['/c'],
+        removed: ['/a'],
+      });
+    });
+
+    it('should compare resolved paths', () => {
+      expect(diffPaths(['/work/'], ['/work', '/work/../work'])).toEqual({
+        added: [],
+        removed: [],
+      });
+    });
+  });
+
+  describe('isWithin', () => {
+    it('should match a directory and what is inside it', () => {
+      expect(isWithin('/work', '/work')).toBe(true);
+      expect(isWithin('/work/app', '/work')).toBe(true);
+    });
+
+    it('should not match siblings with a common prefix', () => {
+      expect(isWithin('/workshop/app', '/work')).toBe(false);
+      expect(isWithin('/other', '/work')).toBe(false);
+    });
+  });
+
+  describe('isExcludedFromScan', () => {
+    it('should match directory names at any depth', () => {
+      expect(isExcludedFromScan('vendor', ['vendor'])).toBe(true);
+      expect(isExcludedFromScan('app/vendor', ['vendor'])).toBe(true);
+      expect(isExcludedFromScan('app/vendored', ['vendor'])).toBe(false);
+      expect(isExcludedFromScan('app/.cache', ['.*'])).toBe(true);
+    });
+
+    it('should never exclude .claude directories', () => {
+      expect(isExcludedFromScan('app/.claude', ['.*'])).toBe(false);
+    });
+  });
+
+  describe('isDiscoverable', () => {
+    it('should find projects within the scan depth', () => {
+      expect(isDiscoverable('/work', '/work', 3, [])).toBe(true);
+      expect(isDiscoverable('/work/a/b', '/work', 3, [])).toBe(true);
+      expect(isDiscoverable('/work/a/b/c', '/work', 3, [])).toBe(false);
+      expect(isDiscoverable('/work/a/b/c', '/work', 4, [])).toBe(true);
+    });
+
+    it('should not find projects in excluded directories', () => {
+      expect(isDiscoverable('/work/vendor/lib', '/work', 3, ['vendor'])).toBe(
+        false
+      );
+      expect(isDiscoverable('/work/app', '/work', 3, ['vendor'])).toBe(true);
+    });
+
+    it('should not find projects outside the search path', () => {
+      expect(isDiscoverable('/other/app', '/work', 3, [])).toBe(false);
+    });
+  });
+});
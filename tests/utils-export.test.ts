@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getEditDiff,
+  renderExport,
+  renderHtml,
+  renderJson,
+  renderMarkdown,
+} from '../src/utils/export.js';
+import type {
+  ConversationEntry,
+  ConversationMetadata,
+  ToolUseEntry,
+} from '../src/types/index.js';
+
+const METADATA: ConversationMetadata = {
+  id: 'session-1',
+  projectPath: '/work/app',
+  title: 'Fix the <login> bug',
+  createdAt: '2024-01-01T10:00:00.000Z',
+  updatedAt: '2024-01-01T10:05:00.000Z',
+  messageCount: 3,
+  gitBranch: 'main',
+  models: ['claude-sonnet-4-5'],
+};
+
+const ENTRIES: ConversationEntry[] = [
+  { type: 'user', line: 1, text: 'Why does login fail?' },
+  {
+    type: 'assistant',
+    line: 2,
+    text: 'Let me check.',
+    model: 'claude-sonnet-4-5',
+  },
+  {
+    type: 'tool_use',
+    line: 2,
+    toolUseId: 't1',
+    name: 'Read',
+    input: { file_path: 'src/login.ts' },
+  },
+  {
+    type: 'tool_result',
+    line: 3,
+    toolUseId: 't1',
+    text: 'const a = 1;\n```\nnested fence',
+    isError: false,
+  },
+  {
+    type: 'tool_use',
+    line: 4,
+    toolUseId: 't2',
+    name: 'Edit',
+    input: {
+      file_path: 'src/login.ts',
+      old_string: 'a\nreturn null;\nb',
+      new_string: 'a\nreturn user;\nb',
+    },
+  },
+];
+
+const edit = (name: string, input: unknown): ToolUseEntry => ({
+  type: 'tool_use',
+  line: 1,
+  toolUseId: 't',
+  name,
+  input,
+});
+
+describe('export', () => {
+  describe('getEditDiff', () => {
+    it('should diff the strings of an edit, keeping shared lines', () => {
+      expect(
+        getEditDiff(
+          edit('Edit', { old_string: 'a\nb\nc', new_string: 'a\nB\nC\nc' })
+        )
+      ).toEqual([' a', '-b', '+B', '+C', ' c']);
+    });
+
+    it('should split the edits of a MultiEdit', () => {
+      expect(
+        getEditDiff(
+          edit('MultiEdit', {
+            edits: [
+              { old_string: 'x', new_string: 'y' },
+              { old_string: 'p', new_string: '' },
+            ],
+          })
+        )
+      ).toEqual(['-x', '+y', '@@', '-p']);
+    });
+
+    it('should show written files as added', () => {
+      expect(getEditDiff(edit('Write', { content: 'one\ntwo' }))).toEqual([
+        '+one',
+        '+two',
+      ]);
+    });
+
+    it('should ignore other tools', () => {
+      expect(getEditDiff(edit('Read', { file_path: 'a' }))).toBeNull();
+    });
+  });
+
+  describe('renderMarkdown', () => {
+    it('should start with a metadata header', () => {
+      const markdown = renderMarkdown(METADATA, ENTRIES);
+
+      expect(markdown.startsWith('# Fix the <login> bug\n')).toBe(true);
+      expect(markdown).toContain('- **Session:** session-1');
+      expect(markdown).toContain('- **Branch:** main');
+      expect(markdown).toContain('- **Models:** claude-sonnet-4-5');
+    });
+
+    it('should fold tool calls with their results', () => {
+      const markdown = renderMarkdown(METADATA, ENTRIES);
+
+      expect(markdown).toContain(
+        '<details>\n<summary>Read src/login.ts (3 lines)</summary>'
+      );
+      expect(markdown).toContain('````\nconst a = 1;\n```\nnested fence\n````');
+    });
+
+    it('should render edits as open diffs', () => {
+      const markdown = renderMarkdown(METADATA, ENTRIES);
+
+      expect(markdown).toContain(
+        '<details open>\n<summary>Edit src/login.ts (no result)</summary>'
+      );
+      expect(markdown).toContain(
+        '```diff\n a\n-return null;\n+return user;\n b\n```'
+      );
+    });
+
+    it('should group an assistant turn under one heading', () => {
+      const markdown = renderMarkdown(METADATA, ENTRIES);
+
+      expect(markdown.match(/^## Assistant/gm)).toHaveLength(1);
+      expect(markdown.match(/^## User/gm)).toHaveLength(1);
+    });
+  });
+
+  describe('renderHtml', () => {
+    it('should render a standalone page', () => {
+      const html = renderHtml(METADATA, ENTRIES);
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<style>');
+      expect(html).toContain('<title>Fix the &lt;login&gt; bug</title>');
+      expect(html).toContain('<dt>Session</dt><dd>session-1</dd>');
+    });
+
+    it('should fold tool calls and mark diff lines', () => {
+      const html = renderHtml(METADATA, ENTRIES);
+
+      expect(html).toContain(
+        '<details><summary>Read src/login.ts (3 lines)</summary>'
+      );
+      expect(html).toContain('<span class="del">-return null;</span>');
+      expect(html).toContain('<span class="add">+return user;</span>');
+    });
+  });
+
+  describe('renderJson', () => {
+    it('should hold the metadata and entries', () => {
+      expect(JSON.parse(renderJson(METADATA, ENTRIES))).toEqual({
+        metadata: METADATA,
+        entries: ENTRIES,
+      });
+    });
+  });
+
+  describe('renderExport', () => {
+    it('should render the requested format', () => {
+      expect(renderExport('html', METADATA, ENTRIES)).toBe(
+        renderHtml(METADATA, ENTRIES)
+      );
+      expect(renderExport('md', METADATA, ENTRIES)).toBe(
+        renderMarkdown(METADATA, ENTRIES)
+      );
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { formatSize, formatTimestamp, truncate } from '../src/utils/format.js';
+
+describe('format utilities', () => {
+  describe('formatSize', () => {
+    it('should format sizes in the largest fitting unit', () => {
+      expect(formatSize(0)).toBe('0 B');
+      expect(formatSize(1023)).toBe('1023 B');
+      expect(formatSize(1536)).toBe('1.5 KB');
+      expect(formatSize(5 * 1024 * 1024)).toBe('5.0 MB');
+    });
+  });
+
+  describe('formatTimestamp', () => {
+    it('should format timestamps as local date and time', () => {
+      const timestamp = new Date(2024, 0, 31, 14, 5).toISOString();
+
+      expect(formatTimestamp(timestamp)).toBe('2024-01-31 14:05');
+    });
+
+    it('should leave invalid timestamps as they are', () => {
+      expect(formatTimestamp('yesterday')).toBe('yesterday');
+    });
+  });
+
+  describe('truncate', () => {
+    it('should keep the first line up to the given length', () => {
+      expect(truncate('short', 10)).toBe('short');
+      expect(truncate('first line\nsecond line', 20)).toBe('first line');
+      expect(truncate('a long line of text', 10)).toBe('a long li…');
+    });
+  });
+});
@@ -10,6 +10,7 @@ import {
   updateGitignore,
   getRecommendedGitignoreEntries,
   isGitIgnored,
+  getRecentlyChangedFiles,
 } from '../src/utils/git.js';
 
 const execAsync = promisify(exec);
@@ -109,6 +110,7 @@ describe('Git Utilities', () => {
       expect(entries).toContain('/.claude/history/');
       expect(entries).toContain('/.claude/*.log');
       expect(entries).toContain('/.claude/cache/');
+      expect(entries).toContain('/.claude/exports/');
     });
 
     it('should return array of strings', () => {
@@ -141,4 +143,49 @@ describe('Git Utilities', () => {
       expect(result).toBe(true);
     });
   });
+
+  describe('getRecentlyChangedFiles', () => {
+    it('should return empty array for non-git directory', async () => {
+      const result = await getRecentlyChangedFiles(testDir, 1);
+      expect(result).toEqual([]);
+    });
+
+    it('should return files changed in the last commits', async () => {
+      const git = (command: string) => execAsync(command, { cwd: testDir });
+      await git('git init');
+      await git('git config user.email test@example.com');
+      await git('git config user.name Test');
+      await mkdir(join(testDir, 'history'));
+      await writeFile(join(testDir, 'history', 'a.jsonl'), 'a');
+      await writeFile(join(testDir, 'other.txt'), 'other');
+      await git('git add -A && git commit -m first');
+      await writeFile(join(testDir, 'history', 'b.jsonl'), 'b');
+      await git('git add -A && git commit -m second');
+
+      expect(await getRecentlyChangedFiles(testDir, 1)).toEqual([
+        'history/b.jsonl',
+      ]);
+      expect((await getRecentlyChangedFiles(testDir, 2)).sort()).toEqual([
+        'history/a.jsonl',
+        'history/b.jsonl',
+        'other.txt',
+      ]);
+    });
+
+    it('should only look at the last commits of the repository', async () => {
+      const git = (command: string) => execAsync(command, { cwd: testDir });
+      await git('git init');
+      await git('git config user.email test@example.com');
+      await git('git config user.name Test');
+      await mkdir(join(testDir, 'history'));
+      await writeFile(join(testDir, 'history', 'a.jsonl'), 'a');
+      await git('git add -A && git commit -m history');
+      await writeFile(join(testDir, 'other.txt'), 'one');
+      await git('git add -A && git commit -m unrelated');
+      await writeFile(join(testDir, 'other.txt'), 'two');
+      await git('git add -A && git commit -m unrelated');
+
+      expect(await getRecentlyChangedFiles(testDir, 2)).toEqual(['other.txt']);
+    });
+  });
 });
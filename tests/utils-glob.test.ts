@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesGlob } from '../src/utils/glob.js';
+
+describe('glob utilities', () => {
+  describe('globToRegExp', () => {
+    it('should match within a single path segment with *', () => {
+      const regex = globToRegExp('todos/*.json');
+
+      expect(regex.test('todos/abc.json')).toBe(true);
+      expect(regex.test('todos/nested/abc.json')).toBe(false);
+    });
+
+    it('should match any number of directories with **', () => {
+      const regex = globToRegExp('file-history/**');
+
+      expect(regex.test('file-history/abc/1')).toBe(true);
+      expect(regex.test('file-history/abc/nested/2')).toBe(true);
+      expect(regex.test('todos/abc.json')).toBe(false);
+    });
+
+    it('should match globs without a slash at any depth', () => {
+      const regex = globToRegExp('agent-*.jsonl');
+
+      expect(regex.test('agent-1.jsonl')).toBe(true);
+      expect(regex.test('sessions/abc/agent-1.jsonl')).toBe(true);
+      expect(regex.test('abc.jsonl')).toBe(false);
+    });
+
+    it('should treat other characters literally', () => {
+      const regex = globToRegExp('a+b.jsonl');
+
+      expect(regex.test('a+b.jsonl')).toBe(true);
+      expect(regex.test('aab.jsonl')).toBe(false);
+      expect(regex.test('a+bxjsonl')).toBe(false);
+    });
+  });
+
+  describe('matchesGlob', () => {
+    it('should match any of the globs', () => {
+      expect(matchesGlob('abc.jsonl', ['*.json', '*.jsonl'])).toBe(true);
+      expect(matchesGlob('abc.txt', ['*.json', '*.jsonl'])).toBe(false);
+      expect(matchesGlob('abc.jsonl', [])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { diffJsonl } from '../src/utils/jsonl-diff.js';
+
+const entry = (uuid: string, text: string) =>
+  JSON.stringify({ type: 'user', uuid, message: { content: text } });
+
+describe('diffJsonl', () => {
+  it('should find entries only one copy has', () => {
+    const a = [entry('1', 'one'), entry('2', 'two')].join('\n') + '\n';
+    const b = [entry('1', 'one'), entry('3', 'three')].join('\n') + '\n';
+
+    expect(diffJsonl(a, b)).toEqual({
+      onlyA: [{ line: 2, text: entry('2', 'two') }],
+      onlyB: [{ line: 2, text: entry('3', 'three') }],
+      changed: [],
+      shared: 1,
+    });
+  });
+
+  it('should match messages by uuid and report changed content', () => {
+    const diff = diffJsonl(entry('1', 'one'), entry('1', 'ONE'));
+
+    expect(diff.changed).toEqual([
+      {
+        a: { line: 1, text: entry('1', 'one') },
+        b: { line: 1, text: entry('1', 'ONE') },
+      },
+    ]);
+    expect(diff.shared).toBe(0);
+  });
+
+  it('should number lines of the file, counting blank lines', () => {
+    const diff = diffJsonl(`\n\n${entry('1', 'one')}\n`, '');
+
+    expect(diff.onlyA).toEqual([{ line: 3, text: entry('1', 'one') }]);
+  });
+
+  it('should ignore a partially written last line', () => {
+    const diff = diffJsonl(
+      `${entry('1', 'one')}\n{"type":"us`,
+      entry('1', 'one')
+    );
+
+    expect(diff).toEqual({ onlyA: [], onlyB: [], changed: [], shared: 1 });
+  });
+});
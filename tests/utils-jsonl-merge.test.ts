@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseJsonlEntries,
+  countJsonlLines,
+  mergeJsonl,
+} from '../src/utils/jsonl-merge.js';
+
+function entry(
+  uuid: string,
+  parentUuid: string | null,
+  timestamp: string
+): string {
+  return JSON.stringify({ type: 'user', uuid, parentUuid, timestamp });
+}
+
+function toJsonl(lines: string[]): string {
+  return lines.join('\n') + '\n';
+}
+
+describe('JSONL Merge Utilities', () => {
+  describe('parseJsonlEntries', () => {
+    it('should key messages by uuid', () => {
+      const entries = parseJsonlEntries(
+        toJsonl([entry('a', null, '2024-01-01T00:00:00Z')])
+      );
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].key).toBe('uuid:a');
+      expect(entries[0].timestamp).toBe('2024-01-01T00:00:00Z');
+    });
+
+    it('should key summaries by their leaf uuid', () => {
+      const entries = parseJsonlEntries(
+        toJsonl([JSON.stringify({ type: 'summary', leafUuid: 'x' })])
+      );
+
+      expect(entries[0].key).toBe('summary:x');
+    });
+
+    it('should drop a partially written last line', () => {
+      const content =
+        toJsonl([entry('a', null, '2024-01-01T00:00:00Z')]) + '{"uuid":"b"';
+
+      expect(parseJsonlEntries(content)).toHaveLength(1);
+    });
+
+    it('should skip blank lines', () => {
+      expect(countJsonlLines('\n\n' + toJsonl(['{"a":1}']) + '\n')).toBe(1);
+    });
+  });
+
+  describe('mergeJsonl', () => {
+    const a = entry('a', null, '2024-01-01T00:00:00Z');
+    const b = entry('b', 'a', '2024-01-01T00:01:00Z');
+    const c = entry('c', 'b', '2024-01-01T00:02:00Z');
+    const d = entry('d', 'b', '2024-01-01T00:03:00Z');
+
+    it('should leave the destination alone when it has every entry', () => {
+      const dest = toJsonl([a, b, c]);
+      const result = mergeJsonl(dest, toJsonl([a, b]));
+
+      expect(result.changed).toBe(false);
+      expect(result.linesAdded).toBe(0);
+      expect(result.content).toBe(dest);
+    });
+
+    it('should take the source when it extends the destination', () => {
+      const source = toJsonl([a, b, c]);
+      const result = mergeJsonl(toJsonl([a]), source);
+
+      expect(result.changed).toBe(true);
+      expect(result.linesAdded).toBe(2);
+      expect(result.content).toBe(source);
+    });
+
+    it('should keep entries from both sides when copies diverge', () => {
+      const result = mergeJsonl(toJsonl([a, b, d]), toJsonl([a, b, c]));
+
+      expect(result.changed).toBe(true);
+      expect(result.linesAdded).toBe(1);
+      expect(result.content).toBe(toJsonl([a, b, c, d]));
+    });
+
+    it('should produce the same result regardless of direction', () => {
+      const left = toJsonl([a, b, d]);
+      const right = toJsonl([a, b, c]);
+
+      expect(mergeJsonl(left, right).content).toBe(
+        mergeJsonl(right, left).content
+      );
+    });
+
+    it('should write parents before their children', () => {
+      // Child carries an earlier timestamp than its parent
+      const parent = entry('p', 'a', '2024-01-01T00:05:00Z');
+      const child = entry('q', 'p', '2024-01-01T00:04:00Z');
+      const other = entry('r', 'a', '2024-01-01T00:01:00Z');
+
+      const result = mergeJsonl(toJsonl([a, other]), toJsonl([a, parent, child]));
+      const order = parseJsonlEntries(result.content).map((e) => e.uuid);
+
+      expect(order.indexOf('p')).toBeLessThan(order.indexOf('q'));
+      expect(order).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  mkdir,
+  rm,
+  writeFile,
+  access,
+  utimes,
+  readdir,
+  readFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir, hostname } from 'node:os';
+import { acquireLock, withLock } from '../src/utils/lock.js';
+
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs/promises')>();
+  return { ...actual, readFile: vi.fn(actual.readFile) };
+});
+
+describe('Lock Utilities', () => {
+  let testDir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `claude-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    lockPath = join(testDir, '.sync.lock');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should create and remove the lock file', async () => {
+    const release = await acquireLock(lockPath);
+    await expect(access(lockPath)).resolves.toBeUndefined();
+
+    await release();
+    await expect(access(lockPath)).rejects.toThrow();
+  });
+
+  it('should make concurrent holders take turns', async () => {
+    const events: string[] = [];
+    const task = (name: string) =>
+      withLock(
+        lockPath,
+        async () => {
+          events.push(`${name}:start`);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          events.push(`${name}:end`);
+        },
+        { retryMs: 10 }
+      );
+
+    await Promise.all([task('a'), task('b')]);
+
+    expect(events).toHaveLength(4);
+    expect(events[0].split(':')[0]).toBe(events[1].split(':')[0]);
+    expect(events[2].split(':')[0]).toBe(events[3].split(':')[0]);
+  });
+
+  it('should release the lock when the function throws', async () => {
+    await expect(
+      withLock(lockPath, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    await expect(access(lockPath)).rejects.toThrow();
+  });
+
+  it('should time out while another holder keeps the lock', async () => {
+    const release = await acquireLock(lockPath);
+
+    await expect(
+      acquireLock(lockPath, { timeoutMs: 100, retryMs: 10 })
+    ).rejects.toThrow('Timed out');
+
+    await release();
+  });
+
+  it('should take over a lock left by a dead process', async () => {
+    await writeFile(
+      lockPath,
+      JSON.stringify({
+        pid: 2 ** 22 + 12345,
+        hostname: hostname(),
+        createdAt: new Date().toISOString(),
+      })
+    );
+
+    const release = await acquireLock(lockPath, { timeoutMs: 500 });
+    await release();
+  });
+
+  it('should let only one of two waiters take over a dead lock', async () => {
+    await writeFile(
+      lockPath,
+      JSON.stringify({
+        pid: 2 ** 22 + 12345,
+        hostname: hostname(),
+        createdAt: new Date().toISOString(),
+      })
+    );
+    // The second waiter sees the dead lock only after the first replaced it
+    const actual =
+      await vi.importActual<typeof import('node:fs/promises')>(
+        'node:fs/promises'
+      );
+    vi.mocked(readFile)
+      .mockImplementationOnce(actual.readFile)
+      .mockImplementationOnce(async (...args) => {
+        const content = await actual.readFile(...args);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return content;
+      });
+    const events: string[] = [];
+    const task = (name: string) =>
+      withLock(
+        lockPath,
+        async () => {
+          events.push(`${name}:start`);
+          await new Promise((resolve) => setTimeout(resolve, 200));
+          events.push(`${name}:end`);
+        },
+        { retryMs: 10 }
+      );
+
+    await Promise.all([task('a'), task('b')]);
+
+    expect(events).toHaveLength(4);
+    expect(events[0].split(':')[0]).toBe(events[1].split(':')[0]);
+    expect(events[2].split(':')[0]).toBe(events[3].split(':')[0]);
+    expect(await readdir(testDir)).toEqual([]);
+  });
+
+  it('should not take over an old lock whose holder is running', async () => {
+    const release = await acquireLock(lockPath);
+    const hourAgo = new Date(Date.now() - 60 * 60_000);
+    await utimes(lockPath, hourAgo, hourAgo);
+
+    await expect(
+      acquireLock(lockPath, { timeoutMs: 100, retryMs: 10, staleMs: 1000 })
+    ).rejects.toThrow('Timed out');
+
+    await release();
+  });
+
+  it('should take over an old lock held on another host', async () => {
+    await writeFile(
+      lockPath,
+      JSON.stringify({
+        pid: process.pid,
+        hostname: `${hostname()}-other`,
+        createdAt: new Date().toISOString(),
+      })
+    );
+
+    await expect(
+      acquireLock(lockPath, { timeoutMs: 100, retryMs: 10, staleMs: 1000 })
+    ).rejects.toThrow('Timed out');
+
+    const hourAgo = new Date(Date.now() - 60 * 60_000);
+    await utimes(lockPath, hourAgo, hourAgo);
+    const release = await acquireLock(lockPath, {
+      timeoutMs: 500,
+      staleMs: 1000,
+    });
+    await release();
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile, appendFile, rename } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  followLog,
+  formatLogRecord,
+  getLogFiles,
+  matchesLogFilter,
+  parseLogRecord,
+  readLogRecords,
+} from '../src/utils/logs.js';
+import type { LogRecord } from '../src/types/index.js';
+
+const record = (fields: Partial<LogRecord>): LogRecord => ({
+  time: '2024-01-31T14:05:09.000Z',
+  level: 'info',
+  message: 'Starting...',
+  ...fields,
+});
+
+const line = (fields: Partial<LogRecord>) =>
+  JSON.stringify(record(fields)) + '\n';
+
+describe('Log Utilities', () => {
+  describe('parseLogRecord', () => {
+    it('should parse a record', () => {
+      expect(parseLogRecord(line({ project: '/work/app' }))).toEqual(
+        record({ project: '/work/app' })
+      );
+    });
+
+    it('should skip lines that are not records', () => {
+      expect(parseLogRecord('Error: crashed')).toBeNull();
+      expect(parseLogRecord('{"message":"no level"}')).toBeNull();
+      expect(
+        parseLogRecord(line({ level: 'loud' as LogRecord['level'] }))
+      ).toBeNull();
+    });
+  });
+
+  describe('matchesLogFilter', () => {
+    it('should keep records at least as severe as the level', () => {
+      expect(
+        matchesLogFilter(record({ level: 'error' }), { level: 'warn' })
+      ).toBe(true);
+      expect(
+        matchesLogFilter(record({ level: 'warn' }), { level: 'warn' })
+      ).toBe(true);
+      expect(
+        matchesLogFilter(record({ level: 'info' }), { level: 'warn' })
+      ).toBe(false);
+    });
+
+    it('should keep records of the project', () => {
+      expect(
+        matchesLogFilter(record({ project: '/work/app' }), {
+          project: '/work/app',
+        })
+      ).toBe(true);
+      expect(
+        matchesLogFilter(record({ project: '/work/api' }), {
+          project: '/work/app',
+        })
+      ).toBe(false);
+      expect(matchesLogFilter(record({}), { project: '/work/app' })).toBe(
+        false
+      );
+    });
+  });
+
+  describe('formatLogRecord', () => {
+    it('should show the level, message and fields', () => {
+      const text = formatLogRecord(
+        record({
+          level: 'warn',
+          message: 'Synced /work/app (to-global)',
+          project: '/work/app',
+          direction: 'to-global',
+          files: 3,
+          durationMs: 42,
+          error: 'a.jsonl is locked',
+        })
+      );
+
+      expect(text).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2} WARN  Synced/);
+      expect(text).toContain(
+        'project=/work/app direction=to-global files=3 duration=42ms'
+      );
+      expect(text).toContain('error="a.jsonl is locked"');
+    });
+  });
+
+  describe('getLogFiles', () => {
+    it('should list rotated files oldest first', () => {
+      expect(getLogFiles('/logs/daemon.log', 2)).toEqual([
+        '/logs/daemon.log.2',
+        '/logs/daemon.log.1',
+        '/logs/daemon.log',
+      ]);
+    });
+  });
+
+  describe('with files', () => {
+    let testDir: string;
+    let file: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `claude-test-${Date.now()}`);
+      await mkdir(testDir, { recursive: true });
+      file = join(testDir, 'daemon.log');
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should read rotated files oldest first', async () => {
+      await writeFile(`${file}.2`, line({ message: 'first' }));
+      await writeFile(
+        `${file}.1`,
+        line({ message: 'second' }) + 'not a record\n'
+      );
+      await writeFile(file, line({ message: 'third', level: 'error' }));
+
+      const records = await readLogRecords(file, 3);
+      expect(records.map((r) => r.message)).toEqual([
+        'first',
+        'second',
+        'third',
+      ]);
+
+      const errors = await readLogRecords(file, 3, { level: 'error' });
+      expect(errors.map((r) => r.message)).toEqual(['third']);
+    });
+
+    it('should follow records appended to the log and its replacement', async () => {
+      await writeFile(file, line({ message: 'old' }));
+      const received: string[] = [];
+      const stop = followLog(file, (text) => received.push(text), 20);
+      const wait = () => new Promise((resolve) => setTimeout(resolve, 100));
+
+      try {
+        await wait();
+        await appendFile(file, line({ message: 'new' }));
+        await wait();
+        await rename(file, `${file}.1`);
+        await writeFile(file, line({ message: 'rotated' }));
+        await wait();
+      } finally {
+        stop();
+      }
+
+      const messages = received
+        .join('')
+        .trim()
+        .split('\n')
+        .map((text) => JSON.parse(text).message);
+      expect(messages).toEqual(['new', 'rotated']);
+    });
+  });
+});
@@ -1,6 +1,12 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 import {
+  encodeProjectPath,
+  getGlobalProjectPath,
+  resolveGlobalProjectPath,
+  listFilesRecursive,
   getGlobalStoragePath,
   getLocalStoragePath,
   getHistoryPath,
@@ -94,4 +100,122 @@ describe('Path Utilities', () => {
       expect(normalized).toBe(process.cwd());
     });
   });
+
+  describe('encodeProjectPath', () => {
+    it('should turn slashes into dashes', () => {
+      expect(encodeProjectPath('/Users/me/project')).toBe('-Users-me-project');
+    });
+
+    it('should turn other non-alphanumeric characters into dashes', () => {
+      expect(encodeProjectPath('/home/me/code/my.app')).toBe(
+        '-home-me-code-my-app'
+      );
+      expect(encodeProjectPath('/src/foo_bar baz')).toBe('-src-foo-bar-baz');
+    });
+  });
+
+  describe('resolveGlobalProjectPath', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `claude-test-${Date.now()}`);
+      await mkdir(join(testDir, 'projects'), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should use the encoded directory when it exists', async () => {
+      const expected = getGlobalProjectPath(testDir, '/work/app');
+      await mkdir(expected);
+
+      expect(await resolveGlobalProjectPath(testDir, '/work/app')).toBe(
+        expected
+      );
+    });
+
+    it('should find a differently named directory by session cwd', async () => {
+      const actual = join(testDir, 'projects', 'renamed');
+      await mkdir(actual);
+      await writeFile(
+        join(actual, 'session.jsonl'),
+        [
+          JSON.stringify({ type: 'summary', summary: 'Setup' }),
+          JSON.stringify({ type: 'user', cwd: '/work/app' }),
+        ].join('\n') + '\n'
+      );
+
+      expect(await resolveGlobalProjectPath(testDir, '/work/app')).toBe(actual);
+    });
+
+    it('should fall back to the encoded directory', async () => {
+      expect(await resolveGlobalProjectPath(testDir, '/work/app')).toBe(
+        getGlobalProjectPath(testDir, '/work/app')
+      );
+    });
+
+    it('should reuse the directory found while it still matches', async () => {
+      const writeSession = (dir: string, cwd: string) =>
+        writeFile(
+          join(dir, 'session.jsonl'),
+          JSON.stringify({ type: 'user', cwd }) + '\n'
+        );
+      const actual = join(testDir, 'projects', 'renamed');
+      await mkdir(actual);
+      await writeSession(actual, '/work/app');
+      expect(await resolveGlobalProjectPath(testDir, '/work/app')).toBe(actual);
+
+      // Found first when searching again, but the remembered one still matches
+      const copy = join(testDir, 'projects', 'copy');
+      await mkdir(copy);
+      await writeSession(copy, '/work/app');
+      expect(await resolveGlobalProjectPath(testDir, '/work/app')).toBe(actual);
+
+      await writeSession(actual, '/work/other');
+      expect(await resolveGlobalProjectPath(testDir, '/work/app')).toBe(copy);
+    });
+
+    it('should search again once a directory is added', async () => {
+      expect(await resolveGlobalProjectPath(testDir, '/work/app')).toBe(
+        getGlobalProjectPath(testDir, '/work/app')
+      );
+
+      const actual = join(testDir, 'projects', 'renamed');
+      await mkdir(actual);
+      await writeFile(
+        join(actual, 'session.jsonl'),
+        JSON.stringify({ type: 'user', cwd: '/work/app' }) + '\n'
+      );
+      expect(await resolveGlobalProjectPath(testDir, '/work/app')).toBe(actual);
+    });
+  });
+
+  describe('listFilesRecursive', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `claude-test-${Date.now()}`);
+      await mkdir(join(testDir, 'a', 'b'), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should list nested files relative to the directory', async () => {
+      await writeFile(join(testDir, 'top.json'), '');
+      await writeFile(join(testDir, 'a', 'b', 'deep.jsonl'), '');
+      await writeFile(join(testDir, 'a', '.hidden'), '');
+
+      expect(await listFilesRecursive(testDir)).toEqual([
+        'a/b/deep.jsonl',
+        'top.json',
+      ]);
+    });
+
+    it('should return nothing for a missing directory', async () => {
+      expect(await listFilesRecursive(join(testDir, 'missing'))).toEqual([]);
+    });
+  });
 });
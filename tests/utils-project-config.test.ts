@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  getProjectConfigPath,
+  isFileIncluded,
+  loadProjectConfig,
+  mergeRedactionRules,
+  restrictDirection,
+} from '../src/utils/project-config.js';
+
+describe('project config utilities', () => {
+  describe('loadProjectConfig', () => {
+    let projectRoot: string;
+
+    beforeEach(async () => {
+      projectRoot = join(tmpdir(), `claude-test-${Date.now()}`);
+      await mkdir(join(projectRoot, '.claude'), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should return no settings when sync.json does not exist', async () => {
+      expect(await loadProjectConfig(projectRoot)).toEqual({});
+    });
+
+    it('should load settings from .claude/sync.json', async () => {
+      const config = {
+        direction: 'to-local',
+        exclude: ['file-history/**'],
+        retention: { maxSessions: 20 },
+      };
+      await writeFile(
+        getProjectConfigPath(projectRoot),
+        JSON.stringify(config)
+      );
+
+      expect(getProjectConfigPath(projectRoot)).toBe(
+        join(projectRoot, '.claude', 'sync.json')
+      );
+      expect(await loadProjectConfig(projectRoot)).toEqual(config);
+    });
+
+    it('should reject invalid settings', async () => {
+      await writeFile(
+        getProjectConfigPath(projectRoot),
+        JSON.stringify({ direction: 'sideways' })
+      );
+
+      await expect(loadProjectConfig(projectRoot)).rejects.toThrow(
+        'Invalid setting `direction`'
+      );
+    });
+
+    it('should reject invalid retention limits', async () => {
+      await writeFile(
+        getProjectConfigPath(projectRoot),
+        JSON.stringify({ retention: { maxSessions: -1 } })
+      );
+
+      await expect(loadProjectConfig(projectRoot)).rejects.toThrow(
+        'Invalid setting `retention.maxSessions`'
+      );
+    });
+
+    it('should reject malformed JSON', async () => {
+      await writeFile(getProjectConfigPath(projectRoot), '{ direction: ');
+
+      await expect(loadProjectConfig(projectRoot)).rejects.toThrow(
+        'Could not parse'
+      );
+    });
+  });
+
+  describe('isFileIncluded', () => {
+    it('should include every file without globs', () => {
+      expect(isFileIncluded('abc.jsonl', {})).toBe(true);
+      expect(isFileIncluded('todos/abc.json', {})).toBe(true);
+    });
+
+    it('should only include files matching the include globs', () => {
+      const config = { include: ['*.jsonl'] };
+
+      expect(isFileIncluded('abc.jsonl', config)).toBe(true);
+      expect(isFileIncluded('todos/abc.json', config)).toBe(false);
+    });
+
+    it('should leave out files matching the exclude globs', () => {
+      const config = { exclude: ['file-history/**'] };
+
+      expect(isFileIncluded('abc.jsonl', config)).toBe(true);
+      expect(isFileIncluded('file-history/abc/1', config)).toBe(false);
+    });
+
+    it('should leave out the companion data of excluded sessions', () => {
+      const config = { exclude: ['private.jsonl'] };
+
+      expect(isFileIncluded('private.jsonl', config)).toBe(false);
+      expect(isFileIncluded('todos/private-agent-private.json', config)).toBe(
+        false
+      );
+      expect(isFileIncluded('file-history/private/1', config)).toBe(false);
+      expect(isFileIncluded('todos/other-agent-other.json', config)).toBe(true);
+    });
+  });
+
+  describe('mergeRedactionRules', () => {
+    it('should add project rules and replace global rules of the same name', () => {
+      const merged = mergeRedactionRules(
+        [
+          { name: 'ticket', pattern: 'ACME-\\d+' },
+          { name: 'host', pattern: 'internal\\.example' },
+        ],
+        [
+          { name: 'ticket', pattern: 'PROJ-\\d+' },
+          { name: 'account', pattern: '\\d{12}' },
+        ]
+      );
+
+      expect(merged).toEqual([
+        { name: 'host', pattern: 'internal\\.example' },
+        { name: 'ticket', pattern: 'PROJ-\\d+' },
+        { name: 'account', pattern: '\\d{12}' },
+      ]);
+    });
+  });
+
+  describe('restrictDirection', () => {
+    it('should keep the requested direction when both are allowed', () => {
+      expect(restrictDirection('to-local', 'both')).toBe('to-local');
+      expect(restrictDirection('both', 'both')).toBe('both');
+    });
+
+    it('should narrow a sync in both directions', () => {
+      expect(restrictDirection('both', 'to-global')).toBe('to-global');
+    });
+
+    it('should refuse a direction the project does not sync in', () => {
+      expect(restrictDirection('to-local', 'to-global')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectOriginalRoot,
+  relocateSessionPaths,
+} from '../src/utils/relocate.js';
+
+describe('relocate utilities', () => {
+  describe('detectOriginalRoot', () => {
+    it('should return null when the session matches the project root', () => {
+      const content = JSON.stringify({ cwd: '/repo/app/src' });
+
+      expect(detectOriginalRoot(content, '/repo/app')).toBeNull();
+    });
+
+    it('should use the shortest recorded cwd', () => {
+      const content = [
+        JSON.stringify({ cwd: '/old/place/lib' }),
+        JSON.stringify({ cwd: '/old/place' }),
+      ].join('\n');
+
+      expect(detectOriginalRoot(content, '/new/checkout')).toBe('/old/place');
+    });
+
+    it('should prefer an ancestor named like the project directory', () => {
+      const content = JSON.stringify({ cwd: '/old/app/packages/core' });
+
+      expect(detectOriginalRoot(content, '/new/app')).toBe('/old/app');
+    });
+
+    it('should return null for sessions without a cwd', () => {
+      expect(detectOriginalRoot('{"type":"summary"}\n', '/new/app')).toBeNull();
+    });
+  });
+
+  describe('relocateSessionPaths', () => {
+    it('should rewrite cwd, tool inputs and tool results', () => {
+      const line = JSON.stringify({
+        cwd: '/old/app',
+        message: {
+          content: [
+            { type: 'tool_use', input: { command: 'cat /old/app/a.ts' } },
+          ],
+        },
+        toolUseResult: { filePath: '/old/app/a.ts' },
+      });
+
+      const result = JSON.parse(
+        relocateSessionPaths(line, '/old/app', '/new/app')
+      );
+
+      expect(result.cwd).toBe('/new/app');
+      expect(result.message.content[0].input.command).toBe('cat /new/app/a.ts');
+      expect(result.toolUseResult.filePath).toBe('/new/app/a.ts');
+    });
+
+    it('should leave message text and other paths alone', () => {
+      const line = JSON.stringify({
+        cwd: '/old/app-two',
+        message: { content: [{ type: 'text', text: 'see /old/app/a.ts' }] },
+      });
+
+      expect(relocateSessionPaths(line, '/old/app', '/new/app')).toBe(line);
+    });
+
+    it('should keep unparseable lines as they are', () => {
+      const content = '{"cwd":"/old/app"}\n{"cwd":"/old/app"';
+
+      expect(relocateSessionPaths(content, '/old/app', '/new/app')).toBe(
+        '{"cwd":"/new/app"}\n{"cwd":"/old/app"'
+      );
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createLineMatcher,
+  getSearchableText,
+  tokenize,
+} from '../src/utils/search.js';
+
+describe('search utilities', () => {
+  describe('tokenize', () => {
+    it('should split text into lowercased words', () => {
+      expect(tokenize('Fix the AUTH-bug in auth_handler.ts!')).toEqual([
+        'fix',
+        'the',
+        'auth',
+        'bug',
+        'in',
+        'auth_handler',
+        'ts',
+      ]);
+    });
+
+    it('should keep non-ASCII letters', () => {
+      expect(tokenize('Größe ändern')).toEqual(['größe', 'ändern']);
+    });
+  });
+
+  describe('getSearchableText', () => {
+    it('should attribute tool calls and results to tools', () => {
+      expect(
+        getSearchableText({
+          type: 'tool_use',
+          line: 1,
+          toolUseId: 't1',
+          name: 'Bash',
+          input: { command: 'npm test' },
+        })
+      ).toEqual({ role: 'tool', text: 'Bash {"command":"npm test"}' });
+      expect(
+        getSearchableText({
+          type: 'tool_result',
+          line: 2,
+          toolUseId: 't1',
+          text: 'ok',
+          isError: false,
+        })
+      ).toEqual({ role: 'tool', text: 'ok' });
+    });
+
+    it('should not search summaries', () => {
+      expect(
+        getSearchableText({ type: 'summary', line: 1, summary: 'Title' })
+      ).toBeNull();
+    });
+  });
+
+  describe('createLineMatcher', () => {
+    it('should match plain text ignoring case', () => {
+      const matches = createLineMatcher({ pattern: 'Auth Bug' });
+
+      expect(matches('fixed the auth bug')).toBe(true);
+      expect(matches('fixed the auth')).toBe(false);
+    });
+
+    it('should match case when asked to', () => {
+      const matches = createLineMatcher({
+        pattern: 'Auth',
+        caseSensitive: true,
+      });
+
+      expect(matches('Auth')).toBe(true);
+      expect(matches('auth')).toBe(false);
+    });
+
+    it('should match regular expressions', () => {
+      const matches = createLineMatcher({
+        pattern: 'fix(ed)?\\s+#\\d+',
+        regex: true,
+      });
+
+      expect(matches('Fixed #42')).toBe(true);
+      expect(matches('fix #x')).toBe(false);
+    });
+
+    it('should reject invalid regular expressions', () => {
+      expect(() => createLineMatcher({ pattern: '(', regex: true })).toThrow(
+        'Invalid regular expression'
+      );
+    });
+  });
+});
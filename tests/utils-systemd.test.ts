@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  notifySystemd,
+  quoteUnitArg,
+  renderServiceUnit,
+} from '../src/utils/systemd.js';
+
+describe('Systemd Utilities', () => {
+  describe('quoteUnitArg', () => {
+    it('should quote plain arguments', () => {
+      expect(quoteUnitArg('/home/me/Projects')).toBe('"/home/me/Projects"');
+    });
+
+    it('should escape quotes and backslashes', () => {
+      expect(quoteUnitArg('my "work" \\ dir')).toBe('"my \\"work\\" \\\\ dir"');
+    });
+
+    it('should keep systemd from expanding specifiers and variables', () => {
+      expect(quoteUnitArg('100%/$HOME')).toBe('"100%%/$$HOME"');
+    });
+  });
+
+  describe('renderServiceUnit', () => {
+    const unit = renderServiceUnit([
+      '/usr/bin/node',
+      '/opt/claude-sync/dist/cli.js',
+      'daemon',
+      '--paths',
+      '/home/me/my projects',
+    ]);
+
+    it('should run the command', () => {
+      expect(unit).toContain(
+        'ExecStart="/usr/bin/node" "/opt/claude-sync/dist/cli.js" "daemon" "--paths" "/home/me/my projects"'
+      );
+    });
+
+    it('should wait for readiness and restart on failure', () => {
+      expect(unit).toContain('Type=notify');
+      expect(unit).toContain('NotifyAccess=all');
+      expect(unit).toContain('Restart=on-failure');
+    });
+
+    it('should reload the config with SIGHUP', () => {
+      expect(unit).toContain('ExecReload=/bin/kill -HUP $MAINPID');
+    });
+
+    it('should log to the journal and start at login', () => {
+      expect(unit).toContain('StandardOutput=journal');
+      expect(unit).toContain('StandardError=journal');
+      expect(unit).toContain('WantedBy=default.target');
+    });
+  });
+
+  describe('notifySystemd', () => {
+    const notifySocket = process.env.NOTIFY_SOCKET;
+
+    afterEach(() => {
+      if (notifySocket === undefined) {
+        delete process.env.NOTIFY_SOCKET;
+      } else {
+        process.env.NOTIFY_SOCKET = notifySocket;
+      }
+    });
+
+    it('should do nothing outside a systemd service', async () => {
+      delete process.env.NOTIFY_SOCKET;
+      expect(await notifySystemd('READY=1')).toBe(false);
+    });
+  });
+});
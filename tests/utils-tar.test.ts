@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { createTar, readTar } from '../src/utils/tar.js';
+
+describe('tar', () => {
+  it('should read back the files it writes', () => {
+    const entries = [
+      { name: 'manifest.json', content: Buffer.from('{}') },
+      { name: 'history/a.jsonl', content: Buffer.alloc(1300, 'x') },
+      { name: 'history/empty', content: Buffer.alloc(0) },
+    ];
+
+    const archive = createTar(entries);
+
+    expect(archive.length % 512).toBe(0);
+    expect(readTar(archive)).toEqual(entries);
+  });
+
+  it('should store long paths with a prefix', () => {
+    const name = `history/file-history/${'d'.repeat(90)}/${'f'.repeat(90)}`;
+
+    expect(readTar(createTar([{ name, content: Buffer.from('x') }]))).toEqual([
+      { name, content: Buffer.from('x') },
+    ]);
+  });
+
+  it('should reject paths too long for a header', () => {
+    expect(() =>
+      createTar([{ name: 'a'.repeat(300), content: Buffer.alloc(0) }])
+    ).toThrow('Path too long');
+  });
+
+  it('should reject damaged headers', () => {
+    const archive = createTar([{ name: 'a', content: Buffer.from('x') }]);
+    archive[0] = 'b'.charCodeAt(0);
+
+    expect(() => readTar(archive)).toThrow('bad header checksum');
+  });
+});
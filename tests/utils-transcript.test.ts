@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import chalk from 'chalk';
+import { formatTranscript } from '../src/utils/transcript.js';
+import type { ConversationEntry } from '../src/types/index.js';
+
+const ENTRIES: ConversationEntry[] = [
+  { type: 'summary', line: 1, summary: 'Fix the login bug' },
+  { type: 'user', line: 2, text: 'Why does login fail?' },
+  {
+    type: 'assistant',
+    line: 3,
+    text: 'Let me check the handler.',
+    model: 'claude-sonnet-4-5',
+  },
+  {
+    type: 'tool_use',
+    line: 3,
+    toolUseId: 'toolu_1',
+    name: 'Read',
+    input: { file_path: 'src/login.ts' },
+  },
+  {
+    type: 'tool_result',
+    line: 4,
+    toolUseId: 'toolu_1',
+    text: 'export function login() {\n  return null;\n}',
+    isError: false,
+  },
+  { type: 'assistant', line: 5, text: 'Found it.' },
+];
+
+describe('formatTranscript', () => {
+  let level: typeof chalk.level;
+
+  beforeAll(() => {
+    level = chalk.level;
+    chalk.level = 0;
+  });
+
+  afterAll(() => {
+    chalk.level = level;
+  });
+
+  it('should render turns with one heading per speaker', () => {
+    const text = formatTranscript(ENTRIES);
+
+    expect(text.match(/^User/gm)).toHaveLength(1);
+    expect(text.match(/^Assistant/gm)).toHaveLength(1);
+    expect(text).toContain('Assistant · claude-sonnet-4-5');
+    expect(text).toContain('Why does login fail?');
+    expect(text).toContain('Found it.');
+    expect(text).not.toContain('Fix the login bug');
+  });
+
+  it('should collapse tool calls to one line', () => {
+    const text = formatTranscript(ENTRIES);
+
+    expect(text).toContain('▸ Read src/login.ts (3 lines)');
+    expect(text).not.toContain('return null');
+  });
+
+  it('should expand tool calls with their input and output', () => {
+    const text = formatTranscript(ENTRIES, { expandTools: true });
+
+    expect(text).toContain('▾ Read');
+    expect(text).toContain('"file_path": "src/login.ts"');
+    expect(text).toContain('│   return null;');
+  });
+
+  it('should mark failed tool calls', () => {
+    const failed = ENTRIES.map((entry) =>
+      entry.type === 'tool_result' ? { ...entry, isError: true } : entry
+    );
+
+    expect(formatTranscript(failed)).toContain('▸ Read src/login.ts (error)');
+  });
+});